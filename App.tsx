@@ -1,68 +1,110 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
 import CodeEditor from './components/CodeEditor';
-import Tools from './components/Tools';
+import Tools, { ReplayRequest } from './components/Tools';
 import FileExplorer from './components/FileExplorer';
-import { ToolMode, ProjectFile } from './types';
-import { chatWithGemini } from './services/gemini';
-import { Send, User, Bot, Sparkles, Undo2, Redo2 } from 'lucide-react';
+import ModelPicker from './components/ModelPicker';
+import ChatMessageBody from './components/ChatMessageBody';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import ChangesetReview from './components/ChangesetReview';
+import InsightPanel from './components/InsightPanel';
+import SceneTreePanel from './components/SceneTreePanel';
+import ResourceEditor from './components/ResourceEditor';
+import ImageViewer from './components/ImageViewer';
+import AssetLibrary from './components/AssetLibrary';
+import ImageAttachments, { useAttachmentPicker } from './components/ImageAttachments';
+import UsageDashboard from './components/UsageDashboard';
+import GenerationHistory from './components/GenerationHistory';
+import PromptLibrary from './components/PromptLibrary';
+import ThinkingBudgetPicker from './components/ThinkingBudgetPicker';
+import { ToolMode, ProjectFile, FileChange, GenerationReport, ProviderConfig, ChatMessage, ChatSummary, GenerationConfig, ContextPreferences, Workspace, WorkspaceSummary, UsageEntry, ModelSelection, TokenUsage, GenerationRecord, LibraryEntry } from './types';
+import { chatWithArchitect, estimateChatRequest } from './services/architect';
+import { extractCodeSnippet } from './services/chat';
+import { CodeLocation } from './services/editor';
+import { lintGDScript } from './services/gdscript';
+import { validateScene } from './services/tscn';
+import { resourceClassFor, validateResource } from './services/resources';
+import { DEFAULT_PROVIDER_CONFIG, resolveTarget } from './services/llm';
+import { recordUsage } from './services/usage';
+import { addGeneration, changedSince } from './services/generations';
+import { DEFAULT_LIBRARY } from './services/library';
+import { imageAssets, preloadStatement, updateReferences, variationName } from './services/assets';
+import { DEFAULT_VISUAL_ASSET, imageDimensions } from './services/sprites';
+import { toResPath, withPath, replacePrefix, isInside, basename, dirname, joinPath, RES_ROOT } from './services/paths';
+import { importProjectZip, importProjectFolder, exportProjectZip, downloadBlob, languageForFile, ImportedProject } from './services/project';
+import { INITIAL_FILES, DEFAULT_GENERATION_CONFIG, createGreeting, createWorkspace, listWorkspaces, loadWorkspace, saveWorkspace, deleteWorkspace, trimHistory } from './services/workspaces';
+import { Send, Square, User, Bot, Sparkles, Undo2, Redo2, Settings, FileCode, History, Paperclip } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
 const simpleId = () => Math.random().toString(36).substr(2, 9);
 
-const INITIAL_CODE = `extends CharacterBody2D
-
-const SPEED = 300.0
-const JUMP_VELOCITY = -400.0
-
-var gravity = ProjectSettings.get_setting("physics/2d/default_gravity")
-
-func _physics_process(delta):
-\tif not is_on_floor():
-\t\tvelocity.y += gravity * delta
-
-\tif Input.is_action_just_pressed("ui_accept") and is_on_floor():
-\t\tvelocity.y = JUMP_VELOCITY
-
-\tvar direction = Input.get_axis("ui_left", "ui_right")
-\tif direction:
-\t\tvelocity.x = direction * SPEED
-\telse:
-\t\tvelocity.x = move_toward(velocity.x, 0, SPEED)
-
-\tmove_and_slide()
-`;
-
-const INITIAL_FILES: ProjectFile[] = [
-    { id: '1', name: 'player.gd', language: 'gdscript', content: INITIAL_CODE },
-    { id: '2', name: 'game_manager.gd', language: 'gdscript', content: 'extends Node\n\nvar score: int = 0\n' }
-];
+// Starting content for files created from the explorer
+const DEFAULT_FILE_CONTENT: Partial<Record<ProjectFile['language'], string>> = {
+    gdscript: 'extends Node\n',
+    json: '{}',
+    shader: 'shader_type canvas_item;\n\nvoid fragment() {\n\tCOLOR = texture(TEXTURE, UV);\n}\n',
+    scene: '[gd_scene format=3]\n\n[node name="Root" type="Node2D"]\n',
+    resource: '[gd_resource type="Resource" format=3]\n\n[resource]\n',
+};
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<ToolMode>(ToolMode.CODE_GEN);
   const [files, setFiles] = useState<ProjectFile[]>(INITIAL_FILES);
   const [activeFileId, setActiveFileId] = useState<string>('1');
   const [explanation, setExplanation] = useState<string>('');
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [report, setReport] = useState<GenerationReport | null>(null); // Validation and self-repair details of the last generation
+  const [codePreview, setCodePreview] = useState<string | null>(null); // Live output of a streaming generation
+  const [changeset, setChangeset] = useState<{ id: string; changes: FileChange[] } | null>(null); // Generated files awaiting review
   
   // Undo/Redo History
   const [history, setHistory] = useState<ProjectFile[][]>([INITIAL_FILES]);
   const [historyIndex, setHistoryIndex] = useState(0);
 
   // Chat State
-  const [chatHistory, setChatHistory] = useState<{ role: 'user' | 'model', content: string }[]>([
-    { role: 'model', content: "Hello. I am your Godot Architect. I can see all your project files. How can I assist you?" }
-  ]);
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>(() => [createGreeting()]);
+  const [chatSummary, setChatSummary] = useState<ChatSummary | null>(null);
   const [chatInput, setChatInput] = useState('');
+  const [chatImages, setChatImages] = useState<string[]>([]);
+  const chatAttachments = useAttachmentPicker(chatImages, setChatImages);
   const [chatLoading, setChatLoading] = useState(false);
+  const [showChatSettings, setShowChatSettings] = useState(false);
+  const chatAbortRef = useRef<AbortController | null>(null);
+
+  // Provider / Model Routing
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(DEFAULT_PROVIDER_CONFIG);
+  const [generationConfig, setGenerationConfig] = useState<GenerationConfig>(DEFAULT_GENERATION_CONFIG);
+  const [contextPreferences, setContextPreferences] = useState<ContextPreferences>({ pinned: [], excluded: [] });
+  const [usage, setUsage] = useState<UsageEntry[]>([]);
+  const [generations, setGenerations] = useState<GenerationRecord[]>([]);
+  const [library, setLibrary] = useState<LibraryEntry[]>(DEFAULT_LIBRARY);
+  const [replay, setReplay] = useState<ReplayRequest | null>(null); // History entry sent back to the tools
+  const [overlay, setOverlay] = useState<'usage' | 'history' | 'assets' | 'library' | null>(null); // Shown in place of the editor
+
+  // Workspaces (persisted to IndexedDB)
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [folders, setFolders] = useState<string[]>([]);
 
   const activeFile = files.find(f => f.id === activeFileId) || files[0];
+  const isReviewing = changeset !== null && codePreview === null;
+  const diagnostics = useMemo(() => {
+      if (activeFile.language === 'gdscript') return lintGDScript(activeFile.content, { strictTyping: generationConfig.typing === 'strict' });
+      if (activeFile.language === 'scene') return validateScene(activeFile.content, files.map(f => f.path));
+      if (activeFile.language === 'resource') return validateResource(activeFile.content, files.map(f => f.path), resourceClassFor(activeFile.content, files));
+      return [];
+  }, [activeFile.content, activeFile.language, files, generationConfig.typing]);
+  const cursorOffsetRef = useRef(0);
+  const selectionEndRef = useRef(0);
+  // Offsets are clamped: they can be left over from a longer file
+  const editorSelection = () => activeFile.language === 'image' ? ''
+      : activeFile.content.slice(Math.min(cursorOffsetRef.current, activeFile.content.length), Math.min(selectionEndRef.current, activeFile.content.length));
+  const [highlight, setHighlight] = useState<CodeLocation | null>(null); // Editor line linked from another panel
 
   const pushToHistory = (newFiles: ProjectFile[]) => {
-      const newHistory = history.slice(0, historyIndex + 1);
-      newHistory.push(newFiles);
-      setHistory(newHistory);
-      setHistoryIndex(newHistory.length - 1);
+      // Every edit is a full snapshot, so only the latest steps are kept
+      const trimmed = trimHistory([...history.slice(0, historyIndex + 1), newFiles], historyIndex + 1);
+      setHistory(trimmed.history);
+      setHistoryIndex(trimmed.historyIndex);
       setFiles(newFiles);
   };
 
@@ -82,6 +124,129 @@ const App: React.FC = () => {
       }
   };
 
+  const applyWorkspace = (workspace: Workspace) => {
+      setWorkspaceId(workspace.id);
+      setFiles(workspace.files);
+      setActiveFileId(workspace.activeFileId);
+      setFolders(workspace.folders);
+      setHistory(workspace.history);
+      setHistoryIndex(workspace.historyIndex);
+      setChatHistory(workspace.chatHistory);
+      setChatSummary(workspace.chatSummary);
+      setGenerationConfig(workspace.generationConfig);
+      setProviderConfig(workspace.providerConfig);
+      setContextPreferences(workspace.contextPreferences);
+      setUsage(workspace.usage);
+      setGenerations(workspace.generations);
+      setLibrary(workspace.library);
+      setExplanation('');
+      setReport(null);
+      setChangeset(null);
+  };
+
+  // Restore the most recently used workspace, or create the first one
+  const restoreStartedRef = useRef(false);
+  useEffect(() => {
+    if (restoreStartedRef.current) return; // StrictMode runs effects twice in development
+    restoreStartedRef.current = true;
+    const restore = async () => {
+        try {
+            const saved = await listWorkspaces();
+            const workspace = saved.length > 0 ? await loadWorkspace(saved[0].id) : null;
+            if (workspace) {
+                setWorkspaces(saved);
+                applyWorkspace(workspace);
+                return;
+            }
+            const fresh = createWorkspace('My Project');
+            await saveWorkspace(fresh);
+            setWorkspaces([fresh]);
+            applyWorkspace(fresh);
+        } catch (err) {
+            console.error("Workspace restore failed:", err);
+        }
+    };
+    restore();
+  }, []);
+
+  const snapshotWorkspace = (id: string): Workspace => ({
+      id,
+      name: workspaces.find(w => w.id === id)?.name || 'Untitled',
+      updatedAt: Date.now(),
+      files,
+      activeFileId,
+      folders,
+      history,
+      historyIndex,
+      chatHistory: chatHistory.filter(m => !m.isThinking),
+      chatSummary,
+      generationConfig,
+      providerConfig,
+      contextPreferences,
+      usage,
+      generations,
+      library
+  });
+
+  // Auto-save the active workspace shortly after any change
+  useEffect(() => {
+    if (!workspaceId) return;
+    const timer = setTimeout(() => {
+        saveWorkspace(snapshotWorkspace(workspaceId)).catch(err => console.error("Workspace save failed:", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [workspaceId, files, activeFileId, folders, history, historyIndex, chatHistory, chatSummary, generationConfig, providerConfig, contextPreferences, usage, generations, library]);
+
+  const handleWorkspaceSwitch = async (id: string) => {
+      if (id === workspaceId) return;
+      // Flush pending edits of the workspace being left before replacing the state
+      if (workspaceId) await saveWorkspace(snapshotWorkspace(workspaceId));
+      const workspace = await loadWorkspace(id);
+      if (workspace) applyWorkspace(workspace);
+  };
+
+  const handleWorkspaceCreate = async (name: string, files?: ProjectFile[]) => {
+      if (workspaceId) await saveWorkspace(snapshotWorkspace(workspaceId));
+      const workspace = createWorkspace(name, files);
+      await saveWorkspace(workspace);
+      setWorkspaces(await listWorkspaces());
+      applyWorkspace(workspace);
+  };
+
+  // Imported projects open in a workspace of their own
+  const handleProjectImport = async (load: () => Promise<ImportedProject>) => {
+      try {
+          const project = await load();
+          await handleWorkspaceCreate(project.name, project.files);
+      } catch (err) {
+          window.alert(`Import failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+  };
+
+  const handleProjectExport = async () => {
+      const name = workspaces.find(w => w.id === workspaceId)?.name || 'godot_project';
+      downloadBlob(await exportProjectZip(name, files, folders), `${name.replace(/[^\w-]+/g, '_')}.zip`);
+  };
+
+  const handleWorkspaceDelete = async (id: string) => {
+      // Stop auto-saving the workspace being deleted, or a pending save writes it straight back
+      if (id === workspaceId) setWorkspaceId(null);
+      await deleteWorkspace(id);
+      const remaining = await listWorkspaces();
+      setWorkspaces(remaining);
+      if (id !== workspaceId) return;
+      const next = remaining.length > 0 ? await loadWorkspace(remaining[0].id) : null;
+      if (next) {
+          applyWorkspace(next);
+          return;
+      }
+      // The last workspace is gone: start over with a fresh one
+      const fresh = createWorkspace('My Project');
+      await saveWorkspace(fresh);
+      setWorkspaces(await listWorkspaces());
+      applyWorkspace(fresh);
+  };
+
   // Keyboard Shortcuts for Undo/Redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -103,18 +268,89 @@ const App: React.FC = () => {
     pushToHistory(updatedFiles);
   };
 
-  const handleFileCreate = (name: string) => {
+  // Generated code never overwrites files directly: it is held for review and only the accepted result enters history
+  const proposeChangeset = (changes: FileChange[]) => {
+    const effective = changes.filter(c => files.find(f => f.path === c.path)?.content !== c.content);
+    if (effective.length > 0) setChangeset({ id: simpleId(), changes: effective });
+  };
+
+  // The whole accepted changeset is a single history entry, so one undo reverts every file it touched
+  const applyChangeset = (accepted: FileChange[]) => {
+    const created: ProjectFile[] = [];
+    let updatedFiles = files;
+    accepted.forEach(change => {
+      const existing = files.find(f => f.path === change.path);
+      if (existing) {
+        updatedFiles = updatedFiles.map(f => f.id === existing.id ? { ...f, content: change.content, source: change.source ?? f.source } : f);
+      } else {
+        created.push({ id: simpleId(), name: basename(change.path), path: change.path, language: change.language, content: change.content, source: change.source });
+      }
+    });
+    pushToHistory([...updatedFiles, ...created]);
+    if (created.length > 0 && !accepted.some(c => c.path === activeFile.path)) setActiveFileId(created[0].id);
+    setChangeset(null);
+  };
+
+  // Accepts a bare file name (created at res://) or a full res:// path
+  const handleFileCreate = (nameOrPath: string, content?: string) => {
+      const path = toResPath(nameOrPath);
+      if (files.some(f => f.path === path)) {
+          window.alert(`${path} already exists.`);
+          return;
+      }
       const newFile: ProjectFile = {
           id: simpleId(),
-          name,
-          language: name.endsWith('.json') ? 'json' : 'gdscript',
-          content: name.endsWith('.json') ? '{}' : 'extends Node\n'
+          name: basename(path),
+          path,
+          language: languageForFile(path),
+          content: content ?? DEFAULT_FILE_CONTENT[languageForFile(path)] ?? ''
       };
       const updatedFiles = [...files, newFile];
       pushToHistory(updatedFiles);
       setActiveFileId(newFile.id);
   };
 
+  const handleFolderCreate = (path: string) => {
+      const folder = toResPath(path);
+      if (folder !== RES_ROOT && !folders.includes(folder)) setFolders([...folders, folder]);
+  };
+
+  const handleFolderDelete = (folder: string) => {
+      const updatedFiles = files.filter(f => !isInside(f.path, folder));
+      if (updatedFiles.length === 0) {
+          window.alert("A project needs at least one file.");
+          return;
+      }
+      setFolders(folders.filter(f => f !== folder && !isInside(f, folder)));
+      if (updatedFiles.length !== files.length) {
+          pushToHistory(updatedFiles);
+          if (!updatedFiles.some(f => f.id === activeFileId)) setActiveFileId(updatedFiles[0].id);
+      }
+  };
+
+  // Renaming and moving are the same operation: rewrite the path prefix of a file or of everything in a folder.
+  // Renaming an asset also updates the scripts and resources that reference it.
+  const handleRename = (from: string, to: string, rewriteReferences = false) => {
+      const target = toResPath(to);
+      if (files.some(f => f.path === target) || folders.includes(target)) {
+          window.alert(`${target} already exists.`);
+          return;
+      }
+      // Keep the old parent folder around even if the move leaves it empty
+      const parent = dirname(from);
+      const keptFolders = parent !== RES_ROOT && !folders.includes(parent) ? [...folders, parent] : folders;
+      setFolders(keptFolders.map(f => replacePrefix(f, from, target)));
+      setContextPreferences({
+          pinned: contextPreferences.pinned.map(p => replacePrefix(p, from, target)),
+          excluded: contextPreferences.excluded.map(p => replacePrefix(p, from, target))
+      });
+      const updatedFiles = files.map(f => {
+          const path = replacePrefix(f.path, from, target);
+          return path === f.path ? f : { ...withPath(f, path), language: languageForFile(path) };
+      });
+      pushToHistory(rewriteReferences ? updateReferences(updatedFiles, from, target) : updatedFiles);
+  };
+
   const handleFileDelete = (id: string) => {
       if (files.length <= 1) return;
       const updatedFiles = files.filter(f => f.id !== id);
@@ -122,22 +358,151 @@ const App: React.FC = () => {
       if (activeFileId === id) setActiveFileId(updatedFiles[0].id);
   };
 
+  const openLocation = (location: CodeLocation) => {
+      const file = files.find(f => f.path === location.path);
+      if (!file) return;
+      setActiveFileId(file.id);
+      setOverlay(null);
+      setHighlight({ path: file.path, line: location.line });
+  };
+
+  const insertAtCursor = (code: string) => {
+      const content = activeFile.content;
+      const offset = Math.min(cursorOffsetRef.current, content.length);
+      updateActiveFileContent(content.slice(0, offset) + code + content.slice(offset));
+  };
+
+  const openAsset = (file: ProjectFile) => {
+      setActiveFileId(file.id);
+      setOverlay(null);
+  };
+
+  // A variation runs the asset's request again, saved under a new name next to it
+  const generateVariation = (file: ProjectFile) => {
+      if (!file.source) return;
+      const { request } = file.source;
+      setMode(ToolMode.ASSET_GEN);
+      setReplay({
+          id: simpleId(),
+          request: { ...request, activePath: file.path, visualAsset: { ...request.visualAsset, name: variationName(files, file.path) } },
+          run: true
+      });
+  };
+
+  // Editing loads the asset as the reference image (to mask and describe the change), saved back over it after review
+  const editAsset = async (file: ProjectFile) => {
+      const previous = file.source?.request;
+      const name = basename(file.path).replace(/\.png$/i, '');
+      let visualAsset = previous ? { ...previous.visualAsset, name } : null;
+      if (!visualAsset) {
+          try {
+              const { width, height } = await imageDimensions(file.content);
+              visualAsset = { ...DEFAULT_VISUAL_ASSET, name, frameWidth: width, frameHeight: height };
+          } catch (err) {
+              window.alert(`Edit failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+              return;
+          }
+      }
+      setActiveFileId(file.id);
+      setMode(ToolMode.ASSET_GEN);
+      setReplay({
+          id: simpleId(),
+          request: {
+              mode: ToolMode.ASSET_GEN,
+              prompt: '',
+              referenceInput: '',
+              errorInput: '',
+              images: [file.content],
+              mask: null,
+              godotContext: previous?.godotContext ?? '2D',
+              assetOutputMode: 'image',
+              codeOutputMode: 'script',
+              visualAsset,
+              config: generationConfig,
+              model: providerConfig.image,
+              activePath: file.path
+          },
+          run: false
+      });
+      setOverlay(null);
+  };
+
+  const insertPreload = (file: ProjectFile) => {
+      insertAtCursor(preloadStatement(file.path, generationConfig.typing === 'strict'));
+      setOverlay(null);
+  };
+
+  // Requests can finish after a workspace switch; they are counted in the workspace now open
+  const handleUsage = (usageMode: ToolMode, selection: ModelSelection, tokens: TokenUsage) =>
+      setUsage(prev => recordUsage(prev, usageMode, selection, tokens));
+
+  const handleRecord = (record: Omit<GenerationRecord, 'id' | 'timestamp'>) =>
+      setGenerations(prev => addGeneration(prev, { id: simpleId(), timestamp: Date.now(), ...record }));
+
+  const replayGeneration = (record: GenerationRecord, run: boolean) => {
+      setMode(record.request.mode);
+      setReplay({ id: simpleId(), request: record.request, run });
+      setOverlay(null);
+  };
+
+  // Restoring goes through the review like any generated changeset, with the diff against the current files
+  const compareGeneration = (record: GenerationRecord) => {
+      if (changedSince(record, files).length === 0) {
+          window.alert('The project already matches this result.');
+          return;
+      }
+      proposeChangeset(record.changes);
+      setOverlay(null);
+  };
+
   const handleChatSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!chatInput.trim() || chatLoading) return;
+    const requestTokens = estimateChatRequest(chatHistory, chatInput, chatImages, files, activeFileId, chatSummary, contextPreferences);
+    if (requestTokens > generationConfig.promptTokenWarning &&
+        !window.confirm(`This message is about ${requestTokens.toLocaleString()} tokens with its context, above your warning threshold of ${generationConfig.promptTokenWarning.toLocaleString()}. Send it anyway?`)) return;
 
-    const userMsg = { role: 'user' as const, content: chatInput };
+    const userMsg: ChatMessage = { id: simpleId(), role: 'user', content: chatInput, timestamp: Date.now(), ...(chatImages.length > 0 && { images: chatImages }) };
     setChatHistory(prev => [...prev, userMsg]);
     setChatInput('');
+    setChatImages([]);
     setChatLoading(true);
 
+    const chatSelection = providerConfig.modes[ToolMode.CHAT];
+    const target = resolveTarget(chatSelection, providerConfig);
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+
+    // The reply is inserted on its first streamed chunk and updated in place afterwards
+    const replyId = simpleId();
+    const upsertReply = (patch: Partial<ChatMessage>) => setChatHistory(prev =>
+        prev.some(m => m.id === replyId)
+            ? prev.map(m => m.id === replyId ? { ...m, ...patch } : m)
+            : [...prev, { id: replyId, role: 'model', content: '', timestamp: Date.now(), ...patch }]
+    );
+
     try {
-        const responseText = await chatWithGemini(chatHistory, chatInput, files, activeFileId);
-        const modelMsg = { role: 'model' as const, content: responseText || "I couldn't generate a response." };
-        setChatHistory(prev => [...prev, modelMsg]);
+        const reply = await chatWithArchitect(target, chatHistory, chatInput, chatImages, files, activeFileId, chatSummary, contextPreferences, generationConfig, {
+            signal: controller.signal,
+            onChunk: (text) => upsertReply({ content: text, isThinking: true }),
+            onUsage: (tokens) => handleUsage(ToolMode.CHAT, chatSelection, tokens)
+        });
+        upsertReply({
+            content: reply.text || "I couldn't generate a response.",
+            codeSnippet: extractCodeSnippet(reply.text),
+            contextFiles: reply.contextFiles,
+            isThinking: false
+        });
+        setChatSummary(reply.summary);
     } catch (err) {
-        setChatHistory(prev => [...prev, { role: 'model', content: "Error communicating with Gemini." }]);
+        if (controller.signal.aborted) {
+            // Keep whatever arrived before the user stopped the reply
+            setChatHistory(prev => prev.map(m => m.id === replyId ? { ...m, isThinking: false, codeSnippet: extractCodeSnippet(m.content) } : m));
+        } else {
+            setChatHistory(prev => [...prev.filter(m => m.id !== replyId), { id: simpleId(), role: 'model', content: `Error from ${target.provider.label}: ${err instanceof Error ? err.message : 'Unknown error'}`, timestamp: Date.now(), isError: true }]);
+        }
     } finally {
+        chatAbortRef.current = null;
         setChatLoading(false);
     }
   };
@@ -148,7 +513,7 @@ const App: React.FC = () => {
       <div className="w-full h-full max-w-[1800px] glass-panel rounded-3xl overflow-hidden shadow-2xl flex flex-col md:flex-row">
         
         {/* Navigation Rail */}
-        <Sidebar currentMode={mode} setMode={setMode} />
+        <Sidebar currentMode={mode} setMode={setMode} modelName={providerConfig.modes[mode].model} onShowUsage={() => setOverlay('usage')} onShowHistory={() => setOverlay('history')} onShowAssets={() => setOverlay('assets')} />
         
         {/* Content Area */}
         <main className="flex-1 flex flex-col md:flex-row overflow-hidden relative">
@@ -158,15 +523,44 @@ const App: React.FC = () => {
               {mode === ToolMode.CHAT ? (
                   // Chat Interface
                   <div className="flex flex-col h-full">
-                      <div className="p-6 md:p-8 border-b border-white/5">
-                          <h2 className="text-2xl font-light text-white flex items-center tracking-tight">
-                              <Sparkles className="text-blue-400 mr-3 opacity-80" size={20}/>
-                              Assistant
-                          </h2>
+                      <div className="p-6 md:p-8 border-b border-white/5 space-y-5">
+                          <div className="flex items-center justify-between">
+                              <h2 className="text-2xl font-light text-white flex items-center tracking-tight">
+                                  <Sparkles className="text-blue-400 mr-3 opacity-80" size={20}/>
+                                  Assistant
+                              </h2>
+                              <button
+                                  onClick={() => setShowChatSettings(!showChatSettings)}
+                                  className={`p-2 rounded-lg transition-all ${showChatSettings ? 'text-blue-400 bg-blue-500/10' : 'text-white/30 hover:text-white'}`}
+                                  title="Configuration"
+                              >
+                                  <Settings size={16} />
+                              </button>
+                          </div>
+                          {showChatSettings && (
+                              <ModelPicker
+                                  selection={providerConfig.modes[ToolMode.CHAT]}
+                                  providerConfig={providerConfig}
+                                  onSelectionChange={(selection) => setProviderConfig({ ...providerConfig, modes: { ...providerConfig.modes, [ToolMode.CHAT]: selection } })}
+                                  onProviderConfigChange={setProviderConfig}
+                              />
+                          )}
+                          {showChatSettings && (
+                              <ThinkingBudgetPicker
+                                  value={generationConfig.thinkingBudgets[ToolMode.CHAT]}
+                                  onChange={(budget) => setGenerationConfig({ ...generationConfig, thinkingBudgets: { ...generationConfig.thinkingBudgets, [ToolMode.CHAT]: budget } })}
+                              />
+                          )}
                       </div>
                       <div className="flex-1 overflow-y-auto p-6 space-y-6">
-                          {chatHistory.map((msg, idx) => (
-                              <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                          {chatSummary && (
+                              <div className="flex items-center justify-center gap-2 text-[10px] text-white/30 uppercase tracking-widest">
+                                  <History size={12} />
+                                  <span>Earlier messages summarized to fit the context</span>
+                              </div>
+                          )}
+                          {chatHistory.map((msg) => (
+                              <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                                   <div className={`max-w-[85%] rounded-2xl px-5 py-3 text-sm leading-relaxed shadow-lg backdrop-blur-md ${
                                       msg.role === 'user' 
                                       ? 'bg-blue-600/30 text-white border border-blue-500/30' 
@@ -175,11 +569,36 @@ const App: React.FC = () => {
                                       <div className="flex items-center gap-2 mb-2 opacity-50 text-[10px] font-bold uppercase tracking-widest">
                                           {msg.role === 'user' ? "You" : "Architect"}
                                       </div>
-                                      <div className="whitespace-pre-wrap font-light">{msg.content}</div>
+                                      {msg.images && msg.images.length > 0 && (
+                                          <div className="flex flex-wrap gap-2 mb-2">
+                                              {msg.images.map((url, i) => <img key={i} src={url} alt={`Attachment ${i + 1}`} className="h-16 max-w-28 object-contain rounded-lg bg-black/20" />)}
+                                          </div>
+                                      )}
+                                      {msg.role === 'model' && msg.codeSnippet ? (
+                                          <ChatMessageBody
+                                              content={msg.content}
+                                              onReplaceActive={activeFile.language === 'image' ? undefined : updateActiveFileContent}
+                                              onInsertAtCursor={activeFile.language === 'image' ? undefined : insertAtCursor}
+                                              onCreateFile={handleFileCreate}
+                                              onOpenLocation={openLocation}
+                                          />
+                                      ) : (
+                                          <div className="whitespace-pre-wrap font-light">{msg.content}</div>
+                                      )}
+                                      {msg.contextFiles && msg.contextFiles.length > 0 && (
+                                          <div className="flex flex-wrap gap-1.5 mt-3 pt-3 border-t border-white/5" title="Files sent with this request">
+                                              {msg.contextFiles.map(name => (
+                                                  <span key={name} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/5 text-[10px] text-white/40">
+                                                      <FileCode size={10} />
+                                                      {name}
+                                                  </span>
+                                              ))}
+                                          </div>
+                                      )}
                                   </div>
                               </div>
                           ))}
-                           {chatLoading && (
+                           {chatLoading && !chatHistory.some(m => m.isThinking) && (
                               <div className="flex justify-start">
                                   <div className="bg-white/5 rounded-2xl px-5 py-3 text-sm text-gray-400 animate-pulse border border-white/5">
                                       Processing...
@@ -187,22 +606,43 @@ const App: React.FC = () => {
                               </div>
                            )}
                       </div>
-                      <form onSubmit={handleChatSubmit} className="p-6 border-t border-white/5 bg-black/10 backdrop-blur-sm">
+                      <form onSubmit={handleChatSubmit} className="p-6 border-t border-white/5 bg-black/10 backdrop-blur-sm space-y-3">
+                          {chatImages.length > 0 && <ImageAttachments images={chatImages} onChange={setChatImages} />}
                           <div className="relative group">
+                              {chatAttachments.input}
+                              <button
+                                  type="button"
+                                  onClick={chatAttachments.open}
+                                  disabled={!chatAttachments.canAdd}
+                                  title="Attach images"
+                                  className="absolute left-2 top-2 bottom-2 aspect-square flex items-center justify-center rounded-lg text-white/30 hover:text-white hover:bg-white/10 disabled:opacity-30 transition-all"
+                              >
+                                  <Paperclip size={16} />
+                              </button>
                               <input
                                   type="text"
                                   value={chatInput}
                                   onChange={(e) => setChatInput(e.target.value)}
                                   placeholder="Ask about your project..."
-                                  className="w-full bg-black/20 border border-white/10 rounded-xl py-4 pl-5 pr-14 text-sm text-white focus:outline-none focus:border-blue-500/50 focus:bg-black/40 transition-all placeholder-white/20"
+                                  className="w-full bg-black/20 border border-white/10 rounded-xl py-4 pl-12 pr-14 text-sm text-white focus:outline-none focus:border-blue-500/50 focus:bg-black/40 transition-all placeholder-white/20"
                               />
-                              <button 
-                                  type="submit"
-                                  disabled={chatLoading}
-                                  className="absolute right-2 top-2 bottom-2 aspect-square flex items-center justify-center rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-all"
-                              >
-                                  <Send size={18} />
-                              </button>
+                              {chatLoading ? (
+                                  <button 
+                                      type="button"
+                                      onClick={() => chatAbortRef.current?.abort()}
+                                      title="Stop"
+                                      className="absolute right-2 top-2 bottom-2 aspect-square flex items-center justify-center rounded-lg text-red-300/70 hover:text-red-300 hover:bg-red-500/10 transition-all"
+                                  >
+                                      <Square size={14} className="fill-current" />
+                                  </button>
+                              ) : (
+                                  <button 
+                                      type="submit"
+                                      className="absolute right-2 top-2 bottom-2 aspect-square flex items-center justify-center rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-all"
+                                  >
+                                      <Send size={18} />
+                                  </button>
+                              )}
                           </div>
                       </form>
                   </div>
@@ -214,23 +654,30 @@ const App: React.FC = () => {
                               mode={mode} 
                               projectFiles={files}
                               activeFileId={activeFileId}
-                              onCodeUpdate={(code) => {
-                                  updateActiveFileContent(code);
-                                  setGeneratedImage(null); // Clear image if code is generated
-                              }}
+                              onChangeset={proposeChangeset}
                               onExplanation={setExplanation}
-                              onImageGenerated={setGeneratedImage}
+                              onReport={setReport}
+                              onCodePreview={setCodePreview}
+                              config={generationConfig}
+                              onConfigChange={setGenerationConfig}
+                              providerConfig={providerConfig}
+                              onProviderConfigChange={setProviderConfig}
+                              contextPreferences={contextPreferences}
+                              onContextPreferencesChange={setContextPreferences}
+                              onUsage={handleUsage}
+                              onOpenLocation={openLocation}
+                              onRecord={handleRecord}
+                              replay={replay}
+                              onReplayed={() => setReplay(null)}
+                              library={library}
+                              onEditLibrary={() => setOverlay('library')}
+                              editorSelection={editorSelection}
                           />
                       </div>
                       
                       {/* Explanation Panel */}
-                      {explanation && (
-                           <div className="h-1/3 border-t border-white/5 bg-black/30 backdrop-blur-md p-6 overflow-y-auto">
-                               <h3 className="text-[10px] font-bold text-blue-400 uppercase tracking-widest mb-3 opacity-80">Insight</h3>
-                               <div className="prose prose-invert prose-sm max-w-none text-gray-300 font-light leading-relaxed">
-                                   {explanation}
-                               </div>
-                           </div>
+                      {(explanation || report) && (
+                           <InsightPanel explanation={explanation} report={report} onOpenLocation={openLocation} />
                       )}
                   </div>
               )}
@@ -238,34 +685,118 @@ const App: React.FC = () => {
 
           {/* Project Explorer & Editor Wrapper */}
           <div className="flex-1 flex overflow-hidden">
-             <FileExplorer 
-                files={files} 
-                activeFileId={activeFileId} 
-                onFileSelect={(id) => {
-                    setActiveFileId(id);
-                    setGeneratedImage(null);
-                }} 
-                onFileCreate={handleFileCreate}
-                onFileDelete={handleFileDelete}
-            />
+             <div className="w-64 h-full bg-black/20 border-r border-white/5 flex flex-col shrink-0">
+                <WorkspaceSwitcher
+                    workspaces={workspaces}
+                    activeWorkspaceId={workspaceId}
+                    onSwitch={handleWorkspaceSwitch}
+                    onCreate={handleWorkspaceCreate}
+                    onDelete={handleWorkspaceDelete}
+                    onImportZip={(file) => handleProjectImport(() => importProjectZip(file))}
+                    onImportFolder={(fileList) => handleProjectImport(() => importProjectFolder(fileList))}
+                    onExport={handleProjectExport}
+                />
+                <FileExplorer 
+                    files={files} 
+                    folders={folders}
+                    activeFileId={activeFileId} 
+                    onFileSelect={(id) => {
+                        setActiveFileId(id);
+                        setOverlay(null);
+                    }} 
+                    onFileCreate={handleFileCreate}
+                    onFileDelete={handleFileDelete}
+                    onFolderCreate={handleFolderCreate}
+                    onFolderDelete={handleFolderDelete}
+                    onRename={handleRename}
+                />
+             </div>
 
             {/* Right Panel: Code Editor */}
             <div className="flex-1 h-full flex flex-col bg-[#0d0e12]/80 relative">
                  <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 via-transparent to-transparent pointer-events-none"></div>
-                 <div className="absolute top-4 right-4 z-20 flex space-x-2">
-                     <button onClick={undo} disabled={historyIndex <= 0} className="p-2 bg-black/40 text-white/70 hover:text-white rounded-lg disabled:opacity-30 border border-white/5 hover:bg-white/10 transition-all">
-                        <Undo2 size={16} />
-                     </button>
-                     <button onClick={redo} disabled={historyIndex >= history.length - 1} className="p-2 bg-black/40 text-white/70 hover:text-white rounded-lg disabled:opacity-30 border border-white/5 hover:bg-white/10 transition-all">
-                        <Redo2 size={16} />
-                     </button>
-                 </div>
-                 <CodeEditor 
-                    code={activeFile.content} 
-                    setCode={updateActiveFileContent}
-                    generatedImageUrl={generatedImage}
-                    onClearImage={() => setGeneratedImage(null)}
-                 />
+                 {!isReviewing && !overlay && (
+                     <div className="absolute top-4 right-4 z-20 flex space-x-2">
+                         <button onClick={undo} disabled={historyIndex <= 0} className="p-2 bg-black/40 text-white/70 hover:text-white rounded-lg disabled:opacity-30 border border-white/5 hover:bg-white/10 transition-all">
+                            <Undo2 size={16} />
+                         </button>
+                         <button onClick={redo} disabled={historyIndex >= history.length - 1} className="p-2 bg-black/40 text-white/70 hover:text-white rounded-lg disabled:opacity-30 border border-white/5 hover:bg-white/10 transition-all">
+                            <Redo2 size={16} />
+                         </button>
+                     </div>
+                 )}
+                 {isReviewing && changeset ? (
+                     <ChangesetReview
+                        key={changeset.id}
+                        changes={changeset.changes}
+                        files={files}
+                        onApply={applyChangeset}
+                        onDiscard={() => setChangeset(null)}
+                     />
+                 ) : overlay === 'usage' ? (
+                     <UsageDashboard usage={usage} onClear={() => setUsage([])} onClose={() => setOverlay(null)} />
+                 ) : overlay === 'history' ? (
+                     <GenerationHistory
+                        records={generations}
+                        files={files}
+                        onRerun={(record) => replayGeneration(record, true)}
+                        onEdit={(record) => replayGeneration(record, false)}
+                        onCompare={compareGeneration}
+                        onDelete={(id) => setGenerations(prev => prev.filter(r => r.id !== id))}
+                        onClear={() => setGenerations([])}
+                        onClose={() => setOverlay(null)}
+                     />
+                 ) : overlay === 'assets' ? (
+                     <AssetLibrary
+                        assets={imageAssets(files)}
+                        canInsert={activeFile.language === 'gdscript'}
+                        onOpen={openAsset}
+                        onVariation={generateVariation}
+                        onEdit={editAsset}
+                        onRename={(file, name) => handleRename(file.path, joinPath(dirname(file.path), name), true)}
+                        onDelete={(file) => handleFileDelete(file.id)}
+                        onInsertPreload={insertPreload}
+                        onClose={() => setOverlay(null)}
+                     />
+                 ) : overlay === 'library' ? (
+                     <PromptLibrary library={library} onChange={setLibrary} onClose={() => setOverlay(null)} />
+                 ) : activeFile.language === 'image' && codePreview === null ? (
+                     <ImageViewer key={activeFile.id} path={activeFile.path} url={activeFile.content} />
+                 ) : (
+                   <div className="flex-1 min-h-0 flex">
+                     {activeFile.language === 'scene' && codePreview === null && (
+                         <SceneTreePanel
+                            path={activeFile.path}
+                            content={activeFile.content}
+                            scripts={files.filter(f => f.language === 'gdscript').map(f => f.path)}
+                            onChange={updateActiveFileContent}
+                            onOpenLocation={openLocation}
+                         />
+                     )}
+                     {activeFile.language === 'resource' && codePreview === null && (
+                         <ResourceEditor
+                            path={activeFile.path}
+                            content={activeFile.content}
+                            files={files}
+                            onChange={updateActiveFileContent}
+                            onOpenLocation={openLocation}
+                         />
+                     )}
+                     <div className="flex-1 min-w-0 h-full">
+                       <CodeEditor 
+                          code={codePreview ?? activeFile.content} 
+                          setCode={updateActiveFileContent}
+                          readOnly={codePreview !== null}
+                          path={activeFile.path}
+                          language={activeFile.language}
+                          highlightedLine={highlight?.path === activeFile.path ? highlight.line : null}
+                          onLineClick={(line) => setHighlight({ path: activeFile.path, line })}
+                          diagnostics={codePreview === null ? diagnostics : []}
+                          onCursorChange={(offset, selectionEnd) => { cursorOffsetRef.current = offset; selectionEndRef.current = selectionEnd; }}
+                       />
+                     </div>
+                   </div>
+                 )}
             </div>
           </div>
 
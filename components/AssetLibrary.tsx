@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { ProjectFile } from '../types';
+import { basename, dirname } from '../services/paths';
+import { CHECKERBOARD } from './ImageViewer';
+import { Brush, Code2, Images, Pencil, Search, Sparkles, Trash2, X } from 'lucide-react';
+
+interface AssetLibraryProps {
+  assets: ProjectFile[]; // Image files, in display order
+  canInsert: boolean; // The active file is a script
+  onOpen: (file: ProjectFile) => void;
+  onVariation: (file: ProjectFile) => void; // Runs the asset's request again under a new name
+  onEdit: (file: ProjectFile) => void; // Loads it into Assets mode as the image to mask and change
+  onRename: (file: ProjectFile, name: string) => void;
+  onDelete: (file: ProjectFile) => void;
+  onInsertPreload: (file: ProjectFile) => void;
+  onClose: () => void;
+}
+
+const IconButton: React.FC<{ icon: React.ElementType; title: string; onClick: () => void; disabled?: boolean; danger?: boolean }> = ({ icon: Icon, title, onClick, disabled, danger }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className={`p-1.5 rounded-lg bg-white/5 border border-white/5 transition-colors disabled:opacity-30 disabled:hover:bg-white/5 ${danger ? 'text-white/40 hover:text-red-300 hover:bg-red-500/10' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+  >
+    <Icon size={12} />
+  </button>
+);
+
+/**
+ * Gallery of the images in the workspace with the prompt each generated one came from.
+ */
+const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, canInsert, onOpen, onVariation, onEdit, onRename, onDelete, onInsertPreload, onClose }) => {
+  const [query, setQuery] = useState('');
+  const visible = useMemo(() => {
+    const text = query.trim().toLowerCase();
+    return text ? assets.filter(f => f.path.toLowerCase().includes(text) || f.source?.prompt.toLowerCase().includes(text)) : assets;
+  }, [assets, query]);
+
+  const rename = (file: ProjectFile) => {
+    const name = window.prompt('New file name', basename(file.path));
+    if (name && name.trim() && name.trim() !== basename(file.path)) onRename(file, name.trim());
+  };
+
+  return (
+    <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar p-8 space-y-6 relative">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-light text-white flex items-center tracking-tight">
+          <Images className="text-blue-400 mr-3 opacity-80" size={20} />
+          Assets
+          <span className="ml-3 text-sm text-white/30">{assets.length}</span>
+        </h2>
+        <button onClick={onClose} className="p-2 bg-black/40 text-white/70 hover:text-white rounded-lg border border-white/5 hover:bg-white/10 transition-all" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center bg-black/30 border border-white/10 rounded-lg px-3 focus-within:border-blue-500">
+        <Search size={14} className="text-white/30 shrink-0" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search names and prompts..."
+          className="flex-1 bg-transparent text-xs text-gray-200 p-2.5 focus:outline-none placeholder-white/20"
+        />
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="text-xs text-white/30">{assets.length === 0 ? 'No images yet. Visual assets generated in Assets mode are saved here.' : 'No asset matches the search.'}</div>
+      ) : (
+        <div className="grid grid-cols-[repeat(auto-fill,minmax(180px,1fr))] gap-4">
+          {visible.map(file => (
+            <div key={file.id} className="bg-white/5 border border-white/5 rounded-2xl overflow-hidden flex flex-col">
+              <button onClick={() => onOpen(file)} className="aspect-square bg-black/30 flex items-center justify-center p-3 hover:bg-black/50 transition-colors" title="Open">
+                {file.content && (
+                  <img src={file.content} alt={file.name} style={{ ...CHECKERBOARD, imageRendering: 'pixelated' }} className="max-w-full max-h-full object-contain" />
+                )}
+              </button>
+              <div className="p-3 flex-1 flex flex-col space-y-2">
+                <div className="min-w-0">
+                  <div className="text-xs text-white/80 font-mono truncate" title={file.path}>{file.name}</div>
+                  <div className="text-[10px] text-white/30 font-mono truncate">{dirname(file.path)}</div>
+                </div>
+                <div className={`text-[11px] line-clamp-3 flex-1 ${file.source ? 'text-white/50' : 'text-white/25 italic'}`} title={file.source?.prompt}>
+                  {file.source ? file.source.prompt : 'Not generated in this workspace'}
+                </div>
+                <div className="flex items-center space-x-1.5">
+                  <IconButton icon={Sparkles} title={file.source ? 'New variation' : 'No prompt to regenerate from'} onClick={() => onVariation(file)} disabled={!file.source} />
+                  <IconButton icon={Brush} title="Edit: mask an area and describe the change" onClick={() => onEdit(file)} />
+                  <IconButton icon={Code2} title={canInsert ? 'Insert preload() into the active script' : 'Open a script to insert a preload()'} onClick={() => onInsertPreload(file)} disabled={!canInsert} />
+                  <IconButton icon={Pencil} title="Rename" onClick={() => rename(file)} />
+                  <span className="flex-1" />
+                  <IconButton icon={Trash2} title="Delete" onClick={() => { if (window.confirm(`Delete ${file.path}?`)) onDelete(file); }} danger />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssetLibrary;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { FileChange, ProjectFile } from '../types';
+import { basename } from '../services/paths';
+import DiffReview from './DiffReview';
+import ImageReview from './ImageReview';
+import { FileCode, FilePlus, Check, X, Layers } from 'lucide-react';
+
+interface ChangesetReviewProps {
+  changes: FileChange[];
+  files: ProjectFile[];
+  onApply: (accepted: FileChange[]) => void; // Called once, with every accepted file, as a single history entry
+  onDiscard: () => void;
+}
+
+// Per file: the accepted content, or null when the file was rejected. Undecided files are absent.
+type Decisions = Record<string, string | null>;
+
+const ChangesetReview: React.FC<ChangesetReviewProps> = ({ changes, files, onApply, onDiscard }) => {
+  const [decisions, setDecisions] = useState<Decisions>({});
+  const [selectedPath, setSelectedPath] = useState(changes[0].path);
+
+  const selected = changes.find(c => c.path === selectedPath) || changes[0];
+  const existing = files.find(f => f.path === selected.path);
+
+  const finish = (final: Decisions) => {
+    const accepted = changes
+      .filter(c => final[c.path] !== null)
+      .map(c => ({ ...c, content: final[c.path] ?? c.content }));
+    if (accepted.length > 0) onApply(accepted);
+    else onDiscard();
+  };
+
+  // Records the decision for the selected file, then moves on to the next undecided one (or applies the changeset)
+  const decide = (content: string | null) => {
+    const next = { ...decisions, [selected.path]: content };
+    const remaining = changes.find(c => !(c.path in next));
+    if (remaining) {
+      setDecisions(next);
+      setSelectedPath(remaining.path);
+    } else {
+      finish(next);
+    }
+  };
+
+  // Images can't be diffed line by line: they are compared side by side
+  const reviewProps = {
+    path: selected.path,
+    original: existing?.content ?? '',
+    proposed: selected.content,
+    isNew: !existing,
+    onApply: decide,
+    onReject: () => changes.length > 1 ? decide(null) : onDiscard()
+  };
+  const diff = selected.language === 'image' ? <ImageReview key={selected.path} {...reviewProps} variants={selected.variants} />
+    : <DiffReview key={selected.path} {...reviewProps} />;
+
+  if (changes.length === 1) return diff;
+
+  const undecided = changes.filter(c => !(c.path in decisions)).length;
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      {/* Changeset Header */}
+      <div className="flex items-center justify-between px-6 py-3 border-b border-white/5 bg-blue-500/[0.04] shrink-0">
+        <div className="flex items-center space-x-2 text-white/60">
+          <Layers size={14} className="text-blue-400" />
+          <span className="text-xs font-semibold tracking-wide uppercase">Changeset</span>
+          <span className="text-[10px] text-white/30">{changes.length} files · {undecided} to review</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onDiscard}
+            className="text-xs font-medium text-white/50 hover:text-red-300 px-3 py-1.5 rounded-lg hover:bg-red-500/10 transition-colors"
+          >
+            Discard All
+          </button>
+          <button
+            onClick={() => finish(decisions)}
+            className="flex items-center space-x-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-500 px-3 py-1.5 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+          >
+            <Check size={12} />
+            <span>{undecided === changes.length ? 'Accept All Files' : 'Accept Remaining'}</span>
+          </button>
+        </div>
+      </div>
+
+      {/* File Tabs */}
+      <div className="flex items-center space-x-1 px-4 py-2 border-b border-white/5 overflow-x-auto custom-scrollbar shrink-0">
+        {changes.map(change => {
+          const isNew = !files.some(f => f.path === change.path);
+          const decision = decisions[change.path];
+          return (
+            <button
+              key={change.path}
+              onClick={() => setSelectedPath(change.path)}
+              title={change.path}
+              className={`flex items-center space-x-1.5 px-2.5 py-1 rounded-md text-[11px] font-mono whitespace-nowrap border transition-colors ${
+                change.path === selected.path ? 'bg-white/10 border-white/10 text-white' : 'border-transparent text-white/40 hover:text-white hover:bg-white/5'
+              } ${decision === null ? 'line-through opacity-50' : ''}`}
+            >
+              {isNew ? <FilePlus size={12} className="text-blue-300" /> : <FileCode size={12} />}
+              <span>{basename(change.path)}</span>
+              {decision === null ? <X size={10} className="text-red-400" /> : decision !== undefined && <Check size={10} className="text-green-400" />}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex-1 min-h-0">{diff}</div>
+    </div>
+  );
+};
+
+export default ChangesetReview;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ProjectFile } from '../types';
+import { parseChatSegments, suggestFileName } from '../services/chat';
+import { tokenize, TOKEN_CLASSES } from '../services/syntax';
+import { CodeLocation } from '../services/editor';
+import LinkedText from './LinkedText';
+import { Replace, TextCursorInput, FilePlus, Copy, Check } from 'lucide-react';
+
+export interface SnippetActions {
+  onReplaceActive?: (code: string) => void; // Left out while the active file isn't text (an image)
+  onInsertAtCursor?: (code: string) => void;
+  onCreateFile: (name: string, code: string) => void;
+}
+
+interface ChatMessageBodyProps extends SnippetActions {
+  content: string;
+  onOpenLocation?: (location: CodeLocation) => void;
+}
+
+const ChatMessageBody: React.FC<ChatMessageBodyProps> = ({ content, onOpenLocation, ...actions }) => (
+  <div className="space-y-3">
+    {parseChatSegments(content).map((segment, idx) =>
+      segment.kind === 'text'
+        ? <div key={idx} className="whitespace-pre-wrap font-light"><LinkedText text={segment.text} onOpenLocation={onOpenLocation} /></div>
+        : <CodeBlock key={idx} code={segment.code} language={segment.language} {...actions} />
+    )}
+  </div>
+);
+
+interface CodeBlockProps extends SnippetActions {
+  code: string;
+  language: ProjectFile['language'];
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, onReplaceActive, onInsertAtCursor, onCreateFile }) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleCreateSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (fileName.trim()) {
+      onCreateFile(fileName.trim(), code);
+      setIsNaming(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/40 overflow-hidden">
+        <div className="flex items-center justify-between px-3 py-1.5 border-b border-white/5 bg-white/[0.02]">
+            <span className="text-[10px] font-mono text-white/30 uppercase tracking-widest">{language}</span>
+            <div className="flex items-center space-x-1">
+                {onReplaceActive && <SnippetButton icon={Replace} title="Replace active file" onClick={() => onReplaceActive(code)} />}
+                {onInsertAtCursor && <SnippetButton icon={TextCursorInput} title="Insert at cursor" onClick={() => onInsertAtCursor(code)} />}
+                <SnippetButton icon={FilePlus} title="Create new file" onClick={() => { setFileName(suggestFileName(code, language)); setIsNaming(true); }} />
+                <SnippetButton icon={copied ? Check : Copy} title="Copy" onClick={handleCopy} />
+            </div>
+        </div>
+        {isNaming && (
+            <form onSubmit={handleCreateSubmit} className="p-2 border-b border-white/5 bg-white/5">
+                <input
+                    autoFocus
+                    type="text"
+                    value={fileName}
+                    onChange={(e) => setFileName(e.target.value)}
+                    onBlur={() => setIsNaming(false)}
+                    className="w-full bg-black/40 border border-blue-500/50 rounded-md px-3 py-1.5 text-xs text-white font-mono focus:outline-none"
+                />
+            </form>
+        )}
+        <pre className="p-3 text-xs font-mono leading-relaxed overflow-x-auto custom-scrollbar text-[#e0e0e0]">
+            {tokenize(code, language).map((token, idx) => (
+                <span key={idx} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+            ))}
+        </pre>
+    </div>
+  );
+};
+
+const SnippetButton = ({ icon: Icon, title, onClick }: { icon: React.ElementType, title: string, onClick: () => void }) => (
+    <button
+        type="button"
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={onClick}
+        title={title}
+        className="p-1.5 rounded-md text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+    >
+        <Icon size={12} />
+    </button>
+);
+
+export default ChatMessageBody;
@@ -1,24 +1,196 @@
-import React, { useRef } from 'react';
-import { Copy, Check, X, Download } from 'lucide-react';
+import React, { useRef, useState, useMemo, useEffect, useLayoutEffect } from 'react';
+import { ProjectFile, Diagnostic } from '../types';
+import { tokenize, TOKEN_CLASSES } from '../services/syntax';
+import { countBySeverity } from '../services/gdscript';
+import DiagnosticList from './DiagnosticList';
+import { EditResult, SearchOptions, TAB_SIZE, findMatches, replaceMatches, findMatchingBracket, indentSelection, outdentSelection, newlineWithIndent, offsetToPosition, visualWidth, lineOffset } from '../services/editor';
+import { Copy, Check, X, Search, ChevronUp, ChevronDown, CaseSensitive, Regex, Replace, ReplaceAll, CircleX, TriangleAlert, CircleCheck } from 'lucide-react';
 
 interface CodeEditorProps {
   code: string;
   setCode: (code: string) => void;
   readOnly?: boolean;
-  generatedImageUrl?: string | null;
-  onClearImage?: () => void;
+  path?: string;
+  language?: ProjectFile['language'];
+  highlightedLine?: number | null; // 1-based; scrolled into view whenever it changes
+  onLineClick?: (line: number) => void;
+  diagnostics?: Diagnostic[];
+  onCursorChange?: (offset: number, selectionEnd: number) => void;
 }
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ code, setCode, readOnly = false, generatedImageUrl, onClearImage }) => {
+// Text, overlays and the textarea all share these metrics so they stay aligned
+const LINE_HEIGHT = 24;
+const PADDING_TOP = 24;
+const PADDING_LEFT = 8;
+const TEXT_STYLE: React.CSSProperties = {
+  fontFamily: '"JetBrains Mono", monospace',
+  fontSize: 14,
+  lineHeight: `${LINE_HEIGHT}px`,
+  tabSize: TAB_SIZE,
+};
+
+interface Marker {
+  line: number; // 0-based
+  column: number;
+  width: number;
+  className: string;
+}
+
+const CodeEditor: React.FC<CodeEditorProps> = ({ code, setCode, readOnly = false, path, language: languageProp, highlightedLine, onLineClick, diagnostics = [], onCursorChange }) => {
   const [copied, setCopied] = React.useState(false);
+  const language = languageProp ?? 'gdscript';
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pendingSelectionRef = useRef<[number, number] | null>(null);
+  const [caret, setCaret] = useState(0);
+
+  // Find & replace
+  const [showFind, setShowFind] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ caseSensitive: false, regex: false });
+  const [matchIndex, setMatchIndex] = useState(0);
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const [showProblems, setShowProblems] = useState(false);
+
+  const tokens = useMemo(() => tokenize(code, language), [code, language]);
+  const lineCount = useMemo(() => code.split('\n').length, [code]);
+  const matches = useMemo(() => showFind ? findMatches(code, query, searchOptions) : [], [code, query, searchOptions, showFind]);
+  const bracketPair = useMemo(() => readOnly ? null : findMatchingBracket(code, caret, language), [code, caret, language, readOnly]);
+  const currentMatch = matches.length > 0 ? matches[Math.min(matchIndex, matches.length - 1)] : null;
+  const { errors, warnings } = countBySeverity(diagnostics);
+
+  // Worst severity and messages per line, for the gutter
+  const lineDiagnostics = useMemo(() => {
+    const byLine = new Map<number, Diagnostic[]>();
+    diagnostics.forEach(d => byLine.set(d.line, [...(byLine.get(d.line) || []), d]));
+    return byLine;
+  }, [diagnostics]);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(code);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
-  
+
+  // Restore the selection after a programmatic edit re-renders the controlled textarea
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    if (selection && textareaRef.current) {
+      textareaRef.current.setSelectionRange(selection[0], selection[1]);
+      pendingSelectionRef.current = null;
+    }
+  }, [code]);
+
+  const scrollToLine = (line: number) => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const top = PADDING_TOP + (line - 1) * LINE_HEIGHT;
+    if (top < container.scrollTop || top > container.scrollTop + container.clientHeight - LINE_HEIGHT * 2) {
+      container.scrollTop = Math.max(0, top - container.clientHeight / 3);
+    }
+  };
+
+  const selectRange = (start: number, end: number) => {
+    textareaRef.current?.setSelectionRange(start, end);
+    setCaret(end);
+    scrollToLine(offsetToPosition(code, start).line + 1);
+  };
+
+  // Other panels link here: jump to the highlighted line and put the caret on it
+  useEffect(() => {
+    if (!highlightedLine) return;
+    scrollToLine(highlightedLine);
+    const offset = lineOffset(code, highlightedLine);
+    textareaRef.current?.setSelectionRange(offset, offset);
+    setCaret(offset);
+  }, [highlightedLine]);
+
+  useEffect(() => {
+    if (showFind) {
+      findInputRef.current?.focus();
+      findInputRef.current?.select();
+    }
+  }, [showFind]);
+
+  const applyEdit = (result: EditResult) => {
+    pendingSelectionRef.current = [result.selectionStart, result.selectionEnd];
+    setCaret(result.selectionEnd);
+    setCode(result.code);
+  };
+
+  const openFind = (withReplace: boolean) => {
+    const textarea = textareaRef.current;
+    const selected = textarea ? code.slice(textarea.selectionStart, textarea.selectionEnd) : '';
+    if (selected && !selected.includes('\n')) setQuery(selected);
+    setShowFind(true);
+    setShowReplace(withReplace);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const mod = e.metaKey || e.ctrlKey;
+
+    if (mod && (e.key === 'f' || e.key === 'h')) {
+      e.preventDefault();
+      openFind(e.key === 'h' && !readOnly);
+      return;
+    }
+    if (e.key === 'Escape' && showFind) {
+      setShowFind(false);
+      return;
+    }
+    if (readOnly) return;
+
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      applyEdit(e.shiftKey ? outdentSelection(code, selectionStart, selectionEnd) : indentSelection(code, selectionStart, selectionEnd));
+    } else if (e.key === 'Enter' && !mod && !e.altKey) {
+      e.preventDefault();
+      applyEdit(newlineWithIndent(code, selectionStart, selectionEnd, language));
+    }
+  };
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const next = (matchIndex + direction + matches.length) % matches.length;
+    setMatchIndex(next);
+    selectRange(matches[next].start, matches[next].end);
+  };
+
+  const handleReplace = (all: boolean) => {
+    if (readOnly || !currentMatch) return;
+    const targets = all ? matches : [currentMatch];
+    const next = replaceMatches(code, targets, query, replacement, searchOptions);
+    pendingSelectionRef.current = all ? null : [currentMatch.start, currentMatch.start];
+    setCode(next);
+  };
+
+  // Overlays (match highlights, bracket pair) are positioned by line/column over the text
+  const markerFor = (start: number, end: number, className: string): Marker => {
+    const { line, column } = offsetToPosition(code, start);
+    const lineText = code.slice(start, end).split('\n')[0];
+    return { line, column, width: Math.max(1, visualWidth(lineText)), className };
+  };
+
+  // Diagnostics underline their line from the reported column (or the first non-blank character) to the end
+  const diagnosticMarker = (d: Diagnostic): Marker | null => {
+    if (d.line > lineCount) return null;
+    const start = lineOffset(code, d.line);
+    const end = code.indexOf('\n', start) === -1 ? code.length : code.indexOf('\n', start);
+    const from = d.column ? start + d.column - 1 : start + (code.slice(start, end).match(/^[ \t]*/)?.[0].length ?? 0);
+    return markerFor(Math.min(from, end), Math.max(end, from + 1), `border-b-2 border-dotted rounded-none ${d.severity === 'error' ? 'border-red-400/80' : 'border-yellow-400/70'}`);
+  };
+
+  const markers: Marker[] = [
+    ...diagnostics.map(diagnosticMarker).filter((m): m is Marker => m !== null),
+    ...matches.map(m => markerFor(m.start, m.end, m === currentMatch ? 'bg-yellow-400/40 ring-1 ring-yellow-300/60' : 'bg-yellow-400/15')),
+    ...(bracketPair ? bracketPair.map(i => markerFor(i, i + 1, 'ring-1 ring-blue-300/60 bg-blue-400/10')) : []),
+  ];
+
+  const caretLine = offsetToPosition(code, caret).line + 1;
+
   return (
     <div className="flex flex-col h-full w-full relative">
       {/* Editor Header */}
@@ -30,63 +202,182 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, setCode, readOnly = false
                 <div className="w-3 h-3 rounded-full bg-[#27C93F] border border-[#1AAB29] shadow-inner opacity-70 group-hover:opacity-100 transition-opacity"></div>
             </div>
             <div className="flex flex-col">
-                <span className="text-xs text-white/30 font-mono tracking-wide">{generatedImageUrl ? 'asset_preview.png' : 'script.gd'}</span>
+                <span className="text-xs text-white/30 font-mono tracking-wide">{path || 'script.gd'}</span>
             </div>
         </div>
-        
-        {!generatedImageUrl && (
-            <button 
+
+        <div className="flex items-center space-x-2">
+            <button
+            onClick={() => showFind ? setShowFind(false) : openFind(false)}
+            title="Find (Ctrl+F) / Replace (Ctrl+H)"
+            className={`p-1.5 rounded-lg border border-white/5 transition-colors ${showFind ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white bg-white/5 hover:bg-white/10'}`}
+            >
+            <Search size={12} />
+            </button>
+            <button
             onClick={handleCopy}
             className="flex items-center space-x-1.5 text-xs font-medium text-white/40 hover:text-white transition-colors bg-white/5 hover:bg-white/10 px-3 py-1.5 rounded-lg border border-white/5"
             >
             {copied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
             <span>{copied ? 'Copied' : 'Copy Code'}</span>
             </button>
-        )}
+        </div>
       </div>
-      
+
+      {/* Find & Replace Bar */}
+      {showFind && (
+        <div className="flex flex-col space-y-1.5 px-6 py-2 border-b border-white/5 bg-black/30 shrink-0">
+            <div className="flex items-center space-x-2">
+                <input
+                  ref={findInputRef}
+                  value={query}
+                  onChange={(e) => { setQuery(e.target.value); setMatchIndex(0); }}
+                  onKeyDown={(e) => {
+                      if (e.key === 'Enter') { e.preventDefault(); stepMatch(e.shiftKey ? -1 : 1); }
+                      else if (e.key === 'Escape') setShowFind(false);
+                  }}
+                  placeholder="Find"
+                  className="flex-1 bg-black/40 border border-white/10 rounded-md px-3 py-1 text-xs text-white font-mono focus:outline-none focus:border-blue-500/50"
+                />
+                <FindToggle active={searchOptions.caseSensitive} title="Match case" onClick={() => setSearchOptions({ ...searchOptions, caseSensitive: !searchOptions.caseSensitive })} icon={CaseSensitive} />
+                <FindToggle active={searchOptions.regex} title="Regular expression" onClick={() => setSearchOptions({ ...searchOptions, regex: !searchOptions.regex })} icon={Regex} />
+                <span className="w-16 text-center text-[10px] font-mono text-white/30">
+                    {matches.length > 0 ? `${Math.min(matchIndex, matches.length - 1) + 1} of ${matches.length}` : query ? 'No results' : ''}
+                </span>
+                <FindToggle title="Previous (Shift+Enter)" onClick={() => stepMatch(-1)} icon={ChevronUp} />
+                <FindToggle title="Next (Enter)" onClick={() => stepMatch(1)} icon={ChevronDown} />
+                {!readOnly && <FindToggle active={showReplace} title="Toggle replace" onClick={() => setShowReplace(!showReplace)} icon={Replace} />}
+                <FindToggle title="Close (Esc)" onClick={() => setShowFind(false)} icon={X} />
+            </div>
+            {showReplace && !readOnly && (
+                <div className="flex items-center space-x-2">
+                    <input
+                      value={replacement}
+                      onChange={(e) => setReplacement(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleReplace(false); } }}
+                      placeholder={searchOptions.regex ? 'Replace ($1 for groups)' : 'Replace'}
+                      className="flex-1 bg-black/40 border border-white/10 rounded-md px-3 py-1 text-xs text-white font-mono focus:outline-none focus:border-blue-500/50"
+                    />
+                    <FindToggle title="Replace" onClick={() => handleReplace(false)} icon={Replace} />
+                    <FindToggle title="Replace all" onClick={() => handleReplace(true)} icon={ReplaceAll} />
+                </div>
+            )}
+        </div>
+      )}
+
       {/* Editor Area */}
       <div className="relative flex-1 overflow-hidden">
-        {generatedImageUrl ? (
-            <div className="absolute inset-0 flex flex-col items-center justify-center p-8 bg-black/40 backdrop-blur-sm z-20 animate-in fade-in duration-300">
-                <div className="relative max-w-full max-h-full p-2 border border-white/10 rounded-xl bg-white/5 shadow-2xl">
-                    <img src={generatedImageUrl} alt="Generated Asset" className="max-w-full max-h-[70vh] rounded-lg object-contain" />
-                    <button 
-                        onClick={onClearImage}
-                        className="absolute -top-3 -right-3 p-2 bg-red-500 rounded-full text-white shadow-lg hover:bg-red-600 transition-colors"
-                    >
-                        <X size={16} />
-                    </button>
+        <div ref={scrollRef} className="absolute inset-0 overflow-auto custom-scrollbar">
+            <div className="flex min-w-full w-max min-h-full">
+                {/* Gutter: click a line number to highlight (and link) that line */}
+                <div
+                  className="sticky left-0 z-10 shrink-0 pl-4 pr-3 text-right select-none bg-[#0d0e12] border-r border-white/5"
+                  style={{ ...TEXT_STYLE, paddingTop: PADDING_TOP, paddingBottom: PADDING_TOP }}
+                >
+                    {Array.from({ length: lineCount }, (_, i) => {
+                        const problems = lineDiagnostics.get(i + 1);
+                        const severity = problems?.some(d => d.severity === 'error') ? 'error' : problems ? 'warning' : null;
+                        return (
+                            <div
+                              key={i}
+                              onClick={() => onLineClick?.(i + 1)}
+                              title={problems?.map(d => d.message).join('\n')}
+                              className={`cursor-pointer transition-colors ${
+                                  severity === 'error' ? 'text-red-400' :
+                                  severity === 'warning' ? 'text-yellow-400/80' :
+                                  i + 1 === highlightedLine ? 'text-blue-300' : i + 1 === caretLine ? 'text-white/50' : 'text-white/20 hover:text-white/50'
+                              }`}
+                            >
+                                {i + 1}
+                            </div>
+                        );
+                    })}
                 </div>
-                <div className="mt-6 flex space-x-4">
-                    <a 
-                        href={generatedImageUrl} 
-                        download="generated_asset.png"
-                        className="flex items-center space-x-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-full text-sm font-medium transition-colors shadow-lg shadow-blue-500/20"
+
+                <div className="relative flex-1">
+                    {/* Line highlight and markers sit behind the text */}
+                    <div className="absolute inset-0 pointer-events-none" style={TEXT_STYLE}>
+                        {highlightedLine && (
+                            <div className="absolute left-0 right-0 bg-blue-500/10 border-l-2 border-blue-400" style={{ top: PADDING_TOP + (highlightedLine - 1) * LINE_HEIGHT, height: LINE_HEIGHT }} />
+                        )}
+                        {markers.map((m, i) => (
+                            <div
+                              key={i}
+                              className={`absolute rounded-sm ${m.className}`}
+                              style={{ top: PADDING_TOP + m.line * LINE_HEIGHT, height: LINE_HEIGHT, left: `calc(${PADDING_LEFT}px + ${m.column}ch)`, width: `${m.width}ch` }}
+                            />
+                        ))}
+                    </div>
+
+                    <pre
+                      aria-hidden
+                      className="relative m-0 whitespace-pre text-[#e0e0e0] pointer-events-none"
+                      style={{ ...TEXT_STYLE, padding: `${PADDING_TOP}px 32px ${PADDING_TOP}px ${PADDING_LEFT}px` }}
                     >
-                        <Download size={16} />
-                        <span>Download Asset</span>
-                    </a>
+                        {tokens.map((token, idx) => (
+                            <span key={idx} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                        ))}
+                        {'\n'}
+                    </pre>
+
+                    <textarea
+                      ref={textareaRef}
+                      value={code}
+                      onChange={(e) => { setCode(e.target.value); setCaret(e.target.selectionStart); }}
+                      onKeyDown={handleKeyDown}
+                      onSelect={(e) => {
+                          setCaret(e.currentTarget.selectionStart);
+                          onCursorChange?.(e.currentTarget.selectionStart, e.currentTarget.selectionEnd);
+                      }}
+                      readOnly={readOnly}
+                      wrap="off"
+                      className="absolute inset-0 w-full h-full m-0 border-0 bg-transparent text-transparent caret-white resize-none overflow-hidden whitespace-pre focus:outline-none selection:bg-blue-500/30 placeholder:text-white/20"
+                      placeholder="# Output will appear here..."
+                      spellCheck={false}
+                      style={{ ...TEXT_STYLE, padding: `${PADDING_TOP}px 32px ${PADDING_TOP}px ${PADDING_LEFT}px` }}
+                    />
                 </div>
             </div>
-        ) : (
-            <textarea
-            ref={textareaRef}
-            value={code}
-            onChange={(e) => setCode(e.target.value)}
-            readOnly={readOnly}
-            className="w-full h-full p-6 md:p-8 bg-transparent text-[#e0e0e0] font-mono text-sm resize-none focus:outline-none leading-loose custom-scrollbar selection:bg-blue-500/30 selection:text-white"
-            placeholder="# Output will appear here..."
-            spellCheck={false}
-            style={{
-                fontFamily: '"JetBrains Mono", monospace',
-                letterSpacing: '0.5px'
-            }}
-            />
-        )}
+        </div>
       </div>
+
+      {/* Problems: validator output for the file, click to jump to the line */}
+      {(diagnostics.length > 0 || showProblems) && (
+        <div className="shrink-0 border-t border-white/5 bg-black/30">
+            <button
+              onClick={() => setShowProblems(!showProblems)}
+              className="w-full flex items-center space-x-3 px-6 py-1.5 text-[11px] text-white/50 hover:text-white transition-colors"
+            >
+                {diagnostics.length === 0 ? (
+                    <span className="flex items-center space-x-1 text-green-400/80"><CircleCheck size={12} /><span>No problems</span></span>
+                ) : (
+                    <>
+                        <span className="flex items-center space-x-1"><CircleX size={12} className="text-red-400" /><span>{errors}</span></span>
+                        <span className="flex items-center space-x-1"><TriangleAlert size={12} className="text-yellow-400" /><span>{warnings}</span></span>
+                    </>
+                )}
+                <span className="uppercase tracking-widest text-[10px] font-semibold">Problems</span>
+            </button>
+            {showProblems && diagnostics.length > 0 && (
+                <div className="max-h-40 overflow-y-auto custom-scrollbar px-4 pb-2">
+                    <DiagnosticList diagnostics={diagnostics} onSelect={(d) => onLineClick?.(d.line)} />
+                </div>
+            )}
+        </div>
+      )}
     </div>
   );
 };
 
-export default CodeEditor;
\ No newline at end of file
+const FindToggle = ({ icon: Icon, title, onClick, active }: { icon: React.ElementType, title: string, onClick: () => void, active?: boolean }) => (
+    <button
+        type="button"
+        onClick={onClick}
+        title={title}
+        className={`p-1.5 rounded-md transition-colors ${active ? 'bg-blue-500/20 text-blue-300' : 'text-white/40 hover:text-white hover:bg-white/10'}`}
+    >
+        <Icon size={12} />
+    </button>
+);
+
+export default CodeEditor;
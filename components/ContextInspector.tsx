@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ContextPreferences } from '../types';
+import { ContextEntry, ContextReason, ContextSelection } from '../services/context';
+import { ChevronDown, ChevronUp, EyeOff, FolderSearch, Pin } from 'lucide-react';
+
+interface ContextInspectorProps {
+  selection: ContextSelection;
+  activePath?: string;
+  preferences: ContextPreferences;
+  onPreferencesChange: (preferences: ContextPreferences) => void;
+}
+
+const REASON_LABELS: Record<ContextReason, string> = {
+  active: 'active',
+  traced: 'in trace',
+  pinned: 'pinned',
+  mentioned: 'mentioned',
+  dependency: 'used by focus',
+  dependent: 'uses active',
+  related: 'same folder',
+  other: 'other',
+};
+
+const INCLUSION_STYLES: Record<ContextEntry['inclusion'], string> = {
+  full: 'text-white/80',
+  outline: 'text-white/50 italic',
+  omitted: 'text-white/25',
+  excluded: 'text-white/25 line-through',
+};
+
+const toggle = (paths: string[], path: string) => paths.includes(path) ? paths.filter(p => p !== path) : [...paths, path];
+
+/**
+ * Preview of the project files that go with the next request, and why. Pinned files are always sent in full,
+ * excluded ones never; both choices are saved with the workspace.
+ */
+const ContextInspector: React.FC<ContextInspectorProps> = ({ selection, activePath, preferences, onPreferencesChange }) => {
+  const [open, setOpen] = useState(false);
+  const full = selection.entries.filter(e => e.inclusion === 'full').length;
+  const outlined = selection.entries.filter(e => e.inclusion === 'outline').length;
+  const overBudget = selection.usedTokens > selection.budget;
+
+  const setPinned = (path: string) => onPreferencesChange({
+    pinned: toggle(preferences.pinned, path),
+    excluded: preferences.excluded.filter(p => p !== path)
+  });
+  const setExcluded = (path: string) => onPreferencesChange({
+    pinned: preferences.pinned.filter(p => p !== path),
+    excluded: toggle(preferences.excluded, path)
+  });
+
+  return (
+    <div className="bg-white/5 border border-white/5 rounded-2xl overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-white/5 transition-colors"
+      >
+        <span className="flex items-center space-x-2 text-[10px] font-bold text-white/40 uppercase tracking-widest">
+          <FolderSearch size={12} />
+          <span>Project Context</span>
+        </span>
+        <span className="flex items-center space-x-2 text-[11px] text-white/40">
+          <span>{full} full{outlined > 0 ? `, ${outlined} outlined` : ''}</span>
+          <span className={overBudget ? 'text-amber-300' : ''}>~{selection.usedTokens.toLocaleString()} / {selection.budget.toLocaleString()} tok</span>
+          {open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </span>
+      </button>
+
+      {open && (
+        <div className="border-t border-white/5 max-h-64 overflow-y-auto custom-scrollbar">
+          {selection.entries.map(entry => {
+            const pinned = preferences.pinned.includes(entry.path);
+            const excluded = preferences.excluded.includes(entry.path);
+            // The active file and the files of a pasted trace are always sent
+            const locked = entry.path === activePath || entry.reason === 'traced';
+            return (
+              <div key={entry.path} className="flex items-center px-4 py-1.5 space-x-2 text-[11px] hover:bg-white/5 group">
+                <span className={`flex-1 min-w-0 truncate font-mono ${INCLUSION_STYLES[entry.inclusion]}`} title={`${entry.path} (${entry.inclusion})`}>
+                  {entry.path.replace(/^res:\/\//, '')}
+                </span>
+                <span className="shrink-0 px-1.5 py-0.5 rounded bg-white/5 text-[9px] uppercase tracking-wider text-white/40">{REASON_LABELS[entry.reason]}</span>
+                <span className="shrink-0 w-12 text-right text-[10px] text-white/30">{entry.inclusion === 'outline' ? 'outline' : `${entry.tokens}`}</span>
+                <button
+                  type="button"
+                  onClick={() => setPinned(entry.path)}
+                  disabled={locked}
+                  title={pinned ? 'Unpin' : 'Always send in full'}
+                  className={`shrink-0 p-1 rounded disabled:invisible ${pinned ? 'text-blue-400' : 'text-white/20 hover:text-white'}`}
+                >
+                  <Pin size={11} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setExcluded(entry.path)}
+                  disabled={locked}
+                  title={excluded ? 'Include again' : 'Never send'}
+                  className={`shrink-0 p-1 rounded disabled:invisible ${excluded ? 'text-red-400' : 'text-white/20 hover:text-white'}`}
+                >
+                  <EyeOff size={11} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContextInspector;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Diagnostic } from '../types';
+import { CircleX, TriangleAlert } from 'lucide-react';
+
+interface DiagnosticListProps {
+  diagnostics: Diagnostic[];
+  onSelect?: (diagnostic: Diagnostic) => void;
+}
+
+/**
+ * Validator output as a clickable list. Shared by the editor's problems panel and the Insight panel.
+ */
+const DiagnosticList: React.FC<DiagnosticListProps> = ({ diagnostics, onSelect }) => (
+  <ul className="space-y-0.5">
+    {diagnostics.map((d, idx) => (
+      <li key={idx}>
+        <button
+          type="button"
+          onClick={() => onSelect?.(d)}
+          className="w-full flex items-start space-x-2 px-2 py-1 rounded-md text-left text-xs hover:bg-white/5 transition-colors"
+        >
+          {d.severity === 'error'
+            ? <CircleX size={12} className="text-red-400 shrink-0 mt-0.5" />
+            : <TriangleAlert size={12} className="text-yellow-400 shrink-0 mt-0.5" />}
+          <span className="font-mono text-white/30 shrink-0">{d.line}{d.column ? `:${d.column}` : ''}</span>
+          <span className="text-gray-300">{d.message}</span>
+          <span className="ml-auto pl-2 text-[10px] text-white/20 shrink-0">{d.rule}</span>
+        </button>
+      </li>
+    ))}
+  </ul>
+);
+
+export default DiagnosticList;
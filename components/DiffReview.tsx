@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Hunk, diffLines, computeHunks, applyHunks, splitLines } from '../services/diff';
+import { Check, X, Columns2, Rows3, GitCompare } from 'lucide-react';
+
+interface DiffReviewProps {
+  path: string;
+  original: string;
+  proposed: string;
+  isNew?: boolean;
+  onApply: (content: string) => void;
+  onReject: () => void;
+}
+
+// Unchanged lines shown around each hunk; longer unchanged runs are folded
+const CONTEXT_LINES = 3;
+
+type Row =
+  | { kind: 'equal'; text: string; oldLine: number; newLine: number }
+  | { kind: 'fold'; count: number }
+  | { kind: 'hunk'; hunk: Hunk };
+
+const buildRows = (oldLines: string[], hunks: Hunk[]): Row[] => {
+  const rows: Row[] = [];
+  let oldCursor = 0;
+  let newCursor = 0;
+
+  const pushEqual = (end: number, isFirst: boolean, isLast: boolean) => {
+    const count = end - oldCursor;
+    const head = isFirst ? 0 : CONTEXT_LINES;
+    const tail = isLast ? 0 : CONTEXT_LINES;
+    for (let i = 0; i < count; i++) {
+      if (count > head + tail + 1 && i >= head && i < count - tail) {
+        if (i === head) rows.push({ kind: 'fold', count: count - head - tail });
+        continue;
+      }
+      rows.push({ kind: 'equal', text: oldLines[oldCursor + i], oldLine: oldCursor + i + 1, newLine: newCursor + i + 1 });
+    }
+  };
+
+  hunks.forEach((hunk, index) => {
+    pushEqual(hunk.oldStart, index === 0, false);
+    rows.push({ kind: 'hunk', hunk });
+    oldCursor = hunk.oldStart + hunk.removed.length;
+    newCursor = hunk.newStart + hunk.added.length;
+  });
+  pushEqual(oldLines.length, hunks.length === 0, true);
+  return rows;
+};
+
+const LineNo: React.FC<{ n?: number }> = ({ n }) => (
+  <span className="w-10 shrink-0 pr-3 text-right text-white/20 select-none">{n ?? ''}</span>
+);
+
+const DiffReview: React.FC<DiffReviewProps> = ({ path, original, proposed, isNew = false, onApply, onReject }) => {
+  const [view, setView] = useState<'inline' | 'split'>('inline');
+  const hunks = useMemo(() => computeHunks(diffLines(original, proposed)), [original, proposed]);
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(hunks.map(h => h.id)));
+
+  // A new proposal (or an undo underneath it) starts the review over with everything accepted
+  useEffect(() => setAccepted(new Set(hunks.map(h => h.id))), [hunks]);
+
+  const rows = useMemo(() => buildRows(splitLines(original), hunks), [original, hunks]);
+  const added = hunks.reduce((n, h) => n + h.added.length, 0);
+  const removed = hunks.reduce((n, h) => n + h.removed.length, 0);
+
+  const toggleHunk = (id: number) => setAccepted(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const renderHunkHeader = (hunk: Hunk) => {
+    const isAccepted = accepted.has(hunk.id);
+    return (
+      <div className="flex items-center justify-between px-3 py-1 bg-white/[0.03] border-y border-white/5 text-[10px] font-sans">
+        <span className="text-white/30">
+          @@ -{hunk.oldStart + 1},{hunk.removed.length} +{hunk.newStart + 1},{hunk.added.length} @@
+        </span>
+        <button
+          onClick={() => toggleHunk(hunk.id)}
+          className={`flex items-center space-x-1 px-2 py-0.5 rounded border transition-colors ${
+            isAccepted ? 'bg-green-500/10 border-green-500/30 text-green-300' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'
+          }`}
+        >
+          {isAccepted ? <Check size={10} /> : <X size={10} />}
+          <span>{isAccepted ? 'Accepted' : 'Skipped'}</span>
+        </button>
+      </div>
+    );
+  };
+
+  const renderInlineHunk = (hunk: Hunk) => (
+    <div key={`hunk-${hunk.id}`} className={accepted.has(hunk.id) ? '' : 'opacity-40'}>
+      {renderHunkHeader(hunk)}
+      {hunk.removed.map((text, i) => (
+        <div key={`r${i}`} className="flex bg-red-500/10 text-red-200">
+          <LineNo n={hunk.oldStart + i + 1} /><LineNo />
+          <span className="w-4 shrink-0 text-red-400/70 select-none">-</span>
+          <span className="whitespace-pre">{text}</span>
+        </div>
+      ))}
+      {hunk.added.map((text, i) => (
+        <div key={`a${i}`} className="flex bg-green-500/10 text-green-200">
+          <LineNo /><LineNo n={hunk.newStart + i + 1} />
+          <span className="w-4 shrink-0 text-green-400/70 select-none">+</span>
+          <span className="whitespace-pre">{text}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderSplitHunk = (hunk: Hunk) => {
+    const height = Math.max(hunk.removed.length, hunk.added.length);
+    return (
+      <div key={`hunk-${hunk.id}`} className={accepted.has(hunk.id) ? '' : 'opacity-40'}>
+        {renderHunkHeader(hunk)}
+        {Array.from({ length: height }, (_, i) => (
+          <div key={i} className="grid grid-cols-2">
+            <div className={`flex overflow-hidden ${i < hunk.removed.length ? 'bg-red-500/10 text-red-200' : ''}`}>
+              <LineNo n={i < hunk.removed.length ? hunk.oldStart + i + 1 : undefined} />
+              <span className="whitespace-pre">{hunk.removed[i] ?? ''}</span>
+            </div>
+            <div className={`flex overflow-hidden border-l border-white/5 ${i < hunk.added.length ? 'bg-green-500/10 text-green-200' : ''}`}>
+              <LineNo n={i < hunk.added.length ? hunk.newStart + i + 1 : undefined} />
+              <span className="whitespace-pre">{hunk.added[i] ?? ''}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderRow = (row: Row, index: number) => {
+    if (row.kind === 'hunk') return view === 'inline' ? renderInlineHunk(row.hunk) : renderSplitHunk(row.hunk);
+    if (row.kind === 'fold') {
+      return (
+        <div key={`fold-${index}`} className="px-14 py-1 text-[10px] font-sans text-white/20 bg-white/[0.02]">
+          ⋯ {row.count} unchanged line{row.count === 1 ? '' : 's'}
+        </div>
+      );
+    }
+    if (view === 'inline') {
+      return (
+        <div key={`eq-${index}`} className="flex text-white/50">
+          <LineNo n={row.oldLine} /><LineNo n={row.newLine} />
+          <span className="w-4 shrink-0" />
+          <span className="whitespace-pre">{row.text}</span>
+        </div>
+      );
+    }
+    return (
+      <div key={`eq-${index}`} className="grid grid-cols-2 text-white/50">
+        <div className="flex overflow-hidden"><LineNo n={row.oldLine} /><span className="whitespace-pre">{row.text}</span></div>
+        <div className="flex overflow-hidden border-l border-white/5"><LineNo n={row.newLine} /><span className="whitespace-pre">{row.text}</span></div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full relative">
+      {/* Review Header */}
+      <div className="flex items-center justify-between px-6 py-4 border-b border-white/5 bg-white/[0.02] shrink-0">
+        <div className="flex items-center space-x-3 overflow-hidden">
+          <GitCompare size={16} className="text-blue-400 shrink-0" />
+          <span className="text-xs text-white/60 font-mono truncate">{path}</span>
+          {isNew && <span className="text-[9px] font-bold uppercase tracking-wider text-blue-300 bg-blue-500/10 border border-blue-500/20 px-1.5 py-0.5 rounded">New</span>}
+          <span className="text-[10px] font-mono text-green-400">+{added}</span>
+          <span className="text-[10px] font-mono text-red-400">-{removed}</span>
+        </div>
+        <div className="flex items-center space-x-2 shrink-0">
+          <div className="flex bg-black/40 border border-white/5 rounded-lg p-0.5">
+            <button onClick={() => setView('inline')} title="Inline" className={`p-1.5 rounded-md transition-colors ${view === 'inline' ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white'}`}>
+              <Rows3 size={12} />
+            </button>
+            <button onClick={() => setView('split')} title="Side by side" className={`p-1.5 rounded-md transition-colors ${view === 'split' ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white'}`}>
+              <Columns2 size={12} />
+            </button>
+          </div>
+          <button
+            onClick={onReject}
+            className="flex items-center space-x-1.5 text-xs font-medium text-white/60 hover:text-red-300 transition-colors bg-white/5 hover:bg-red-500/10 px-3 py-1.5 rounded-lg border border-white/5"
+          >
+            <X size={12} />
+            <span>Reject</span>
+          </button>
+          {accepted.size < hunks.length && (
+            <button
+              onClick={() => onApply(applyHunks(original, hunks, accepted))}
+              disabled={accepted.size === 0}
+              className="flex items-center space-x-1.5 text-xs font-medium text-white/80 hover:text-white transition-colors bg-white/5 hover:bg-white/10 px-3 py-1.5 rounded-lg border border-white/10 disabled:opacity-30"
+            >
+              <Check size={12} />
+              <span>Apply {accepted.size} of {hunks.length}</span>
+            </button>
+          )}
+          <button
+            onClick={() => onApply(proposed)}
+            className="flex items-center space-x-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-500 px-3 py-1.5 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+          >
+            <Check size={12} />
+            <span>Accept All</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Diff Body */}
+      <div
+        className="flex-1 overflow-auto py-4 text-xs leading-relaxed custom-scrollbar"
+        style={{ fontFamily: '"JetBrains Mono", monospace' }}
+      >
+        {rows.map(renderRow)}
+      </div>
+    </div>
+  );
+};
+
+export default DiffReview;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { GodotError } from '../services/errorlog';
+import { CodeLocation, formatLocation } from '../services/editor';
+import { CircleX, FileQuestionMark, TriangleAlert } from 'lucide-react';
+
+interface ErrorTraceProps {
+  errors: GodotError[];
+  onOpenLocation: (location: CodeLocation) => void;
+}
+
+const KIND_LABELS: Record<GodotError['kind'], string> = {
+  script: 'Script error',
+  parse: 'Parse error',
+  error: 'Error',
+  warning: 'Warning',
+};
+
+/**
+ * Errors recognized in a pasted Godot log, with their stack frames. Frames in the workspace open the file at that line.
+ */
+const ErrorTrace: React.FC<ErrorTraceProps> = ({ errors, onOpenLocation }) => (
+  <div className="space-y-3">
+    {errors.map((error, idx) => (
+      <div key={idx} className="bg-white/5 border border-white/5 rounded-xl p-3 space-y-2">
+        <div className="flex items-start space-x-2 text-xs">
+          {error.kind === 'warning'
+            ? <TriangleAlert size={13} className="shrink-0 mt-0.5 text-yellow-400" />
+            : <CircleX size={13} className="shrink-0 mt-0.5 text-red-400" />}
+          <div className="min-w-0">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-white/40 mr-2">{KIND_LABELS[error.kind]}</span>
+            <span className="text-gray-200 break-words">{error.message}</span>
+          </div>
+        </div>
+        {error.frames.length > 0 && (
+          <ol className="space-y-0.5 pl-5">
+            {error.frames.map((frame, frameIdx) => (
+              <li key={frameIdx} className="flex items-center space-x-2 text-[11px] font-mono">
+                <span className="w-5 shrink-0 text-white/20">#{frameIdx}</span>
+                {frame.resolved ? (
+                  <button
+                    type="button"
+                    onClick={() => onOpenLocation(frame.location)}
+                    className="truncate text-blue-300 hover:text-blue-200 underline decoration-blue-300/30 hover:decoration-blue-200 underline-offset-2"
+                  >
+                    {formatLocation(frame.location)}
+                  </button>
+                ) : (
+                  <span className="flex items-center space-x-1 truncate text-white/30" title="Not found in the workspace">
+                    <FileQuestionMark size={11} className="shrink-0" />
+                    <span className="truncate">{formatLocation(frame.location)}</span>
+                  </span>
+                )}
+                {frame.functionName && <span className="shrink-0 text-white/40">{frame.functionName}()</span>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default ErrorTrace;
@@ -1,79 +1,205 @@
 import React, { useState } from 'react';
 import { ProjectFile } from '../types';
-import { FileCode, FileJson, Plus, Trash2, Code2, FolderOpen } from 'lucide-react';
+import { RES_ROOT, FolderNode, buildFolderTree, joinPath, dirname, basename, isInside } from '../services/paths';
+import { FileCode, FileJson, Droplet, FilePlus, FolderPlus, Trash2, FolderOpen, Folder, ChevronRight, ChevronDown, Network, Database, Image as ImageIcon } from 'lucide-react';
 
 interface FileExplorerProps {
   files: ProjectFile[];
+  folders: string[];
   activeFileId: string;
   onFileSelect: (id: string) => void;
-  onFileCreate: (name: string) => void;
+  onFileCreate: (path: string) => void;
   onFileDelete: (id: string) => void;
+  onFolderCreate: (path: string) => void;
+  onFolderDelete: (path: string) => void;
+  onRename: (from: string, to: string) => void; // Renames or moves a file or a whole folder
 }
 
-const FileExplorer: React.FC<FileExplorerProps> = ({ files, activeFileId, onFileSelect, onFileCreate, onFileDelete }) => {
-  const [isCreating, setIsCreating] = useState(false);
-  const [newFileName, setNewFileName] = useState('');
+type Creating = { kind: 'file' | 'folder'; parent: string } | null;
+
+const FileExplorer: React.FC<FileExplorerProps> = ({ files, folders, activeFileId, onFileSelect, onFileCreate, onFileDelete, onFolderCreate, onFolderDelete, onRename }) => {
+  const [creating, setCreating] = useState<Creating>(null);
+  const [newName, setNewName] = useState('');
+  const [selectedFolder, setSelectedFolder] = useState(RES_ROOT);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const tree = buildFolderTree(files, folders);
+
+  const startCreating = (kind: 'file' | 'folder') => {
+    setCreating({ kind, parent: selectedFolder });
+    setNewName('');
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      next.delete(selectedFolder);
+      return next;
+    });
+  };
 
   const handleCreateSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newFileName.trim()) {
-      onFileCreate(newFileName.trim());
-      setNewFileName('');
-      setIsCreating(false);
+    if (creating && newName.trim()) {
+      const path = joinPath(creating.parent, newName.trim());
+      if (creating.kind === 'file') onFileCreate(path);
+      else onFolderCreate(path);
+      setNewName('');
+      setCreating(null);
     }
   };
 
-  return (
-    <div className="w-64 h-full bg-black/20 border-r border-white/5 flex flex-col shrink-0">
-      {/* Header */}
-      <div className="p-5 border-b border-white/5 flex items-center justify-between">
-         <div className="flex items-center space-x-2 text-white/60">
-            <FolderOpen size={16} className="text-blue-400"/>
-            <span className="text-xs font-semibold tracking-wide uppercase">Project</span>
-         </div>
-         <button 
-            onClick={() => setIsCreating(true)}
-            className="p-1.5 rounded-lg hover:bg-white/10 text-white/40 hover:text-white transition-colors"
-         >
-            <Plus size={16} />
-         </button>
+  const startRenaming = (path: string) => {
+    setRenaming(path);
+    setRenameValue(basename(path));
+  };
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renaming && renameValue.trim() && renameValue.trim() !== basename(renaming)) {
+      onRename(renaming, joinPath(dirname(renaming), renameValue.trim()));
+    }
+    setRenaming(null);
+  };
+
+  const toggleFolder = (path: string) => {
+    setSelectedFolder(path);
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  // Drag & drop: any row can be dragged onto a folder (or the root) to move it there
+  const dropProps = (folder: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(folder);
+    },
+    onDragLeave: () => setDropTarget(prev => prev === folder ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      const source = e.dataTransfer.getData('text/plain');
+      if (!source || dirname(source) === folder) return;
+      if (source === folder || isInside(folder, source)) return; // A folder can't move into itself
+      onRename(source, joinPath(folder, basename(source)));
+    }
+  });
+
+  const dragProps = (path: string) => ({
+    draggable: renaming !== path,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData('text/plain', path);
+      e.dataTransfer.effectAllowed = 'move';
+    }
+  });
+
+  const renderCreateInput = (parent: string, depth: number) => creating && creating.parent === parent && (
+    <form onSubmit={handleCreateSubmit} className="py-1 pr-2" style={{ paddingLeft: 12 + depth * 14 }}>
+        <input
+          autoFocus
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={creating.kind === 'file' ? 'script_name.gd' : 'folder_name'}
+          className="w-full bg-black/40 border border-blue-500/50 rounded-md px-3 py-1.5 text-xs text-white focus:outline-none"
+          onBlur={() => { if (!newName) setCreating(null); }}
+        />
+    </form>
+  );
+
+  const renderRenameInput = () => (
+    <form onSubmit={handleRenameSubmit} className="flex-1" onClick={(e) => e.stopPropagation()}>
+        <input
+          autoFocus
+          type="text"
+          value={renameValue}
+          onChange={(e) => setRenameValue(e.target.value)}
+          onBlur={() => setRenaming(null)}
+          className="w-full bg-black/40 border border-blue-500/50 rounded-md px-2 py-0.5 text-xs text-white focus:outline-none"
+        />
+    </form>
+  );
+
+  const renderFolder = (node: FolderNode, depth: number): React.ReactNode => {
+    const isOpen = !collapsed.has(node.path);
+    return (
+      <div key={node.path}>
+        <div
+          {...dragProps(node.path)}
+          {...dropProps(node.path)}
+          className={`group flex items-center justify-between pr-2 py-1.5 rounded-lg cursor-pointer transition-all border ${
+              dropTarget === node.path ? 'bg-blue-500/10 border-blue-500/30' :
+              selectedFolder === node.path ? 'bg-white/5 border-transparent text-white' : 'text-gray-400 hover:text-white hover:bg-white/5 border-transparent'
+          }`}
+          style={{ paddingLeft: 8 + depth * 14 }}
+          onClick={() => toggleFolder(node.path)}
+          onDoubleClick={() => startRenaming(node.path)}
+        >
+          <div className="flex items-center space-x-1.5 overflow-hidden flex-1">
+              {isOpen ? <ChevronDown size={12} className="opacity-50 shrink-0" /> : <ChevronRight size={12} className="opacity-50 shrink-0" />}
+              <Folder size={14} className="text-blue-400/70 shrink-0" />
+              {renaming === node.path ? renderRenameInput() : <span className="text-xs font-medium truncate">{node.name}</span>}
+          </div>
+          <button
+              onClick={(e) => {
+                  e.stopPropagation();
+                  const count = files.filter(f => isInside(f.path, node.path)).length;
+                  if (count === 0 || window.confirm(`Delete ${node.path} and the ${count} file(s) inside it?`)) onFolderDelete(node.path);
+              }}
+              className="opacity-0 group-hover:opacity-100 p-1 rounded-md hover:bg-red-500/20 hover:text-red-400 transition-all"
+          >
+              <Trash2 size={12} />
+          </button>
+        </div>
+        {isOpen && (
+          <div>
+            {renderCreateInput(node.path, depth + 1)}
+            {renderChildren(node, depth + 1)}
+          </div>
+        )}
       </div>
+    );
+  };
 
-      {/* Creating Input */}
-      {isCreating && (
-          <form onSubmit={handleCreateSubmit} className="p-3 border-b border-white/5 bg-white/5">
-              <input 
-                autoFocus
-                type="text" 
-                value={newFileName}
-                onChange={(e) => setNewFileName(e.target.value)}
-                placeholder="script_name.gd"
-                className="w-full bg-black/40 border border-blue-500/50 rounded-md px-3 py-1.5 text-xs text-white focus:outline-none"
-                onBlur={() => { if(!newFileName) setIsCreating(false); }}
-              />
-          </form>
-      )}
-
-      {/* File List */}
-      <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
-        {files.map(file => (
-          <div 
+  const renderChildren = (node: FolderNode, depth: number) => (
+    <>
+      {node.folders.map(child => renderFolder(child, depth))}
+      {node.files.map(file => (
+          <div
             key={file.id}
-            className={`group flex items-center justify-between px-3 py-2.5 rounded-lg cursor-pointer transition-all ${
-                activeFileId === file.id 
-                ? 'bg-blue-600/10 text-blue-100 border border-blue-500/20' 
+            {...dragProps(file.path)}
+            className={`group flex items-center justify-between pr-2 py-2 rounded-lg cursor-pointer transition-all ${
+                activeFileId === file.id
+                ? 'bg-blue-600/10 text-blue-100 border border-blue-500/20'
                 : 'text-gray-400 hover:text-white hover:bg-white/5 border border-transparent'
             }`}
-            onClick={() => onFileSelect(file.id)}
+            style={{ paddingLeft: 26 + depth * 14 }}
+            onClick={() => {
+                onFileSelect(file.id);
+                setSelectedFolder(dirname(file.path));
+            }}
+            onDoubleClick={() => startRenaming(file.path)}
+            title={file.path}
           >
-            <div className="flex items-center space-x-3 overflow-hidden">
-                 {file.name.endsWith('.json') ? <FileJson size={14} className="opacity-70" /> : <FileCode size={14} className="opacity-70" />}
-                 <span className="text-xs font-medium truncate">{file.name}</span>
+            <div className="flex items-center space-x-3 overflow-hidden flex-1">
+                 {file.language === 'json' ? <FileJson size={14} className="opacity-70 shrink-0" />
+                    : file.language === 'shader' ? <Droplet size={14} className="opacity-70 shrink-0 text-purple-300" />
+                    : file.language === 'scene' ? <Network size={14} className="opacity-70 shrink-0 text-blue-300" />
+                    : file.language === 'resource' ? <Database size={14} className="opacity-70 shrink-0 text-yellow-300/80" />
+                    : file.language === 'image' ? <ImageIcon size={14} className="opacity-70 shrink-0 text-green-300/80" />
+                    : <FileCode size={14} className="opacity-70 shrink-0" />}
+                 {renaming === file.path ? renderRenameInput() : <span className="text-xs font-medium truncate">{file.name}</span>}
             </div>
-            
+
             {/* Delete button only shows on hover and if more than 1 file exists */}
             {files.length > 1 && (
-                <button 
+                <button
                     onClick={(e) => {
                         e.stopPropagation();
                         onFileDelete(file.id);
@@ -84,10 +210,50 @@ const FileExplorer: React.FC<FileExplorerProps> = ({ files, activeFileId, onFile
                 </button>
             )}
           </div>
-        ))}
+      ))}
+    </>
+  );
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      {/* Header */}
+      <div className="p-5 border-b border-white/5 flex items-center justify-between">
+         <div className="flex items-center space-x-2 text-white/60">
+            <FolderOpen size={16} className="text-blue-400"/>
+            <span className="text-xs font-semibold tracking-wide uppercase">Project</span>
+         </div>
+         <div className="flex items-center">
+             <button
+                onClick={() => startCreating('file')}
+                className="p-1.5 rounded-lg hover:bg-white/10 text-white/40 hover:text-white transition-colors"
+                title={`New file in ${selectedFolder}`}
+             >
+                <FilePlus size={16} />
+             </button>
+             <button
+                onClick={() => startCreating('folder')}
+                className="p-1.5 rounded-lg hover:bg-white/10 text-white/40 hover:text-white transition-colors"
+                title={`New folder in ${selectedFolder}`}
+             >
+                <FolderPlus size={16} />
+             </button>
+         </div>
+      </div>
+
+      {/* File Tree (the empty area below the tree is the res:// drop target) */}
+      <div
+        {...dropProps(RES_ROOT)}
+        onClick={() => setSelectedFolder(RES_ROOT)}
+        className={`flex-1 overflow-y-auto p-2 space-y-0.5 custom-scrollbar transition-colors ${dropTarget === RES_ROOT ? 'bg-blue-500/5' : ''}`}
+      >
+        <div className="px-2 pb-1 text-[10px] font-mono text-white/20">{RES_ROOT}</div>
+        {renderCreateInput(RES_ROOT, 0)}
+        <div onClick={(e) => e.stopPropagation()}>
+            {renderChildren(tree, 0)}
+        </div>
       </div>
     </div>
   );
 };
 
-export default FileExplorer;
\ No newline at end of file
+export default FileExplorer;
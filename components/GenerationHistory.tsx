@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { GenerationRecord, ProjectFile, ToolMode } from '../types';
+import { changedSince, searchGenerations } from '../services/generations';
+import { CircleX, GitCompare, History, Pencil, RotateCcw, Search, Trash2, X } from 'lucide-react';
+
+interface GenerationHistoryProps {
+  records: GenerationRecord[];
+  files: ProjectFile[];
+  onRerun: (record: GenerationRecord) => void; // Same inputs, model and settings
+  onEdit: (record: GenerationRecord) => void; // Inputs back into the form, to tweak before running
+  onCompare: (record: GenerationRecord) => void; // Review the result against the current files
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Partial<Record<ToolMode, string>> = {
+  [ToolMode.CODE_GEN]: 'Generator',
+  [ToolMode.ASSET_GEN]: 'Assets',
+  [ToolMode.PHYSICS]: 'Physics',
+  [ToolMode.LOGIC]: 'Logic',
+  [ToolMode.DATA]: 'Data',
+  [ToolMode.DEBUGGER]: 'Debug',
+};
+
+// What the user asked for: the prompt, or the first line of a pasted log
+const summaryOf = (record: GenerationRecord) => {
+  const { prompt, errorInput, referenceInput } = record.request;
+  return (prompt || errorInput.split('\n').find(l => l.trim()) || referenceInput.split('\n').find(l => l.trim()) || '(no prompt)').trim();
+};
+
+/**
+ * Past generations, analyses and visual assets of the workspace. Any of them can be run again, edited in
+ * the form first, or have its result compared with (and restored over) the current files.
+ */
+const GenerationHistory: React.FC<GenerationHistoryProps> = ({ records, files, onRerun, onEdit, onCompare, onDelete, onClear, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [modeFilter, setModeFilter] = useState<ToolMode | 'all'>('all');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const visible = useMemo(() => searchGenerations(records, query, modeFilter), [records, query, modeFilter]);
+
+  return (
+    <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar p-8 space-y-6 relative">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-light text-white flex items-center tracking-tight">
+          <History className="text-blue-400 mr-3 opacity-80" size={20} />
+          Generation History
+        </h2>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => { if (window.confirm('Clear the generation history of this workspace?')) onClear(); }}
+            disabled={records.length === 0}
+            className="p-2 bg-black/40 text-white/50 hover:text-red-300 rounded-lg disabled:opacity-30 border border-white/5 hover:bg-white/10 transition-all"
+            title="Clear history"
+          >
+            <Trash2 size={16} />
+          </button>
+          <button onClick={onClose} className="p-2 bg-black/40 text-white/70 hover:text-white rounded-lg border border-white/5 hover:bg-white/10 transition-all" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex space-x-3">
+        <div className="flex-1 flex items-center bg-black/30 border border-white/10 rounded-lg px-3 focus-within:border-blue-500">
+          <Search size={14} className="text-white/30 shrink-0" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search prompts, results and files..."
+            className="flex-1 bg-transparent text-xs text-gray-200 p-2.5 focus:outline-none placeholder-white/20"
+          />
+        </div>
+        <select
+          value={modeFilter}
+          onChange={(e) => setModeFilter(e.target.value as ToolMode | 'all')}
+          className="bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none"
+        >
+          <option value="all">All modes</option>
+          {Object.entries(MODE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="text-xs text-white/30">{records.length === 0 ? 'Nothing generated in this workspace yet.' : 'No generation matches the search.'}</div>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(record => {
+            const expanded = expandedId === record.id;
+            const pending = changedSince(record, files);
+            return (
+              <div key={record.id} className="bg-white/5 border border-white/5 rounded-2xl p-4 space-y-3">
+                <button type="button" onClick={() => setExpandedId(expanded ? null : record.id)} className="w-full text-left space-y-1">
+                  <div className="flex items-center space-x-2 text-[10px] text-white/40">
+                    <span className="px-1.5 py-0.5 rounded bg-white/5 font-bold uppercase tracking-wider">{MODE_LABELS[record.request.mode] ?? record.request.mode}</span>
+                    {record.status === 'error' && <span className="flex items-center text-red-400"><CircleX size={11} className="mr-1" />Failed</span>}
+                    <span className="truncate">{record.request.model.model}</span>
+                    <span className="flex-1" />
+                    <span className="shrink-0">{new Date(record.timestamp).toLocaleString()}</span>
+                  </div>
+                  <div className={`text-sm text-gray-200 ${expanded ? 'whitespace-pre-wrap break-words' : 'truncate'}`}>{summaryOf(record)}</div>
+                </button>
+
+                {record.changes.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {record.changes.map(change => (
+                      <span
+                        key={change.path}
+                        className={`px-1.5 py-0.5 rounded bg-black/30 text-[10px] font-mono ${pending.includes(change) ? 'text-white/60' : 'text-white/25'}`}
+                        title={pending.includes(change) ? 'Differs from the current file' : 'Same as the current file'}
+                      >
+                        {change.path.replace(/^res:\/\//, '')}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {expanded && (
+                  <div className="space-y-3">
+                    {record.imageUrl && <img src={record.imageUrl} alt="Generated asset" className="max-h-48 rounded-lg border border-white/10" />}
+                    {record.explanation && (
+                      <div className={`text-xs whitespace-pre-wrap break-words max-h-48 overflow-y-auto custom-scrollbar ${record.status === 'error' ? 'text-red-300' : 'text-white/60'}`}>
+                        {record.explanation}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-center space-x-2 text-[11px]">
+                  <button onClick={() => onRerun(record)} className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-blue-600/80 hover:bg-blue-500 text-white transition-colors" title="Run again with the same inputs, model and settings">
+                    <RotateCcw size={11} />
+                    <span>Re-run</span>
+                  </button>
+                  <button onClick={() => onEdit(record)} className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 hover:text-white transition-colors" title="Load the inputs into the form">
+                    <Pencil size={11} />
+                    <span>Edit</span>
+                  </button>
+                  {record.changes.length > 0 && (
+                    <button
+                      onClick={() => onCompare(record)}
+                      disabled={pending.length === 0}
+                      className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-white/70 hover:text-white transition-colors disabled:opacity-30 disabled:hover:bg-white/5"
+                      title={pending.length === 0 ? 'The project already matches this result' : 'Review the differences and restore this result'}
+                    >
+                      <GitCompare size={11} />
+                      <span>Compare & restore</span>
+                    </button>
+                  )}
+                  <span className="flex-1" />
+                  <button onClick={() => onDelete(record.id)} className="p-1 rounded text-white/20 hover:text-red-300 transition-colors" title="Remove from history">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationHistory;
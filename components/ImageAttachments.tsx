@@ -0,0 +1,84 @@
+import React, { useRef } from 'react';
+import { MAX_ATTACHMENTS, addAttachments } from '../services/attachments';
+import { ImagePlus, Plus, X } from 'lucide-react';
+
+interface ImageAttachmentsProps {
+  images: string[];
+  onChange: (images: string[]) => void;
+  mask?: string | null; // Shown over the first image
+  emptyLabel?: string;
+}
+
+// Reads the picked files; unreadable ones are reported without dropping the rest
+export const useAttachmentPicker = (images: string[], onChange: (images: string[]) => void) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const onFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    try {
+      onChange(await addAttachments(images, files));
+    } catch (err) {
+      window.alert(`Attachment failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+  const input = <input type="file" accept="image/*" multiple ref={inputRef} onChange={onFiles} className="hidden" />;
+  return { input, open: () => inputRef.current?.click(), canAdd: images.length < MAX_ATTACHMENTS };
+};
+
+/**
+ * Reference images of a request: a drop zone while empty, then the thumbnails with room for more.
+ */
+const ImageAttachments: React.FC<ImageAttachmentsProps> = ({ images, onChange, mask, emptyLabel = 'Drop Reference Images' }) => {
+  const picker = useAttachmentPicker(images, onChange);
+
+  if (images.length === 0) {
+    return (
+      <>
+        {picker.input}
+        <button
+          type="button"
+          onClick={picker.open}
+          className="w-full border border-dashed border-white/10 bg-white/5 hover:bg-white/10 rounded-2xl flex flex-col items-center justify-center p-6 transition-all duration-300 group"
+        >
+          <div className="w-12 h-12 rounded-full bg-white/5 flex items-center justify-center mb-3 border border-white/5 text-white/40 group-hover:text-white/60 transition-colors">
+            <ImagePlus size={20} />
+          </div>
+          <span className="text-sm font-medium text-white/40 group-hover:text-white/60 transition-colors">{emptyLabel}</span>
+          <span className="text-[10px] text-white/20 mt-1">Up to {MAX_ATTACHMENTS}, e.g. front, side and back views</span>
+        </button>
+      </>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-3 p-3 border border-blue-500/30 bg-blue-500/5 rounded-2xl">
+      {picker.input}
+      {images.map((url, i) => (
+        <div key={i} className="relative">
+          <img src={url} alt={`Reference ${i + 1}`} className="h-20 max-w-32 object-contain rounded-lg shadow-lg bg-black/20" />
+          {i === 0 && mask && <img src={mask} alt="Mask" className="absolute inset-0 w-full h-full rounded-lg opacity-40 mix-blend-screen" />}
+          <button
+            type="button"
+            onClick={() => onChange(images.filter((_, j) => j !== i))}
+            className="absolute -top-2 -right-2 bg-black/60 backdrop-blur text-white rounded-full p-1 hover:bg-red-500 transition-colors"
+            title="Remove"
+          >
+            <X size={10} />
+          </button>
+        </div>
+      ))}
+      {picker.canAdd && (
+        <button
+          type="button"
+          onClick={picker.open}
+          className="h-20 w-20 rounded-lg border border-dashed border-white/10 text-white/30 hover:text-white/60 hover:bg-white/5 flex items-center justify-center transition-colors"
+          title="Add a reference image"
+        >
+          <Plus size={16} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ImageAttachments;
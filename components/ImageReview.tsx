@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { CHECKERBOARD } from './ImageViewer';
+import { Check, GitCompare, X } from 'lucide-react';
+
+interface ImageReviewProps {
+  path: string;
+  original: string; // Data URL of the current file, empty when it is new
+  proposed: string;
+  isNew?: boolean;
+  variants?: string[]; // Candidates generated together; the accepted one is picked side by side
+  onApply: (content: string) => void;
+  onReject: () => void;
+}
+
+const Preview: React.FC<{ label: string; url: string }> = ({ label, url }) => (
+  <div className="flex-1 min-w-0 flex flex-col items-center space-y-3">
+    <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest">{label}</span>
+    <img src={url} alt={label} style={{ ...CHECKERBOARD, imageRendering: 'pixelated' }} className="max-w-full max-h-[60vh] min-w-32 object-contain border border-white/10 rounded" />
+  </div>
+);
+
+/**
+ * Review of a generated image: the current file next to the proposed one, or next to every variation to
+ * pick from. Images are accepted or rejected whole.
+ */
+const ImageReview: React.FC<ImageReviewProps> = ({ path, original, proposed, isNew = false, variants = [], onApply, onReject }) => {
+  const [picked, setPicked] = useState(0);
+  const candidates = variants.length > 1 ? variants : [proposed];
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-white/5 bg-white/[0.02] shrink-0">
+        <div className="flex items-center space-x-3 overflow-hidden">
+          <GitCompare size={16} className="text-blue-400 shrink-0" />
+          <span className="text-xs text-white/60 font-mono truncate">{path}</span>
+          {isNew && <span className="text-[9px] font-bold uppercase tracking-wider text-blue-300 bg-blue-500/10 border border-blue-500/20 px-1.5 py-0.5 rounded">New</span>}
+        </div>
+        <div className="flex items-center space-x-2 shrink-0">
+          <button
+            onClick={onReject}
+            className="flex items-center space-x-1.5 text-xs font-medium text-white/60 hover:text-red-300 transition-colors bg-white/5 hover:bg-red-500/10 px-3 py-1.5 rounded-lg border border-white/5"
+          >
+            <X size={12} />
+            <span>Reject</span>
+          </button>
+          <button
+            onClick={() => onApply(candidates[picked])}
+            className="flex items-center space-x-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-500 px-3 py-1.5 rounded-lg transition-colors shadow-lg shadow-blue-500/20"
+          >
+            <Check size={12} />
+            <span>{candidates.length > 1 ? `Accept variation ${picked + 1}` : 'Accept'}</span>
+          </button>
+        </div>
+      </div>
+      {candidates.length > 1 ? (
+        <div className="flex-1 overflow-auto custom-scrollbar p-8 space-y-8">
+          {!isNew && (
+            <div className="flex justify-center">
+              <div className="w-1/3"><Preview label="Current" url={original} /></div>
+            </div>
+          )}
+          <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${Math.min(candidates.length, 4)}, minmax(0, 1fr))` }}>
+            {candidates.map((url, i) => (
+              <button
+                key={i}
+                onClick={() => setPicked(i)}
+                className={`flex flex-col items-center space-y-2 p-3 rounded-xl border transition-colors ${picked === i ? 'border-blue-500 bg-blue-500/10' : 'border-white/5 bg-white/[0.02] hover:bg-white/5'}`}
+              >
+                <span className={`text-[10px] font-bold uppercase tracking-widest ${picked === i ? 'text-blue-300' : 'text-white/40'}`}>Variation {i + 1}</span>
+                <img src={url} alt={`Variation ${i + 1}`} style={{ ...CHECKERBOARD, imageRendering: 'pixelated' }} className="max-w-full max-h-[50vh] object-contain border border-white/10 rounded" />
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto custom-scrollbar flex items-center justify-center space-x-8 p-8">
+          {!isNew && <Preview label="Current" url={original} />}
+          <Preview label={isNew ? 'New image' : 'Proposed'} url={proposed} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageReview;
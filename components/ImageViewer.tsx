@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { basename } from '../services/paths';
+import { Download, Image as ImageIcon, ZoomIn, ZoomOut } from 'lucide-react';
+
+interface ImageViewerProps {
+  path: string;
+  url: string; // Data URL of the image file
+}
+
+const ZOOM_LEVELS = [0.25, 0.5, 1, 2, 4, 8, 16];
+
+// Checkerboard behind transparent pixels
+export const CHECKERBOARD: React.CSSProperties = {
+  backgroundImage: 'linear-gradient(45deg, #ffffff0d 25%, transparent 25%), linear-gradient(-45deg, #ffffff0d 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #ffffff0d 75%), linear-gradient(-45deg, transparent 75%, #ffffff0d 75%)',
+  backgroundSize: '16px 16px',
+  backgroundPosition: '0 0, 0 8px, 8px -8px, -8px 0',
+};
+
+/**
+ * Image files of the workspace, shown at an integer zoom without smoothing so pixel art stays crisp.
+ */
+const ImageViewer: React.FC<ImageViewerProps> = ({ path, url }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const zoomIndex = ZOOM_LEVELS.indexOf(zoom);
+
+  // Small images (sprites, tiles) open enlarged
+  const handleLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    if (!size) setZoom(ZOOM_LEVELS.filter(level => level <= 1 || Math.max(width, height) * level <= 512).pop() ?? 1);
+    setSize({ width, height });
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      {/* Right padding leaves room for the undo/redo buttons floating over the panel */}
+      <div className="flex items-center justify-between pl-6 pr-28 py-4 border-b border-white/5 bg-white/[0.02] shrink-0">
+        <div className="flex items-center space-x-3 overflow-hidden">
+          <ImageIcon size={16} className="text-blue-400 shrink-0" />
+          <span className="text-xs text-white/60 font-mono truncate">{path}</span>
+          {size && <span className="text-[10px] font-mono text-white/30">{size.width}x{size.height}</span>}
+        </div>
+        <div className="flex items-center space-x-2 shrink-0">
+          <button onClick={() => setZoom(ZOOM_LEVELS[zoomIndex - 1])} disabled={zoomIndex <= 0} className="p-1.5 rounded-lg text-white/40 hover:text-white bg-white/5 hover:bg-white/10 border border-white/5 disabled:opacity-30" title="Zoom out">
+            <ZoomOut size={12} />
+          </button>
+          <span className="w-10 text-center text-[10px] font-mono text-white/40">{zoom * 100}%</span>
+          <button onClick={() => setZoom(ZOOM_LEVELS[zoomIndex + 1])} disabled={zoomIndex >= ZOOM_LEVELS.length - 1} className="p-1.5 rounded-lg text-white/40 hover:text-white bg-white/5 hover:bg-white/10 border border-white/5 disabled:opacity-30" title="Zoom in">
+            <ZoomIn size={12} />
+          </button>
+          <a
+            href={url}
+            download={basename(path)}
+            className="flex items-center space-x-1.5 text-xs font-medium text-white/40 hover:text-white transition-colors bg-white/5 hover:bg-white/10 px-3 py-1.5 rounded-lg border border-white/5"
+          >
+            <Download size={12} />
+            <span>Download</span>
+          </a>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto custom-scrollbar flex items-center justify-center p-8">
+        {url ? (
+          <img
+            src={url}
+            alt={basename(path)}
+            onLoad={handleLoad}
+            style={{ ...CHECKERBOARD, imageRendering: 'pixelated', width: size ? size.width * zoom : undefined }}
+            className="max-w-none border border-white/10"
+          />
+        ) : (
+          <span className="text-xs text-white/30">Empty image.</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageViewer;
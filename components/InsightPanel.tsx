@@ -0,0 +1,61 @@
+import React from 'react';
+import { GenerationReport } from '../types';
+import { CodeLocation } from '../services/editor';
+import { countBySeverity } from '../services/gdscript';
+import LinkedText from './LinkedText';
+import DiagnosticList from './DiagnosticList';
+
+interface InsightPanelProps {
+  explanation: string;
+  report: GenerationReport | null;
+  onOpenLocation: (location: CodeLocation) => void;
+}
+
+/**
+ * The model's explanation of the last generation, followed by its self-repair retries and the local validation results.
+ */
+const InsightPanel: React.FC<InsightPanelProps> = ({ explanation, report, onOpenLocation }) => (
+  <div className="h-1/3 border-t border-white/5 bg-black/30 backdrop-blur-md p-6 overflow-y-auto">
+      <h3 className="text-[10px] font-bold text-blue-400 uppercase tracking-widest mb-3 opacity-80">Insight</h3>
+      <div className="prose prose-invert prose-sm max-w-none text-gray-300 font-light leading-relaxed">
+          <LinkedText text={explanation} onOpenLocation={onOpenLocation} />
+      </div>
+
+      {report?.repairs.map(repair => (
+          <div key={repair.attempt} className="mt-4">
+              <div className="flex items-center justify-between mb-1">
+                  <span className="text-[11px] font-semibold text-white/50">Self-repair retry {repair.attempt}</span>
+                  <span className="text-[10px] text-white/40">fixed {repair.fixed.length} of {repair.problems.length}</span>
+              </div>
+              <ul className="space-y-0.5 text-xs">
+                  {repair.problems.map((problem, idx) => {
+                      const fixed = repair.fixed.includes(problem);
+                      return (
+                          <li key={idx} className={`flex items-start space-x-2 px-2 ${fixed ? 'text-green-300/80' : 'text-gray-400'}`}>
+                              <span className="shrink-0">{fixed ? '✓' : '•'}</span>
+                              <span><LinkedText text={problem} onOpenLocation={onOpenLocation} /></span>
+                          </li>
+                      );
+                  })}
+              </ul>
+          </div>
+      ))}
+
+      {report?.validation.map(file => {
+          const { errors, warnings } = countBySeverity(file.diagnostics);
+          return (
+              <div key={file.path} className="mt-4">
+                  <div className="flex items-center justify-between mb-1">
+                      <span className="text-[11px] font-mono text-white/50">{file.path}</span>
+                      <span className={`text-[10px] ${errors ? 'text-red-400' : warnings ? 'text-yellow-400' : 'text-green-400/80'}`}>
+                          {errors || warnings ? `${errors} error(s), ${warnings} warning(s)` : 'Validated, no problems'}
+                      </span>
+                  </div>
+                  <DiagnosticList diagnostics={file.diagnostics} onSelect={(d) => onOpenLocation({ path: file.path, line: d.line })} />
+              </div>
+          );
+      })}
+  </div>
+);
+
+export default InsightPanel;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { CodeLocation, splitLocations } from '../services/editor';
+
+interface LinkedTextProps {
+  text: string;
+  onOpenLocation?: (location: CodeLocation) => void;
+}
+
+/**
+ * Plain text where "res://path.gd:12" references become links that open the file at that line.
+ */
+const LinkedText: React.FC<LinkedTextProps> = ({ text, onOpenLocation }) => {
+  if (!onOpenLocation) return <>{text}</>;
+  return (
+    <>
+      {splitLocations(text).map((segment, idx) =>
+        segment.kind === 'text' ? segment.text : (
+          <button
+            key={idx}
+            type="button"
+            onClick={() => onOpenLocation(segment.location)}
+            className="font-mono text-[0.9em] text-blue-300 hover:text-blue-200 underline decoration-blue-300/30 hover:decoration-blue-200 underline-offset-2"
+          >
+            {segment.text}
+          </button>
+        )
+      )}
+    </>
+  );
+};
+
+export default LinkedText;
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CHECKERBOARD } from './ImageViewer';
+import { Brush, Check, Eraser, Trash2 } from 'lucide-react';
+
+interface MaskPainterProps {
+  imageUrl: string;
+  mask: string | null; // White-on-black PNG the size of the image
+  onChange: (mask: string | null) => void; // null once nothing is painted
+  onClose: () => void;
+}
+
+const STROKE_COLOR = 'rgb(239, 68, 68)';
+
+/**
+ * Paints the area of an image the model may change. Strokes are kept on a canvas the size of the image
+ * and exported as a white-on-black mask after every stroke.
+ */
+const MaskPainter: React.FC<MaskPainterProps> = ({ imageUrl, mask, onChange, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(6); // Percent of the image width
+  const [erasing, setErasing] = useState(false);
+
+  // Sizes the canvas to the image, with the strokes of the current mask
+  useEffect(() => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      if (!mask) return;
+      const maskImage = new Image();
+      maskImage.onload = () => {
+        const context = canvas.getContext('2d')!;
+        context.drawImage(maskImage, 0, 0, canvas.width, canvas.height);
+        const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+        for (let offset = 0; offset < pixels.data.length; offset += 4) {
+          pixels.data[offset + 3] = pixels.data[offset]; // White = painted
+          [pixels.data[offset], pixels.data[offset + 1], pixels.data[offset + 2]] = [239, 68, 68];
+        }
+        context.putImageData(pixels, 0, 0);
+      };
+      maskImage.src = mask;
+    };
+    image.src = imageUrl;
+  }, [imageUrl]);
+
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) * canvas.width / rect.width, y: (e.clientY - rect.top) * canvas.height / rect.height };
+  };
+
+  const strokeTo = (canvas: HTMLCanvasElement, point: { x: number; y: number }) => {
+    const context = canvas.getContext('2d')!;
+    const from = lastPoint.current ?? point;
+    context.globalCompositeOperation = erasing ? 'destination-out' : 'source-over';
+    context.strokeStyle = STROKE_COLOR;
+    context.lineWidth = canvas.width * brushSize / 100;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPoint.current = point;
+  };
+
+  const exportMask = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const strokes = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+    let painted = false;
+    for (let offset = 0; offset < strokes.data.length; offset += 4) {
+      const value = strokes.data[offset + 3] > 127 ? 255 : 0;
+      painted ||= value > 0;
+      strokes.data[offset] = strokes.data[offset + 1] = strokes.data[offset + 2] = value;
+      strokes.data[offset + 3] = 255;
+    }
+    if (!painted) {
+      onChange(null);
+      return;
+    }
+    const output = document.createElement('canvas');
+    output.width = canvas.width;
+    output.height = canvas.height;
+    output.getContext('2d')!.putImageData(strokes, 0, 0);
+    onChange(output.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="bg-white/5 border border-blue-500/30 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center space-x-2">
+        <div className="bg-black/20 p-1 rounded-lg flex">
+          <button onClick={() => setErasing(false)} className={`p-1.5 rounded-md transition-colors ${!erasing ? 'bg-blue-600 text-white' : 'text-white/40 hover:text-white'}`} title="Paint the area to change">
+            <Brush size={13} />
+          </button>
+          <button onClick={() => setErasing(true)} className={`p-1.5 rounded-md transition-colors ${erasing ? 'bg-blue-600 text-white' : 'text-white/40 hover:text-white'}`} title="Erase">
+            <Eraser size={13} />
+          </button>
+        </div>
+        <input
+          type="range"
+          min={1}
+          max={25}
+          value={brushSize}
+          onChange={(e) => setBrushSize(parseInt(e.target.value))}
+          className="flex-1 accent-blue-500"
+          title="Brush size"
+        />
+        <button onClick={clear} className="p-1.5 rounded-lg bg-white/5 text-white/50 hover:text-red-300 transition-colors" title="Clear the mask">
+          <Trash2 size={13} />
+        </button>
+        <button onClick={onClose} className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-[11px] transition-colors">
+          <Check size={12} />
+          <span>Done</span>
+        </button>
+      </div>
+      <div className="flex justify-center">
+        <div className="relative inline-block">
+          <img src={imageUrl} alt="Image to edit" style={CHECKERBOARD} className="max-h-64 max-w-full rounded-lg select-none" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              lastPoint.current = null;
+              strokeTo(e.currentTarget, pointFor(e));
+            }}
+            onPointerMove={(e) => { if (lastPoint.current) strokeTo(e.currentTarget, pointFor(e)); }}
+            onPointerUp={() => { lastPoint.current = null; exportMask(); }}
+          />
+        </div>
+      </div>
+      <div className="text-[10px] text-white/30">Paint over the area to change, then describe the change in the prompt. Everything else is kept.</div>
+    </div>
+  );
+};
+
+export default MaskPainter;
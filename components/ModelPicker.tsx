@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ModelSelection, ProviderConfig, ProviderId } from '../types';
+import { PROVIDER_OPTIONS, getProvider } from '../services/llm';
+import { Cpu, RefreshCw } from 'lucide-react';
+
+interface ModelPickerProps {
+  selection: ModelSelection;
+  providerConfig: ProviderConfig;
+  onSelectionChange: (selection: ModelSelection) => void;
+  onProviderConfigChange: (config: ProviderConfig) => void;
+}
+
+const ModelPicker: React.FC<ModelPickerProps> = ({ selection, providerConfig, onSelectionChange, onProviderConfigChange }) => {
+  const [remoteModels, setRemoteModels] = useState<string[]>([]);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  const provider = getProvider(selection.provider, providerConfig);
+  const modelOptions = Array.from(new Set([...remoteModels, ...provider.suggestedModels]));
+  const listId = `models-${selection.provider}`;
+
+  const handleProviderChange = (id: ProviderId) => {
+    setRemoteModels([]);
+    setRefreshError(null);
+    onSelectionChange({ provider: id, model: getProvider(id, providerConfig).suggestedModels[0] || '' });
+  };
+
+  const handleRefresh = async () => {
+    if (!provider.listModels) return;
+    try {
+      setRemoteModels(await provider.listModels());
+      setRefreshError(null);
+    } catch (e) {
+      setRefreshError(e instanceof Error ? e.message : 'Could not reach server');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest flex items-center">
+            <Cpu size={12} className="mr-1.5" />
+            Model
+        </label>
+        <div className="grid grid-cols-2 gap-4">
+            <select
+                value={selection.provider}
+                onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none"
+            >
+                {PROVIDER_OPTIONS.map(opt => (
+                    <option key={opt.id} value={opt.id}>{opt.label}</option>
+                ))}
+            </select>
+            <div className="relative">
+                <input
+                    type="text"
+                    list={listId}
+                    value={selection.model}
+                    onChange={(e) => onSelectionChange({ ...selection, model: e.target.value })}
+                    placeholder="model name"
+                    className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 pr-8 focus:border-blue-500 focus:outline-none"
+                />
+                <datalist id={listId}>
+                    {modelOptions.map(m => <option key={m} value={m} />)}
+                </datalist>
+                {provider.listModels && (
+                    <button
+                        onClick={handleRefresh}
+                        className="absolute right-1.5 top-1/2 -translate-y-1/2 p-1 rounded text-white/30 hover:text-white transition-colors"
+                        title="Fetch models from server"
+                    >
+                        <RefreshCw size={12} />
+                    </button>
+                )}
+            </div>
+        </div>
+        {selection.provider === 'openai-compatible' && (
+            <div className="grid grid-cols-2 gap-4">
+                <input
+                    type="text"
+                    value={providerConfig.openaiCompatible.baseUrl}
+                    onChange={(e) => onProviderConfigChange({ ...providerConfig, openaiCompatible: { ...providerConfig.openaiCompatible, baseUrl: e.target.value } })}
+                    placeholder="http://localhost:11434/v1"
+                    className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 font-mono focus:border-blue-500 focus:outline-none"
+                />
+                <input
+                    type="password"
+                    value={providerConfig.openaiCompatible.apiKey}
+                    onChange={(e) => onProviderConfigChange({ ...providerConfig, openaiCompatible: { ...providerConfig.openaiCompatible, apiKey: e.target.value } })}
+                    placeholder="API key (optional)"
+                    className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none"
+                />
+            </div>
+        )}
+        {refreshError && <div className="text-[10px] text-red-400">{refreshError}</div>}
+    </div>
+  );
+};
+
+export default ModelPicker;
@@ -0,0 +1,239 @@
+import React, { useRef, useState } from 'react';
+import { GodotContextType, LibraryEntry, ToolMode } from '../types';
+import { BUILTIN_VARIABLES, DEFAULT_LIBRARY, LIBRARY_CONTEXTS, LIBRARY_MODES, createLibraryEntry, exportLibrary, mergeLibrary, parseLibrary, templateVariables } from '../services/library';
+import { downloadBlob } from '../services/project';
+import { BookOpen, Box, Contrast, Cuboid, Database, Download, Droplet, Flame, Gamepad2, Layers, Monitor, Network, Palette, Plus, RotateCcw, Scan, Sparkles, Trash2, Upload, Wand2, Waves, X, Zap } from 'lucide-react';
+
+// Icons an entry can use, by name (entries are shared as JSON)
+export const LIBRARY_ICONS: Record<string, React.ElementType> = {
+  Zap, Gamepad2, Box, Layers, Database, Flame, Scan, Waves, Contrast, Palette, Sparkles, Wand2, Cuboid, Monitor, Droplet, Network,
+};
+
+export const libraryIcon = (name: string) => LIBRARY_ICONS[name] ?? Zap;
+
+interface PromptLibraryProps {
+  library: LibraryEntry[];
+  onChange: (library: LibraryEntry[]) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<string, string> = {
+  [ToolMode.CODE_GEN]: 'Generator',
+  [ToolMode.ASSET_GEN]: 'Assets',
+  [ToolMode.PHYSICS]: 'Physics',
+  [ToolMode.LOGIC]: 'Logic',
+};
+
+const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="space-y-1">
+    <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">{label}</label>
+    {children}
+  </div>
+);
+
+const Pill: React.FC<{ label: string; active: boolean; onClick: () => void }> = ({ label, active, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`px-2.5 py-1 rounded-full text-[11px] border transition-colors ${active ? 'bg-blue-600/80 border-blue-500 text-white' : 'bg-white/5 border-white/5 text-white/40 hover:text-white'}`}
+  >
+    {label}
+  </button>
+);
+
+const inputClass = "w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none placeholder-white/20";
+
+/**
+ * The prompts offered in the Tools library: edited here, and shared with the team by exporting and importing
+ * the whole library as JSON.
+ */
+const PromptLibrary: React.FC<PromptLibraryProps> = ({ library, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(library[0]?.id ?? null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = library.find(e => e.id === selectedId);
+
+  const update = (patch: Partial<LibraryEntry>) => {
+    if (selected) onChange(library.map(e => e.id === selected.id ? { ...e, ...patch } : e));
+  };
+
+  const add = () => {
+    const entry = createLibraryEntry();
+    onChange([...library, entry]);
+    setSelectedId(entry.id);
+  };
+
+  const remove = (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete "${entry.title}" from the library?`)) return;
+    onChange(library.filter(e => e.id !== entry.id));
+    if (selectedId === entry.id) setSelectedId(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseLibrary(await file.text());
+      onChange(mergeLibrary(library, imported));
+      window.alert(`Imported ${imported.length} ${imported.length === 1 ? 'entry' : 'entries'}. Entries with the same id were replaced.`);
+    } catch (err) {
+      window.alert(`Import failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const variables = selected ? templateVariables(selected.prompt) : [];
+
+  return (
+    <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar p-8 space-y-6 relative">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-light text-white flex items-center tracking-tight">
+          <BookOpen className="text-blue-400 mr-3 opacity-80" size={20} />
+          Prompt Library
+          <span className="ml-3 text-sm text-white/30">{library.length}</span>
+        </h2>
+        <div className="flex space-x-2">
+          <input type="file" accept=".json,application/json" ref={fileInputRef} onChange={handleImport} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className="p-2 bg-black/40 text-white/50 hover:text-white rounded-lg border border-white/5 hover:bg-white/10 transition-all" title="Import entries from JSON">
+            <Upload size={16} />
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([exportLibrary(library)], { type: 'application/json' }), 'prompt_library.json')}
+            className="p-2 bg-black/40 text-white/50 hover:text-white rounded-lg border border-white/5 hover:bg-white/10 transition-all"
+            title="Export the library as JSON"
+          >
+            <Download size={16} />
+          </button>
+          <button
+            onClick={() => { if (window.confirm('Replace the library with the built-in entries?')) { onChange(DEFAULT_LIBRARY); setSelectedId(DEFAULT_LIBRARY[0].id); } }}
+            className="p-2 bg-black/40 text-white/50 hover:text-red-300 rounded-lg border border-white/5 hover:bg-white/10 transition-all"
+            title="Reset to the built-in entries"
+          >
+            <RotateCcw size={16} />
+          </button>
+          <button onClick={onClose} className="p-2 bg-black/40 text-white/70 hover:text-white rounded-lg border border-white/5 hover:bg-white/10 transition-all" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-6 min-h-0">
+        <div className="w-64 shrink-0 space-y-1.5">
+          {library.map(entry => {
+            const Icon = libraryIcon(entry.icon);
+            return (
+              <button
+                key={entry.id}
+                onClick={() => setSelectedId(entry.id)}
+                className={`w-full flex items-center space-x-2 px-3 py-2 rounded-lg text-left transition-colors ${entry.id === selectedId ? 'bg-blue-500/15 text-white' : 'text-white/60 hover:bg-white/5 hover:text-white'}`}
+              >
+                <Icon size={13} className="text-blue-400 shrink-0" />
+                <span className="text-xs truncate flex-1">{entry.title}</span>
+                <span className="text-[9px] text-white/30 uppercase tracking-wider shrink-0">
+                  {entry.output === 'image' ? 'Style' : entry.contexts.length === 1 && entry.contexts[0] === 'Shader' ? 'Shader' : entry.display}
+                </span>
+              </button>
+            );
+          })}
+          <button onClick={add} className="w-full flex items-center justify-center space-x-1.5 px-3 py-2 rounded-lg border border-dashed border-white/10 text-xs text-white/40 hover:text-white hover:bg-white/5 transition-colors">
+            <Plus size={12} />
+            <span>New entry</span>
+          </button>
+        </div>
+
+        {selected ? (
+          <div key={selected.id} className="flex-1 min-w-0 bg-white/5 border border-white/5 rounded-2xl p-5 space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="Title">
+                <input value={selected.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} />
+              </Field>
+              <Field label="Description">
+                <input value={selected.description} onChange={(e) => update({ description: e.target.value })} placeholder="Shown under the title of cards" className={inputClass} />
+              </Field>
+            </div>
+
+            <Field label="Icon">
+              <div className="flex flex-wrap gap-1.5">
+                {Object.entries(LIBRARY_ICONS).map(([name, Icon]) => (
+                  <button
+                    key={name}
+                    onClick={() => update({ icon: name })}
+                    title={name}
+                    className={`p-2 rounded-lg border transition-colors ${selected.icon === name ? 'bg-blue-600/80 border-blue-500 text-white' : 'bg-white/5 border-white/5 text-white/40 hover:text-white'}`}
+                  >
+                    <Icon size={14} />
+                  </button>
+                ))}
+              </div>
+            </Field>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Field label="Shown As">
+                <div className="flex gap-1.5">
+                  <Pill label="Card" active={selected.display === 'card'} onClick={() => update({ display: 'card' })} />
+                  <Pill label="Chip" active={selected.display === 'chip'} onClick={() => update({ display: 'chip' })} />
+                </div>
+              </Field>
+              <Field label="Output">
+                <div className="flex gap-1.5">
+                  <Pill label="Code" active={selected.output === 'code'} onClick={() => update({ output: 'code' })} />
+                  <Pill label="Visual asset" active={selected.output === 'image'} onClick={() => update({ output: 'image', modes: [ToolMode.ASSET_GEN] })} />
+                </div>
+              </Field>
+            </div>
+
+            <Field label="Modes">
+              <div className="flex flex-wrap gap-1.5">
+                {LIBRARY_MODES.filter(mode => selected.output === 'code' || mode === ToolMode.ASSET_GEN).map(mode => (
+                  <Pill key={mode} label={MODE_LABELS[mode]} active={selected.modes.includes(mode)} onClick={() => update({ modes: toggle(selected.modes, mode) })} />
+                ))}
+              </div>
+            </Field>
+
+            {selected.output === 'code' && (
+              <Field label="Contexts">
+                <div className="flex flex-wrap gap-1.5">
+                  {LIBRARY_CONTEXTS.map(context => (
+                    <Pill key={context} label={context} active={selected.contexts.includes(context)} onClick={() => update({ contexts: toggle<GodotContextType>(selected.contexts, context) })} />
+                  ))}
+                  <span className="text-[10px] text-white/30 self-center pl-1">{selected.contexts.length === 0 ? 'Any context' : ''}</span>
+                </div>
+              </Field>
+            )}
+
+            <Field label="Prompt">
+              <textarea
+                value={selected.prompt}
+                onChange={(e) => update({ prompt: e.target.value })}
+                placeholder="Add a {{signal_name}} signal to {{class_name}}..."
+                className={`${inputClass} h-40 resize-none font-mono`}
+              />
+            </Field>
+
+            <div className="text-[10px] text-white/30 space-y-1">
+              <div>
+                Variables: {variables.length === 0 ? 'none, the prompt runs as is.' : variables.map(name => (
+                  <span key={name} className={`mr-1.5 px-1.5 py-0.5 rounded bg-black/30 font-mono ${BUILTIN_VARIABLES[name] ? 'text-blue-300' : 'text-white/60'}`}>{name}</span>
+                ))}
+              </div>
+              <div>Filled automatically (and editable in the form): {Object.keys(BUILTIN_VARIABLES).map(name => `{{${name}}}`).join(', ')}. Any other name becomes a form field.</div>
+            </div>
+
+            {selected.modes.length === 0 && <div className="text-[11px] text-amber-300">Pick at least one mode, or the entry is never shown.</div>}
+
+            <div className="flex justify-end">
+              <button onClick={() => remove(selected)} className="flex items-center space-x-1.5 px-3 py-1.5 rounded-lg bg-white/5 text-xs text-white/50 hover:text-red-300 hover:bg-red-500/10 transition-colors">
+                <Trash2 size={12} />
+                <span>Delete</span>
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 text-xs text-white/30">{library.length === 0 ? 'The library is empty. Add an entry or import a library shared by your team.' : 'Select an entry to edit it.'}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibrary;
@@ -0,0 +1,161 @@
+import React, { useMemo } from 'react';
+import { ProjectFile } from '../types';
+import { parseTscn } from '../services/tscn';
+import { ResourceField, colorToHex, fieldKind, fromVariant, hexToColor, resourceClassFor, resourceValues, setResourceProperty, toVariant } from '../services/resources';
+import { CodeLocation } from '../services/editor';
+import { Database, FileCode, RotateCcw, TriangleAlert } from 'lucide-react';
+
+interface ResourceEditorProps {
+  path: string;
+  content: string;
+  files: ProjectFile[]; // Used to find the Resource script the instance is built from
+  onChange: (content: string) => void;
+  onOpenLocation: (location: CodeLocation) => void;
+}
+
+const inputClass = "w-full bg-black/40 border border-white/10 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500/50";
+
+/**
+ * Form view of a .tres instance: one input per exported field of its Resource class.
+ * Every change is written back to the .tres text; resetting a field removes it so the script default applies.
+ */
+const ResourceEditor: React.FC<ResourceEditorProps> = ({ path, content, files, onChange, onOpenLocation }) => {
+  const { values, syntaxErrors } = useMemo(() => {
+    const { document, errors } = parseTscn(content);
+    return { values: resourceValues(document), syntaxErrors: errors.length };
+  }, [content]);
+  const scriptClass = useMemo(() => resourceClassFor(content, files), [content, files]);
+  const fields = scriptClass?.resourceClass.fields ?? [];
+  // Properties the class doesn't declare (or all of them without a script) are edited as raw variant text
+  const extraFields: ResourceField[] = values
+    .filter(v => !fields.some(f => f.name === v.key))
+    .map(v => ({ name: v.key, type: '', line: 0 }));
+
+  const write = (key: string, value: string | null) => {
+    try {
+      const next = setResourceProperty(content, key, value);
+      if (next !== content) onChange(next);
+    } catch (e) {
+      window.alert(e instanceof Error ? e.message : 'The resource could not be edited.');
+    }
+  };
+
+  const renderInput = (field: ResourceField, raw: string | undefined) => {
+    const value = raw ?? field.defaultValue ?? '';
+    const current = fromVariant(field, value);
+    const set = (input: string | boolean) => write(field.name, toVariant(field, input));
+    switch (fieldKind(field)) {
+      case 'bool':
+        return <input type="checkbox" checked={current === true} onChange={(e) => set(e.target.checked)} className="accent-blue-500" />;
+      case 'int':
+      case 'float':
+        // Committed on blur: writing "1." back as "1.0" mid-typing would fight the caret
+        return (
+          <input
+            type="number"
+            defaultValue={String(current)}
+            key={value}
+            min={field.range?.min}
+            max={field.range?.max}
+            step={field.range?.step ?? (fieldKind(field) === 'int' ? 1 : 'any')}
+            onBlur={(e) => { if (e.target.value !== String(current)) set(e.target.value); }}
+            className={inputClass}
+          />
+        );
+      case 'enum':
+        return (
+          <select value={String(current)} onChange={(e) => set(e.target.value)} className={inputClass}>
+            {field.enumOptions!.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        );
+      case 'string':
+        return field.multiline
+          ? <textarea value={String(current)} onChange={(e) => set(e.target.value)} rows={3} className={`${inputClass} resize-y`} />
+          : <input type="text" value={String(current)} onChange={(e) => set(e.target.value)} className={inputClass} />;
+      case 'color':
+        return (
+          <div className="flex items-center space-x-2">
+            <input type="color" value={colorToHex(value)} onChange={(e) => write(field.name, hexToColor(e.target.value, value))} className="w-8 h-6 bg-transparent border-0 p-0 cursor-pointer" />
+            <span className="font-mono text-[10px] text-white/40 truncate">{value}</span>
+          </div>
+        );
+      default:
+        // Variant text as written in the file: Vector2(1, 2), ["a", "b"], ExtResource("2_icon")...
+        return (
+          <input
+            type="text"
+            defaultValue={value}
+            key={value}
+            onBlur={(e) => { if (e.target.value.trim() !== value) write(field.name, e.target.value.trim() || null); }}
+            placeholder={field.type ? `${field.type} (Godot syntax)` : 'Godot syntax'}
+            className={`${inputClass} font-mono`}
+          />
+        );
+    }
+  };
+
+  const renderField = (field: ResourceField) => {
+    const raw = values.find(v => v.key === field.name)?.value;
+    return (
+      <div key={field.name} className="space-y-1">
+        <div className="flex items-center justify-between">
+          <label className="text-[11px] text-gray-300">
+            {field.name}
+            <span className="ml-1.5 font-mono text-[10px] text-white/30">{field.type}</span>
+          </label>
+          {raw !== undefined && field.line > 0 && (
+            <button type="button" onClick={() => write(field.name, null)} title="Reset to the script default" className="text-white/30 hover:text-white">
+              <RotateCcw size={11} />
+            </button>
+          )}
+        </div>
+        {renderInput(field, raw)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-80 h-full shrink-0 flex flex-col border-r border-white/5 bg-black/20">
+      <div className="px-4 py-3 border-b border-white/5 flex items-center space-x-2 text-white/60">
+        <Database size={14} className="text-blue-400" />
+        <span className="text-xs font-semibold tracking-wide uppercase">{scriptClass?.resourceClass.className ?? 'Resource'}</span>
+        <span className="text-[10px] font-mono text-white/30 truncate">{path.slice(path.lastIndexOf('/') + 1)}</span>
+      </div>
+
+      {scriptClass && (
+        <button
+          type="button"
+          onClick={() => onOpenLocation({ path: scriptClass.path, line: 1 })}
+          className="mx-3 mt-3 flex items-center space-x-1.5 text-[11px] font-mono text-blue-300/70 hover:text-blue-200"
+        >
+          <FileCode size={11} />
+          <span className="truncate">{scriptClass.path}</span>
+        </button>
+      )}
+
+      {syntaxErrors > 0 ? (
+        <div className="mx-3 mt-3 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-[11px] text-red-200 flex items-start space-x-2">
+          <TriangleAlert size={12} className="shrink-0 mt-0.5" />
+          <span>Fix the {syntaxErrors} syntax problem(s) in the text to use the form.</span>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-3 space-y-3 custom-scrollbar">
+          {fields.map(renderField)}
+          {extraFields.length > 0 && (
+            <>
+              {scriptClass && <div className="pt-1 text-[10px] font-bold text-white/30 uppercase tracking-widest">Not in {scriptClass.resourceClass.className ?? 'the script'}</div>}
+              {extraFields.map(renderField)}
+            </>
+          )}
+          {fields.length === 0 && extraFields.length === 0 && (
+            <div className="py-6 text-center text-xs text-white/30">
+              {scriptClass ? 'The script has no @export fields.' : 'No script attached. Set script = ExtResource("...") in [resource] to get a form.'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResourceEditor;
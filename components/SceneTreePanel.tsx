@@ -0,0 +1,286 @@
+import React, { useMemo, useState } from 'react';
+import { SceneEdit, SceneNode, applySceneEdit, buildSceneTree, parseTscn } from '../services/tscn';
+import { CodeLocation } from '../services/editor';
+import { Network, ChevronRight, ChevronDown, FileCode, Plus, Pencil, Zap, Tag, Box, TriangleAlert } from 'lucide-react';
+
+interface SceneTreePanelProps {
+  path: string;
+  content: string;
+  scripts: string[]; // res:// paths of the project's scripts, offered by "attach script"
+  onChange: (content: string) => void;
+  onOpenLocation: (location: CodeLocation) => void; // Selecting a node shows its [node] line; script chips open the script
+}
+
+// Offered by "add child"; any other class name can be typed
+const COMMON_NODE_TYPES = [
+  'Node', 'Node2D', 'Node3D', 'Sprite2D', 'AnimatedSprite2D', 'CharacterBody2D', 'RigidBody2D', 'StaticBody2D', 'Area2D',
+  'CollisionShape2D', 'Camera2D', 'Timer', 'AnimationPlayer', 'AudioStreamPlayer', 'Label', 'Button', 'Control',
+  'MarginContainer', 'VBoxContainer', 'HBoxContainer', 'MeshInstance3D', 'CharacterBody3D', 'CollisionShape3D', 'Camera3D'
+];
+
+/**
+ * Node tree of the active .tscn with structural edits (add child, rename, drag to reparent, attach script)
+ * that are written back to the scene text.
+ */
+const SceneTreePanel: React.FC<SceneTreePanelProps> = ({ path, content, scripts, onChange, onOpenLocation }) => {
+  const { tree, syntaxErrors } = useMemo(() => {
+    const { document, errors } = parseTscn(content);
+    return { tree: buildSceneTree(document), syntaxErrors: errors.length };
+  }, [content]);
+  const [selected, setSelected] = useState('.');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [adding, setAdding] = useState<{ name: string; type: string } | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const findNode = (node: SceneNode | null, nodePath: string): SceneNode | null => {
+    if (!node) return null;
+    if (node.path === nodePath) return node;
+    for (const child of node.children) {
+      const found = findNode(child, nodePath);
+      if (found) return found;
+    }
+    return null;
+  };
+  const selectedNode = findNode(tree.root, selected) ?? tree.root;
+  const canEdit = syntaxErrors === 0;
+
+  const edit = (sceneEdit: SceneEdit) => {
+    try {
+      const next = applySceneEdit(content, sceneEdit);
+      if (next !== content) onChange(next);
+      return true;
+    } catch (e) {
+      window.alert(e instanceof Error ? e.message : 'The scene could not be edited.');
+      return false;
+    }
+  };
+
+  const handleAddSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adding || !selectedNode || !adding.name.trim()) return;
+    const name = adding.name.trim();
+    if (edit({ kind: 'add_child', parent: selectedNode.path, name, type: adding.type.trim() })) {
+      setSelected(selectedNode.path === '.' ? name : `${selectedNode.path}/${name}`);
+      setAdding(null);
+    }
+  };
+
+  const startRenaming = (node: SceneNode) => {
+    if (!canEdit) return;
+    setRenaming(node.path);
+    setRenameValue(node.name);
+  };
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const node = renaming !== null ? findNode(tree.root, renaming) : null;
+    const name = renameValue.trim();
+    if (node && name && name !== node.name && edit({ kind: 'rename', path: node.path, name })) {
+      setSelected(node.path === '.' ? '.' : node.path.replace(/[^/]+$/, name));
+    }
+    setRenaming(null);
+  };
+
+  // Drag & drop reparents, like moving files in the project explorer
+  const dragProps = (node: SceneNode) => ({
+    draggable: canEdit && node.path !== '.' && renaming !== node.path,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData('text/plain', node.path);
+      e.dataTransfer.effectAllowed = 'move';
+    },
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(node.path);
+    },
+    onDragLeave: () => setDropTarget(prev => prev === node.path ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const source = e.dataTransfer.getData('text/plain');
+      if (!source || source === node.path) return;
+      const name = source.slice(source.lastIndexOf('/') + 1);
+      if (edit({ kind: 'reparent', path: source, parent: node.path })) setSelected(node.path === '.' ? name : `${node.path}/${name}`);
+    }
+  });
+
+  const toggle = (nodePath: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(nodePath)) next.delete(nodePath);
+    else next.add(nodePath);
+    return next;
+  });
+
+  const renderNode = (node: SceneNode, depth: number): React.ReactNode => {
+    const isOpen = !collapsed.has(node.path);
+    const signals = tree.connections.filter(c => c.from === node.path).length;
+    return (
+      <div key={node.path}>
+        <div
+          {...dragProps(node)}
+          onClick={() => {
+            setSelected(node.path);
+            onOpenLocation({ path, line: node.line });
+          }}
+          onDoubleClick={() => startRenaming(node)}
+          className={`group flex items-center pr-2 py-1.5 rounded-lg cursor-pointer transition-all border text-xs ${
+            dropTarget === node.path ? 'bg-blue-500/10 border-blue-500/30' :
+            selectedNode?.path === node.path ? 'bg-blue-600/10 text-blue-100 border-blue-500/20' : 'text-gray-400 hover:text-white hover:bg-white/5 border-transparent'
+          }`}
+          style={{ paddingLeft: 6 + depth * 14 }}
+          title={node.path}
+        >
+          <button
+            type="button"
+            onClick={(e) => { e.stopPropagation(); toggle(node.path); }}
+            className={`shrink-0 opacity-50 ${node.children.length === 0 ? 'invisible' : ''}`}
+          >
+            {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+          </button>
+          <Box size={12} className="ml-1 mr-1.5 shrink-0 text-blue-400/70" />
+          {renaming === node.path ? (
+            <form onSubmit={handleRenameSubmit} className="flex-1" onClick={(e) => e.stopPropagation()}>
+              <input
+                autoFocus
+                type="text"
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onBlur={() => setRenaming(null)}
+                className="w-full bg-black/40 border border-blue-500/50 rounded-md px-2 py-0.5 text-xs text-white focus:outline-none"
+              />
+            </form>
+          ) : (
+            <>
+              <span className="font-medium truncate">{node.name}</span>
+              <span className="ml-1.5 text-white/30 truncate">{node.type ?? node.instance?.slice(node.instance.lastIndexOf('/') + 1)}</span>
+              <span className="ml-auto flex items-center space-x-1 pl-2 shrink-0">
+                {node.groups.length > 0 && <span title={`Groups: ${node.groups.join(', ')}`}><Tag size={11} className="text-yellow-300/60" /></span>}
+                {signals > 0 && <span title={`${signals} signal connection(s)`}><Zap size={11} className="text-green-300/70" /></span>}
+                {node.script && (
+                  <button
+                    type="button"
+                    onClick={(e) => { e.stopPropagation(); onOpenLocation({ path: node.script!, line: 1 }); }}
+                    title={`Open ${node.script}`}
+                    className="text-blue-300/70 hover:text-blue-200"
+                  >
+                    <FileCode size={11} />
+                  </button>
+                )}
+              </span>
+            </>
+          )}
+        </div>
+        {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-72 h-full shrink-0 flex flex-col border-r border-white/5 bg-black/20">
+      <div className="px-4 py-3 border-b border-white/5 flex items-center space-x-2 text-white/60">
+        <Network size={14} className="text-blue-400" />
+        <span className="text-xs font-semibold tracking-wide uppercase">Scene</span>
+        <span className="text-[10px] font-mono text-white/30 truncate">{path.slice(path.lastIndexOf('/') + 1)}</span>
+      </div>
+
+      {!canEdit && (
+        <div className="mx-3 mt-3 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-[11px] text-red-200 flex items-start space-x-2">
+          <TriangleAlert size={12} className="shrink-0 mt-0.5" />
+          <span>Fix the {syntaxErrors} syntax problem(s) in the text to edit the tree.</span>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-0.5 custom-scrollbar">
+        {tree.root ? renderNode(tree.root, 0) : (
+          <div className="px-2 py-6 text-center text-xs text-white/30">No nodes yet. Add a [node] section to the text.</div>
+        )}
+      </div>
+
+      {selectedNode && canEdit && (
+        <div className="border-t border-white/5 p-3 space-y-2">
+          <div className="flex items-center space-x-2">
+            <button
+              type="button"
+              onClick={() => setAdding({ name: '', type: 'Node2D' })}
+              className="flex-1 flex items-center justify-center space-x-1 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-white/70 hover:text-white transition-colors"
+            >
+              <Plus size={12} />
+              <span>Add Child</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => startRenaming(selectedNode)}
+              className="flex-1 flex items-center justify-center space-x-1 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-white/70 hover:text-white transition-colors"
+            >
+              <Pencil size={12} />
+              <span>Rename</span>
+            </button>
+          </div>
+
+          {adding && (
+            <form onSubmit={handleAddSubmit} className="space-y-1.5">
+              <input
+                autoFocus
+                type="text"
+                value={adding.name}
+                onChange={(e) => setAdding({ ...adding, name: e.target.value })}
+                placeholder={`Child of ${selectedNode.name}`}
+                className="w-full bg-black/40 border border-blue-500/50 rounded-md px-2 py-1 text-xs text-white focus:outline-none"
+              />
+              <div className="flex space-x-1.5">
+                <input
+                  type="text"
+                  list="scene-node-types"
+                  value={adding.type}
+                  onChange={(e) => setAdding({ ...adding, type: e.target.value })}
+                  className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500/50"
+                />
+                <datalist id="scene-node-types">
+                  {COMMON_NODE_TYPES.map(type => <option key={type} value={type} />)}
+                </datalist>
+                <button type="submit" className="px-2 rounded-md bg-blue-600 hover:bg-blue-500 text-xs text-white">Add</button>
+                <button type="button" onClick={() => setAdding(null)} className="px-2 rounded-md bg-white/5 hover:bg-white/10 text-xs text-white/60">Cancel</button>
+              </div>
+            </form>
+          )}
+
+          <label className="block text-[10px] font-bold text-white/30 uppercase tracking-widest pt-1">Script</label>
+          <select
+            value={selectedNode.script ?? ''}
+            onChange={(e) => edit({ kind: 'attach_script', path: selectedNode.path, script: e.target.value || null })}
+            className="w-full bg-black/40 border border-white/10 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500/50"
+          >
+            <option value="">(none)</option>
+            {/* Keep a script that isn't in the workspace selectable so the current value still shows */}
+            {[...scripts, ...(selectedNode.script && !scripts.includes(selectedNode.script) ? [selectedNode.script] : [])].map(script => (
+              <option key={script} value={script}>{script}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {tree.connections.length > 0 && (
+        <div className="border-t border-white/5 p-3 max-h-40 overflow-y-auto custom-scrollbar">
+          <label className="block text-[10px] font-bold text-white/30 uppercase tracking-widest mb-1.5">Signal Connections</label>
+          <ul className="space-y-0.5">
+            {tree.connections.map((c, idx) => (
+              <li key={idx}>
+                <button
+                  type="button"
+                  onClick={() => onOpenLocation({ path, line: c.line })}
+                  className="w-full text-left px-2 py-1 rounded-md hover:bg-white/5 text-[11px] font-mono text-gray-400 hover:text-white truncate"
+                  title={`${c.from}.${c.signal} → ${c.to}.${c.method}()`}
+                >
+                  <span className="text-green-300/80">{c.from}.{c.signal}</span> → {c.to}.{c.method}()
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SceneTreePanel;
@@ -1,18 +1,23 @@
 import React from 'react';
-import { Box, Play, BrainCircuit, Bug, MessageSquare, Code2, Image as ImageIcon } from 'lucide-react';
+import { Box, Play, BrainCircuit, Bug, MessageSquare, Code2, Database, ChartColumn, History, Images, Image as ImageIcon } from 'lucide-react';
 import { ToolMode } from '../types';
 
 interface SidebarProps {
   currentMode: ToolMode;
   setMode: (mode: ToolMode) => void;
+  modelName: string;
+  onShowUsage: () => void;
+  onShowHistory: () => void;
+  onShowAssets: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentMode, setMode }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentMode, setMode, modelName, onShowUsage, onShowHistory, onShowAssets }) => {
   const navItems = [
     { mode: ToolMode.CODE_GEN, icon: Code2, label: 'Generator' },
     { mode: ToolMode.ASSET_GEN, icon: ImageIcon, label: 'Assets' },
     { mode: ToolMode.PHYSICS, icon: Box, label: 'Physics' },
     { mode: ToolMode.LOGIC, icon: BrainCircuit, label: 'Logic' },
+    { mode: ToolMode.DATA, icon: Database, label: 'Data' },
     { mode: ToolMode.DEBUGGER, icon: Bug, label: 'Debug' },
     { mode: ToolMode.CHAT, icon: MessageSquare, label: 'Chat' },
   ];
@@ -65,12 +70,38 @@ const Sidebar: React.FC<SidebarProps> = ({ currentMode, setMode }) => {
       </nav>
 
       {/* Footer Info */}
-      <div className="hidden md:flex flex-col p-6 md:p-8 border-t border-white/5 opacity-50">
-        <div className="text-[10px] uppercase tracking-widest text-white/50 mb-2">Powered By</div>
-        <div className="flex items-center space-x-2">
-            <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse"></div>
-            <span className="text-xs font-medium text-white">Gemini 3 Pro</span>
+      <div className="hidden md:flex flex-col p-6 md:p-8 border-t border-white/5">
+        <div className="opacity-50">
+          <div className="text-[10px] uppercase tracking-widest text-white/50 mb-2">Powered By</div>
+          <div className="flex items-center space-x-2">
+              <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse"></div>
+              <span className="text-xs font-medium text-white truncate">{modelName}</span>
+          </div>
         </div>
+        <button
+          onClick={onShowUsage}
+          className="mt-4 flex items-center justify-center lg:justify-start space-x-2 text-xs text-white/40 hover:text-white transition-colors"
+          title="Token usage"
+        >
+          <ChartColumn size={14} />
+          <span className="hidden lg:inline">Usage</span>
+        </button>
+        <button
+          onClick={onShowHistory}
+          className="mt-2 flex items-center justify-center lg:justify-start space-x-2 text-xs text-white/40 hover:text-white transition-colors"
+          title="Generation history"
+        >
+          <History size={14} />
+          <span className="hidden lg:inline">History</span>
+        </button>
+        <button
+          onClick={onShowAssets}
+          className="mt-2 flex items-center justify-center lg:justify-start space-x-2 text-xs text-white/40 hover:text-white transition-colors"
+          title="Asset library"
+        >
+          <Images size={14} />
+          <span className="hidden lg:inline">Assets</span>
+        </button>
       </div>
     </div>
   );
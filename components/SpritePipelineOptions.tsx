@@ -0,0 +1,192 @@
+import React from 'react';
+import { ImageSize, ProjectFile, VisualAssetKind, VisualAssetOptions } from '../types';
+import { ASPECT_RATIOS, VISUAL_ASSET_PRESETS, requestedAspectRatio, sheetSize } from '../services/sprites';
+import { CHECKERBOARD } from './ImageViewer';
+import { Grid3x3, Image as ImageIcon, LayoutGrid, Lock } from 'lucide-react';
+
+interface SpritePipelineOptionsProps {
+  value: VisualAssetOptions;
+  onChange: (value: VisualAssetOptions) => void;
+  assets: ProjectFile[]; // Images of the project, for the style lock
+  sizeSupported: boolean; // The image provider takes a resolution (the OpenAI-compatible one only has fixed sizes)
+}
+
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+const KIND_OPTIONS: { kind: VisualAssetKind; icon: React.ElementType; label: string }[] = [
+  { kind: 'image', icon: ImageIcon, label: 'Image' },
+  { kind: 'spritesheet', icon: LayoutGrid, label: 'Sprite Sheet' },
+  { kind: 'tileset', icon: Grid3x3, label: 'Tileset' },
+];
+
+const NumberField: React.FC<{ label: string; value: number; min: number; max: number; onChange: (value: number) => void }> = ({ label, value, min, max, onChange }) => (
+  <div className="space-y-1">
+    <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">{label}</label>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(Math.min(max, Math.max(min, parseInt(e.target.value) || min)))}
+      className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none"
+    />
+  </div>
+);
+
+const Select: React.FC<{ label: string; value: string; options: { value: string; label: string }[]; onChange: (value: string) => void }> = ({ label, value, options, onChange }) => (
+  <div className="space-y-1">
+    <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">{label}</label>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none"
+    >
+      {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+    </select>
+  </div>
+);
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, checked, onChange }) => (
+  <label className="flex items-center space-x-2 text-xs text-white/60 cursor-pointer select-none">
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="accent-blue-500" />
+    <span>{label}</span>
+  </label>
+);
+
+/**
+ * Layout of a visual asset: a single image, a sprite sheet (saved with a SpriteFrames resource) or a
+ * tileset atlas (saved with a TileSet resource), plus the local pixel-art processing, what is asked of
+ * the model and the assets whose style it must match.
+ */
+const SpritePipelineOptions: React.FC<SpritePipelineOptionsProps> = ({ value, onChange, assets, sizeSupported }) => {
+  const set = (patch: Partial<VisualAssetOptions>) => onChange({ ...value, ...patch });
+  const { width, height } = sheetSize(value);
+  const cell = value.kind === 'tileset' ? 'Tile' : value.kind === 'spritesheet' ? 'Frame' : 'Image';
+
+  // A single image takes the picked ratio; sheets are cropped to their grid whatever the model returns
+  const setAspectRatio = (aspectRatio: string) => {
+    if (aspectRatio === 'auto' || value.kind !== 'image') return set({ aspectRatio });
+    const [w, h] = aspectRatio.split(':').map(Number);
+    set({ aspectRatio, frameHeight: Math.round(value.frameWidth * h / w) });
+  };
+  const toggleStyleReference = (path: string) => set({
+    styleReferences: value.styleReferences.includes(path) ? value.styleReferences.filter(p => p !== path) : [...value.styleReferences, path]
+  });
+  const lockable = assets.filter(f => f.content);
+
+  return (
+    <div className="bg-white/5 border border-white/5 rounded-2xl p-4 space-y-4">
+      <div className="bg-black/20 p-1 rounded-xl flex">
+        {KIND_OPTIONS.map(option => (
+          <button
+            key={option.kind}
+            onClick={() => set({ kind: option.kind, ...VISUAL_ASSET_PRESETS[option.kind] })}
+            className={`flex-1 flex items-center justify-center space-x-2 py-2 rounded-lg text-xs font-medium transition-all ${value.kind === option.kind ? 'bg-blue-600 text-white shadow-lg' : 'text-white/40 hover:text-white'}`}
+          >
+            <option.icon size={14} />
+            <span>{option.label}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">File Name</label>
+        <input
+          value={value.name}
+          onChange={(e) => set({ name: e.target.value })}
+          placeholder="From the prompt"
+          className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none placeholder-white/20 font-mono"
+        />
+      </div>
+
+      <div className="grid grid-cols-4 gap-3">
+        {value.kind !== 'image' && (
+          <>
+            <NumberField label="Columns" value={value.columns} min={1} max={16} onChange={(columns) => set({ columns })} />
+            <NumberField label="Rows" value={value.rows} min={1} max={16} onChange={(rows) => set({ rows })} />
+          </>
+        )}
+        <NumberField label={`${cell} W`} value={value.frameWidth} min={8} max={2048} onChange={(frameWidth) => set({ frameWidth, aspectRatio: 'auto' })} />
+        <NumberField label={`${cell} H`} value={value.frameHeight} min={8} max={2048} onChange={(frameHeight) => set({ frameHeight, aspectRatio: 'auto' })} />
+      </div>
+
+      <div className={`grid ${sizeSupported ? 'grid-cols-3' : 'grid-cols-2'} gap-3`}>
+        <Select
+          label="Aspect Ratio"
+          value={value.aspectRatio}
+          options={[{ value: 'auto', label: `Auto (${requestedAspectRatio({ ...value, aspectRatio: 'auto' })})` }, ...ASPECT_RATIOS.map(ratio => ({ value: ratio, label: ratio }))]}
+          onChange={setAspectRatio}
+        />
+        {sizeSupported && <Select label="Model Size" value={value.imageSize} options={IMAGE_SIZES.map(size => ({ value: size, label: size }))} onChange={(imageSize) => set({ imageSize: imageSize as ImageSize })} />}
+        <Select
+          label="Variations"
+          value={String(value.variations)}
+          options={[1, 2, 3, 4].map(n => ({ value: String(n), label: n === 1 ? '1 image' : `${n} to pick from` }))}
+          onChange={(variations) => set({ variations: parseInt(variations) })}
+        />
+      </div>
+
+      {value.kind === 'spritesheet' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Animation</label>
+            <input
+              value={value.animationName}
+              onChange={(e) => set({ animationName: e.target.value })}
+              className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none font-mono"
+            />
+          </div>
+          <NumberField label="FPS" value={value.fps} min={1} max={60} onChange={(fps) => set({ fps })} />
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-5 gap-y-2">
+        <Toggle label="Pixel art" checked={value.pixelArt} onChange={(pixelArt) => set({ pixelArt })} />
+        {value.pixelArt && (
+          <label className="flex items-center space-x-2 text-xs text-white/60">
+            <span>Palette</span>
+            <select
+              value={value.paletteSize}
+              onChange={(e) => set({ paletteSize: parseInt(e.target.value) })}
+              className="bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg px-2 py-1 focus:border-blue-500 focus:outline-none"
+            >
+              {[4, 8, 16, 32, 64].map(colors => <option key={colors} value={colors}>{colors} colors</option>)}
+            </select>
+          </label>
+        )}
+        <Toggle label="Transparent background" checked={value.transparentBackground} onChange={(transparentBackground) => set({ transparentBackground })} />
+      </div>
+
+      {lockable.length > 0 && (
+        <div className="space-y-2">
+          <label className="flex items-center text-[10px] font-bold text-white/40 uppercase tracking-widest">
+            <Lock size={10} className="mr-1.5" />
+            Style Lock
+            {value.styleReferences.length > 0 && <span className="ml-2 text-blue-300 normal-case tracking-normal font-normal">{value.styleReferences.length} selected</span>}
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {lockable.map(file => {
+              const locked = value.styleReferences.includes(file.path);
+              return (
+                <button
+                  key={file.id}
+                  onClick={() => toggleStyleReference(file.path)}
+                  title={locked ? `${file.path}: its style is matched` : `Match the style of ${file.path}`}
+                  className={`w-12 h-12 rounded-lg border p-1 flex items-center justify-center transition-all ${locked ? 'border-blue-500 bg-blue-500/10' : 'border-white/10 bg-black/30 opacity-50 hover:opacity-100'}`}
+                >
+                  <img src={file.content} alt={file.name} style={{ ...CHECKERBOARD, imageRendering: 'pixelated' }} className="max-w-full max-h-full object-contain" />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="text-[10px] text-white/30">
+        Saved as a {width}x{height} PNG{value.kind === 'spritesheet' ? ' with a SpriteFrames resource' : value.kind === 'tileset' ? ' with a TileSet resource' : ''} next to the active file.
+      </div>
+    </div>
+  );
+};
+
+export default SpritePipelineOptions;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { LibraryEntry } from '../types';
+import { BUILTIN_VARIABLES, fillTemplate, templateVariables } from '../services/library';
+import { Play, X } from 'lucide-react';
+
+interface TemplateFormProps {
+  entry: LibraryEntry;
+  initialValues: Record<string, string>; // Built-in variables, filled from the editor and the prompt box
+  onRun: (prompt: string) => void;
+  onCancel: () => void;
+}
+
+// Multi-line values get a text area
+const MULTILINE = ['selection', 'prompt'];
+
+const labelOf = (name: string) => name.replace(/_/g, ' ');
+
+/**
+ * Fills the {{variables}} of a library entry before its prompt runs.
+ */
+const TemplateForm: React.FC<TemplateFormProps> = ({ entry, initialValues, onRun, onCancel }) => {
+  const variables = templateVariables(entry.prompt);
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(variables.map(name => [name, initialValues[name] ?? ''])));
+  const missing = variables.filter(name => !values[name]?.trim());
+
+  return (
+    <div className="bg-white/5 border border-blue-500/30 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-gray-200">{entry.title}</span>
+        <button onClick={onCancel} className="p-1 rounded text-white/30 hover:text-white transition-colors" title="Cancel">
+          <X size={12} />
+        </button>
+      </div>
+      {variables.map(name => (
+        <div key={name} className="space-y-1">
+          <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest" title={BUILTIN_VARIABLES[name]}>{labelOf(name)}</label>
+          {MULTILINE.includes(name) ? (
+            <textarea
+              value={values[name]}
+              onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+              placeholder={BUILTIN_VARIABLES[name]}
+              className="w-full h-20 bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none resize-none font-mono placeholder-white/20"
+            />
+          ) : (
+            <input
+              value={values[name]}
+              onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+              placeholder={BUILTIN_VARIABLES[name]}
+              className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none placeholder-white/20"
+            />
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => onRun(fillTemplate(entry.prompt, values))}
+        disabled={missing.length > 0}
+        title={missing.length > 0 ? `Fill in: ${missing.map(labelOf).join(', ')}` : undefined}
+        className="w-full flex items-center justify-center space-x-1.5 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors disabled:opacity-40 disabled:hover:bg-blue-600"
+      >
+        <Play size={12} />
+        <span>Run</span>
+      </button>
+    </div>
+  );
+};
+
+export default TemplateForm;
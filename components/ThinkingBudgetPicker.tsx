@@ -0,0 +1,39 @@
+import React from 'react';
+import { Brain } from 'lucide-react';
+
+interface ThinkingBudgetPickerProps {
+  value: number; // -1 = model default
+  onChange: (value: number) => void;
+}
+
+const BUDGET_OPTIONS = [
+  { value: -1, label: 'Model default' },
+  { value: 1024, label: '1K tokens' },
+  { value: 2048, label: '2K tokens' },
+  { value: 4096, label: '4K tokens' },
+  { value: 8192, label: '8K tokens' },
+  { value: 16384, label: '16K tokens' },
+  { value: 32768, label: '32K tokens' },
+];
+
+/**
+ * Reasoning budget of the current mode. Only providers with thinking models (Gemini) honour it.
+ */
+const ThinkingBudgetPicker: React.FC<ThinkingBudgetPickerProps> = ({ value, onChange }) => (
+  <div className="space-y-1">
+    <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest flex items-center">
+      <Brain size={12} className="mr-1.5" />
+      Thinking Budget
+    </label>
+    <select
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none"
+    >
+      {BUDGET_OPTIONS.some(o => o.value === value) ? null : <option value={value}>{value} tokens</option>}
+      {BUDGET_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+    </select>
+  </div>
+);
+
+export default ThinkingBudgetPicker;
@@ -1,105 +1,399 @@
-import React, { useState, useRef } from 'react';
-import { ToolMode, GodotContextType, GenerationConfig, ProjectFile, AssetOutputMode } from '../types';
-import { generateGodotCode, generateVisualAsset, analyzeError } from '../services/gemini';
-import { Loader2, Wand2, RefreshCw, Layers, Cuboid, Monitor, FileCode, FileText, Settings, Sliders, ChevronDown, ChevronUp, ImagePlus, X, Sparkles, Image as ImageIcon, ScrollText, Zap, Box, Gamepad2, Database, Palette, Droplet } from 'lucide-react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { ToolMode, GodotContextType, GenerationConfig, ProjectFile, FileChange, GenerationReport, AssetOutputMode, CodeOutputMode, ProviderConfig, ModelSelection, ShaderType, ContextPreferences, TokenUsage, GenerationRequest, GenerationRecord, VisualAssetOptions, LibraryEntry } from '../types';
+import { CodeMode, generateGodotCode, generateGodotScene, generateResourceData, resourceScriptName, generateVisualAsset, analyzeError } from '../services/architect';
+import { imageFromDataUrl, resolveTarget } from '../services/llm';
+import { estimateTokens, suggestFileName } from '../services/chat';
+import { joinPath, dirname, toResPath } from '../services/paths';
+import { languageForFile } from '../services/project';
+import { lintGDScript } from '../services/gdscript';
+import { validateScene } from '../services/tscn';
+import { resourceClassFor, validateResource } from '../services/resources';
+import { CodeLocation } from '../services/editor';
+import { buildProjectIndex } from '../services/symbols';
+import { selectContext } from '../services/context';
+import { GodotError, parseErrorLog, tracedPaths } from '../services/errorlog';
+import { DEFAULT_VISUAL_ASSET, assetBaseName, processVisualAsset, sheetSize, spriteFramesResource, tileSetResource } from '../services/sprites';
+import { imageAssets } from '../services/assets';
+import { IMAGE_TOKEN_ESTIMATE } from '../services/attachments';
+import { BUILTIN_VARIABLES, builtinValues, entriesFor, fillTemplate, templateVariables } from '../services/library';
+import ModelPicker from './ModelPicker';
+import ContextInspector from './ContextInspector';
+import ThinkingBudgetPicker from './ThinkingBudgetPicker';
+import ErrorTrace from './ErrorTrace';
+import SpritePipelineOptions from './SpritePipelineOptions';
+import MaskPainter from './MaskPainter';
+import ImageAttachments from './ImageAttachments';
+import TemplateForm from './TemplateForm';
+import { libraryIcon } from './PromptLibrary';
+import { Loader2, Square, Wand2, RefreshCw, Layers, Cuboid, Monitor, FileCode, FileText, Settings, Sliders, ChevronDown, ChevronUp, Brush, Sparkles, Image as ImageIcon, ScrollText, Zap, Droplet, Network, TriangleAlert, Pencil } from 'lucide-react';
 
 interface ToolsProps {
   mode: ToolMode;
   projectFiles: ProjectFile[];
   activeFileId: string;
-  onCodeUpdate: (code: string) => void;
+  onChangeset: (changes: FileChange[]) => void; // Generated files, reviewed before they touch the project
   onExplanation: (text: string) => void;
-  onImageGenerated: (url: string) => void;
+  onReport: (report: GenerationReport | null) => void; // Validation and self-repair details for the Insight panel
+  onCodePreview: (code: string | null) => void;
+  config: GenerationConfig;
+  onConfigChange: (config: GenerationConfig) => void;
+  providerConfig: ProviderConfig;
+  onProviderConfigChange: (config: ProviderConfig) => void;
+  contextPreferences: ContextPreferences; // Pinned / excluded files for the project context
+  onContextPreferencesChange: (preferences: ContextPreferences) => void;
+  onUsage: (mode: ToolMode, selection: ModelSelection, usage: TokenUsage) => void; // Token counts of every request sent
+  onOpenLocation: (location: CodeLocation) => void;
+  onRecord: (record: Omit<GenerationRecord, 'id' | 'timestamp'>) => void; // Every finished or failed request, for the history
+  replay: ReplayRequest | null;
+  onReplayed: () => void; // The replay was taken over, so remounting the tools doesn't run it again
+  library: LibraryEntry[]; // Prompt templates of the workspace
+  onEditLibrary: () => void;
+  editorSelection: () => string; // Text selected in the code editor, for {{selection}}
 }
 
-const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeUpdate, onExplanation, onImageGenerated }) => {
+// A past request sent back from the history: loaded into the form, and run right away when `run` is set
+export interface ReplayRequest {
+  id: string; // New for every replay, so the same record can be replayed twice
+  request: GenerationRequest;
+  run: boolean;
+}
+
+// What a request produces, from its mode and output settings
+const requestTargets = ({ mode, godotContext, assetOutputMode, codeOutputMode }: Pick<GenerationRequest, 'mode' | 'godotContext' | 'assetOutputMode' | 'codeOutputMode'>) => {
+  // Visual assets use the dedicated image model; every other request uses the text model of the current mode
+  const isImageOutput = mode === ToolMode.ASSET_GEN && assetOutputMode === 'image';
+  // The context picker is hidden in Assets mode, so a Shader context picked elsewhere doesn't apply there
+  const isShaderTarget = godotContext === 'Shader' && mode !== ToolMode.ASSET_GEN && mode !== ToolMode.DEBUGGER && mode !== ToolMode.DATA;
+  const canOutputScene = mode === ToolMode.CODE_GEN || mode === ToolMode.PHYSICS || mode === ToolMode.LOGIC;
+  // Reference images are sent with visual assets, scripts and scenes; data and debugging requests are text only
+  const acceptsImages = mode === ToolMode.ASSET_GEN || canOutputScene;
+  return { isImageOutput, isShaderTarget, canOutputScene, acceptsImages, isSceneOutput: canOutputScene && codeOutputMode === 'scene' && !isShaderTarget };
+};
+
+const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onChangeset, onExplanation, onReport, onCodePreview, config, onConfigChange, providerConfig, onProviderConfigChange, contextPreferences, onContextPreferencesChange, onUsage, onOpenLocation, onRecord, replay, onReplayed, library, onEditLibrary, editorSelection }) => {
   const [prompt, setPrompt] = useState('');
   const [referenceInput, setReferenceInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [errorInput, setErrorInput] = useState('');
   const [godotContext, setGodotContext] = useState<GodotContextType>('2D');
   const [assetOutputMode, setAssetOutputMode] = useState<AssetOutputMode>('script');
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [codeOutputMode, setCodeOutputMode] = useState<CodeOutputMode>('script');
+  const [visualAsset, setVisualAsset] = useState<VisualAssetOptions>(DEFAULT_VISUAL_ASSET);
+  const [selectedImages, setSelectedImages] = useState<string[]>([]);
+  const [mask, setMask] = useState<string | null>(null);
+  const [paintingMask, setPaintingMask] = useState(false);
+  const [templateEntry, setTemplateEntry] = useState<LibraryEntry | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   
   const [showSettings, setShowSettings] = useState(false);
-  const [config, setConfig] = useState<GenerationConfig>({
-    creativity: 0.5,
-    verbosity: 'standard',
-    typing: 'strict',
-    architecture: 'default'
-  });
 
   const currentFile = projectFiles.find(f => f.id === activeFileId);
 
-  const handleAction = async (customPrompt?: string) => {
-    const finalPrompt = customPrompt || prompt;
-    if (!finalPrompt.trim() && mode !== ToolMode.DEBUGGER && !referenceInput.trim() && !selectedImage) return;
+  const { isImageOutput, isShaderTarget, canOutputScene, acceptsImages, isSceneOutput } = requestTargets({ mode, godotContext, assetOutputMode, codeOutputMode });
+  const modelSelection = isImageOutput ? providerConfig.image : providerConfig.modes[mode];
+  // Shader entries are only offered when the request produces a shader
+  const libraryEntries = entriesFor(library, mode, isImageOutput ? 'image' : 'code', isShaderTarget || godotContext !== 'Shader' ? godotContext : '2D');
+  // Data requests only look at Resource scripts
+  const usesProjectContext = !isImageOutput && mode !== ToolMode.DATA;
+
+  // The debugger reads the pasted log (or the prompt, when that's where the log went)
+  const errorLog = errorInput || prompt;
+  const parsedErrors = useMemo(() => mode === ToolMode.DEBUGGER ? parseErrorLog(errorLog, projectFiles) : [], [mode, errorLog, projectFiles]);
+  const projectIndex = useMemo(() => buildProjectIndex(projectFiles), [projectFiles]);
+  const contextFor = (query: string, fileId = activeFileId, errors: GodotError[] = parsedErrors) =>
+    selectContext(projectFiles, fileId, query, contextPreferences, { index: projectIndex, traced: tracedPaths(errors) });
+  const contextPreview = useMemo(
+    () => usesProjectContext ? contextFor(mode === ToolMode.DEBUGGER ? `${errorInput}\n${prompt}` : prompt) : null,
+    [usesProjectContext, projectFiles, activeFileId, prompt, errorInput, contextPreferences, projectIndex, parsedErrors]
+  );
+
+  // Pre-flight size of the request: project context (or the files the mode reads) plus what the user typed
+  const estimateRequestTokens = (text: string) => {
+    const context = contextPreview ? contextPreview.usedTokens
+      : mode === ToolMode.DATA ? estimateTokens(projectFiles.filter(f => f.language === 'gdscript' && /^extends\s+Resource\b/m.test(f.content)).map(f => f.content).join(''))
+      : 0;
+    const images = acceptsImages ? selectedImages.length + (isImageOutput ? visualAsset.styleReferences.length : 0) : 0;
+    return context + estimateTokens(text + referenceInput + (mode === ToolMode.DEBUGGER ? errorInput : '')) + images * IMAGE_TOKEN_ESTIMATE;
+  };
+  const estimatedTokens = estimateRequestTokens(prompt);
+
+  const handleModelSelectionChange = (selection: ModelSelection) => {
+    if (isImageOutput) onProviderConfigChange({ ...providerConfig, image: selection });
+    else onProviderConfigChange({ ...providerConfig, modes: { ...providerConfig.modes, [mode]: selection } });
+  };
+
+  // Generated scripts, scenes and resources are checked locally before they are reviewed
+  const reportFor = (changes: FileChange[], repairs: GenerationReport['repairs'], requestConfig = config): GenerationReport => {
+    const knownPaths = [...projectFiles.map(f => f.path), ...changes.map(c => c.path)];
+    // Instances are checked against the class as it will be once the changeset is applied
+    const pending = [...changes, ...projectFiles.filter(f => !changes.some(c => c.path === f.path))];
+    return {
+      validation: changes.filter(c => c.language === 'gdscript' || c.language === 'scene' || c.language === 'resource').map(c => ({
+        path: c.path,
+        diagnostics: c.language === 'scene' ? validateScene(c.content, knownPaths)
+          : c.language === 'resource' ? validateResource(c.content, knownPaths, resourceClassFor(c.content, pending))
+          : lintGDScript(c.content, { strictTyping: requestConfig.typing === 'strict' })
+      })),
+      repairs
+    };
+  };
+
+  // Other files of a result; the file extension decides the language, whatever the model labelled it
+  const addResultFiles = (changes: FileChange[], files: FileChange[] = []) => {
+    files.forEach(file => {
+      const path = toResPath(file.path);
+      if (!changes.some(c => c.path === path)) changes.push({ path, language: languageForFile(path), content: file.content });
+    });
+    return changes;
+  };
+
+  // The form as a request, so it can be recorded and replayed
+  const formRequest = (customPrompt?: string): GenerationRequest => ({
+    mode,
+    prompt: customPrompt || prompt,
+    referenceInput,
+    errorInput,
+    images: acceptsImages ? selectedImages : [],
+    mask: acceptsImages && selectedImages.length > 0 ? mask : null,
+    godotContext,
+    assetOutputMode,
+    codeOutputMode,
+    visualAsset,
+    config,
+    model: modelSelection,
+    activePath: currentFile?.path || ''
+  });
+
+  const handleAction = (customPrompt?: string) => {
+    const request = formRequest(customPrompt);
+    if (loading || (!request.prompt.trim() && mode !== ToolMode.DEBUGGER && !referenceInput.trim() && request.images.length === 0)) return;
+    const requestTokens = estimateRequestTokens(request.prompt);
+    if (requestTokens > config.promptTokenWarning &&
+        !window.confirm(`This request is about ${requestTokens.toLocaleString()} tokens, above your warning threshold of ${config.promptTokenWarning.toLocaleString()}. Send it anyway?`)) return;
+    runRequest(request);
+  };
+
+  // Entries whose variables all come from the editor run right away; anything else is asked for first
+  const handleLibraryEntry = (entry: LibraryEntry) => {
+    const values = builtinValues(currentFile, editorSelection(), prompt);
+    const variables = templateVariables(entry.prompt);
+    if (variables.every(name => BUILTIN_VARIABLES[name] && values[name].trim())) handleAction(fillTemplate(entry.prompt, values));
+    else setTemplateEntry(entry);
+  };
+
+  // Everything comes from the request rather than the form: replayed requests carry their own inputs, model and settings
+  const runRequest = async (request: GenerationRequest) => {
+    const { mode, prompt: finalPrompt, referenceInput, errorInput, images, mask, godotContext, visualAsset, config } = request;
+    const { isImageOutput, isShaderTarget, isSceneOutput } = requestTargets(request);
+    // Replays target the file they were made for, as long as it still exists
+    const currentFile = projectFiles.find(f => f.path === request.activePath) ?? projectFiles.find(f => f.id === activeFileId);
+    const targetFileId = currentFile?.id ?? activeFileId;
+    if (currentFile?.language === 'image' && !isImageOutput && mode !== ToolMode.DATA) {
+        onExplanation(`Error: ${currentFile.path} is an image. Open a script or scene to generate code for it.`);
+        return;
+    }
     setLoading(true);
     onExplanation(''); 
+    onReport(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let output: Pick<GenerationRecord, 'explanation' | 'changes' | 'imageUrl' | 'report'> | null = null;
 
     try {
-        let rawBase64 = undefined;
-        if (selectedImage) {
-            rawBase64 = selectedImage.split(',')[1];
-        }
+        const referenceImages = images.map(imageFromDataUrl);
+        const target = resolveTarget(request.model, providerConfig);
+        const onRequestUsage = (usage: TokenUsage) => onUsage(mode, request.model, usage);
 
         // Handle Image Generation (Visual Asset)
-        if (mode === ToolMode.ASSET_GEN && assetOutputMode === 'image') {
+        if (isImageOutput) {
             const effectivePrompt = finalPrompt || "A high quality game asset.";
-            const imageUrl = await generateVisualAsset(effectivePrompt, rawBase64);
-            onImageGenerated(imageUrl);
-            onExplanation(`Generated visual asset based on: ${effectivePrompt}`);
+            // Style lock: the accepted assets the new one must match, as long as they are still in the project
+            const styleReferences = visualAsset.styleReferences
+                .map(path => projectFiles.find(f => f.path === path && f.language === 'image' && f.content))
+                .filter((f): f is ProjectFile => !!f)
+                .map(f => imageFromDataUrl(f.content));
+            const inputs = {
+                references: referenceImages,
+                mask: mask ? imageFromDataUrl(mask) : undefined,
+                styleReferences
+            };
+            // Variations are separate requests, so every provider can return several
+            // A failed variation doesn't discard the others, which are already paid for
+            const settled = await Promise.allSettled(Array.from({ length: Math.max(1, visualAsset.variations) }, () =>
+                generateVisualAsset(target, effectivePrompt, visualAsset, inputs, { signal: controller.signal, onUsage: onRequestUsage })
+            ));
+            const generated = settled.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+            const failures = settled.flatMap(r => r.status === 'rejected' ? [r.reason] : []);
+            if (generated.length === 0) throw failures[0];
+            // Cropped, scaled and quantized locally, then saved next to the active file with its Godot resource
+            const variants = await Promise.all(generated.map(url => processVisualAsset(url, visualAsset)));
+            const imageUrl = variants[0];
+            const folder = dirname(currentFile?.path || 'res://');
+            const name = assetBaseName(visualAsset, effectivePrompt);
+            const texturePath = joinPath(folder, `${name}.png`);
+            const changes: FileChange[] = [{
+                path: texturePath,
+                language: 'image',
+                content: imageUrl,
+                source: { prompt: effectivePrompt, request, createdAt: Date.now() },
+                ...(variants.length > 1 && { variants })
+            }];
+            if (visualAsset.kind === 'spritesheet') {
+                changes.push({ path: joinPath(folder, `${name}_frames.tres`), language: 'resource', content: spriteFramesResource(texturePath, visualAsset) });
+            } else if (visualAsset.kind === 'tileset') {
+                changes.push({ path: joinPath(folder, `${name}_tileset.tres`), language: 'resource', content: tileSetResource(texturePath, visualAsset) });
+            }
+            const { width, height } = sheetSize(visualAsset);
+            const explanation = [
+                `${images.length > 0 && mask ? 'Edited (masked area only)' : 'Generated'} ${variants.length > 1 ? `${variants.length} variations of ` : ''}${visualAsset.kind === 'spritesheet' ? 'a sprite sheet' : visualAsset.kind === 'tileset' ? 'a tileset' : 'a visual asset'} (${width}x${height} px) based on: ${effectivePrompt}`,
+                styleReferences.length > 0 ? `Style matched to: ${visualAsset.styleReferences.filter(path => projectFiles.some(f => f.path === path)).join(', ')}` : '',
+                variants.length > 1 ? 'Pick the variation to keep in the review.' : '',
+                failures.length > 0 ? `${failures.length} of ${settled.length} variations failed: ${failures[0] instanceof Error ? failures[0].message : 'Unknown error'}` : '',
+                visualAsset.pixelArt ? "Set texture_filter to Nearest on the nodes that draw it (or change the project's default texture filter) to keep the pixels crisp." : ''
+            ].filter(Boolean).join('\n\n');
+            const report = reportFor(changes, [], config);
+            onChangeset(changes);
+            onExplanation(explanation);
+            onReport(report);
+            output = { explanation, changes, imageUrl, report };
         } 
         // Handle Code/Script Generation
         else {
             let result;
             if (mode === ToolMode.DEBUGGER) {
-                 const analysis = await analyzeError(errorInput || finalPrompt, currentFile?.content || '');
-                 onExplanation(analysis || 'No analysis returned.');
+                 const notes = errorInput ? finalPrompt : '';
+                 const errors = parseErrorLog(errorInput || finalPrompt, projectFiles);
+                 const analysis = await analyzeError(
+                     target,
+                     errorInput || finalPrompt,
+                     notes,
+                     projectFiles,
+                     targetFileId,
+                     config,
+                     contextFor(`${errorInput}\n${notes}`, targetFileId, errors),
+                     { signal: controller.signal, onChunk: onExplanation, onUsage: onRequestUsage }
+                 );
+                 const faultFile = projectFiles.find(f => f.path === analysis.path);
+                 const changes = addResultFiles(
+                     faultFile ? [{ path: faultFile.path, language: faultFile.language, content: analysis.code }] : [],
+                     analysis.files
+                 // Files returned as they were are not part of the fix
+                 ).filter(c => projectFiles.find(f => f.path === c.path)?.content !== c.content);
+                 const report = reportFor(changes, analysis.repairs || [], config);
+                 onExplanation(analysis.explanation);
+                 if (changes.length > 0) onChangeset(changes);
+                 onReport(report);
+                 output = { explanation: analysis.explanation, changes, report };
+            } else if (mode === ToolMode.DATA) {
+                // The class goes next to the active file, its instances in a subfolder the model names
+                const folder = dirname(currentFile?.path || 'res://');
+                result = await generateResourceData(
+                    target,
+                    finalPrompt || "Create a Resource class and one instance per record of the sample data.",
+                    referenceInput,
+                    projectFiles,
+                    folder,
+                    config,
+                    { signal: controller.signal, onChunk: onCodePreview, onUsage: onRequestUsage }
+                );
+                const changes = addResultFiles([{ path: joinPath(folder, resourceScriptName(result)), language: 'gdscript', content: result.code }], result.files);
+                const report = reportFor(changes, result.repairs || [], config);
+                onChangeset(changes);
+                onExplanation(result.explanation);
+                onReport(report);
+                output = { explanation: result.explanation, changes, report };
             } else {
-                let genMode: 'physics' | 'logic' | 'general' | 'asset' = 'general';
+                let genMode: CodeMode = 'general';
                 if (mode === ToolMode.PHYSICS) genMode = 'physics';
                 else if (mode === ToolMode.LOGIC) genMode = 'logic';
                 else if (mode === ToolMode.ASSET_GEN) genMode = 'asset';
                 
                 let effectivePrompt = finalPrompt;
                 if (!effectivePrompt && referenceInput) effectivePrompt = "Replicate the functionality of the reference material in Godot 4.";
-                if (!effectivePrompt && selectedImage) effectivePrompt = "Analyze this image and create the corresponding Godot 4 assets/scripts.";
+                if (!effectivePrompt && images.length > 0) effectivePrompt = `Analyze ${images.length > 1 ? 'these images' : 'this image'} and create the corresponding Godot 4 assets/scripts.`;
                 
-                result = await generateGodotCode(
+                const requestOptions = { signal: controller.signal, onChunk: onCodePreview, onUsage: onRequestUsage };
+                const context = selectContext(projectFiles, targetFileId, effectivePrompt, contextPreferences, { index: projectIndex });
+                result = isSceneOutput
+                  ? await generateGodotScene(target, effectivePrompt, projectFiles, targetFileId, genMode, godotContext, config, referenceImages, context, requestOptions)
+                  : await generateGodotCode(
+                    target,
                     effectivePrompt, 
                     projectFiles,
-                    activeFileId,
+                    targetFileId,
                     genMode, 
-                    godotContext, 
+                    isShaderTarget || godotContext !== 'Shader' ? godotContext : '2D', 
                     referenceInput, 
                     config, 
-                    rawBase64
+                    referenceImages,
+                    context,
+                    requestOptions
                 );
     
                 if (result) {
-                    onCodeUpdate(result.code);
+                    const changes: FileChange[] = [];
+                    // Scenes go into a .tscn next to the script they were built around
+                    if (isSceneOutput) {
+                        const fileName = (result.fileName || suggestFileName(result.code, 'scene')).replace(/\.\w+$/, '') + '.tscn';
+                        changes.push({ path: joinPath(dirname(currentFile?.path || 'res://'), fileName), language: 'scene', content: result.code });
+                    }
+                    // Shaders are never written into a script: they get a .gdshader of their own next to it
+                    else if (isShaderTarget && currentFile?.language !== 'shader') {
+                        const fileName = (result.fileName || suggestFileName(result.code, 'shader')).replace(/\.\w+$/, '') + '.gdshader';
+                        changes.push({ path: joinPath(dirname(currentFile?.path || 'res://'), fileName), language: 'shader', content: result.code });
+                    } else if (currentFile) {
+                        changes.push({ path: currentFile.path, language: currentFile.language, content: result.code });
+                    }
+                    addResultFiles(changes, result.files);
+                    const report = reportFor(changes, result.repairs || [], config);
+                    onChangeset(changes);
                     onExplanation(result.explanation);
+                    onReport(report);
+                    output = { explanation: result.explanation, changes, report };
                 }
             }
         }
+        if (output) onRecord({ request, status: 'done', ...output });
     } catch (e) {
-      onExplanation(`Error: ${e instanceof Error ? e.message : 'Unknown error occurred'}`);
+      if (controller.signal.aborted) onExplanation('Generation stopped. No files were changed.');
+      else {
+        const message = e instanceof Error ? e.message : 'Unknown error occurred';
+        onExplanation(`Error: ${message}`);
+        onRecord({ request, status: 'error', explanation: message, changes: [] });
+      }
     } finally {
+      abortRef.current = null;
+      onCodePreview(null);
       setLoading(false);
     }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setSelectedImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
+  const handleStop = () => abortRef.current?.abort();
+
+  // Loads a request sent from the history into the form. Settings and models are left alone: a re-run uses
+  // the recorded ones, an edited request whatever is set now
+  useEffect(() => {
+    if (!replay) return;
+    const { request } = replay;
+    setPrompt(request.prompt);
+    setReferenceInput(request.referenceInput);
+    setErrorInput(request.errorInput);
+    setSelectedImages(request.images);
+    setMask(request.mask);
+    setPaintingMask(false);
+    setGodotContext(request.godotContext);
+    setAssetOutputMode(request.assetOutputMode);
+    setCodeOutputMode(request.codeOutputMode);
+    setVisualAsset(request.visualAsset);
+    onReplayed();
+    if (replay.run && !loading) runRequest(request);
+  }, [replay?.id]);
+
+  // The mask belongs to the first image, so it goes when that image does
+  const handleImagesChange = (images: string[]) => {
+    if (images[0] !== selectedImages[0]) setMask(null);
+    setSelectedImages(images);
   };
 
   const placeholders = {
@@ -107,6 +401,7 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
     [ToolMode.ASSET_GEN]: assetOutputMode === 'script' ? "Describe procedural mesh/object logic..." : "Describe the texture, sprite, or model look...",
     [ToolMode.PHYSICS]: "Describe physics behavior...",
     [ToolMode.LOGIC]: "Describe game logic...",
+    [ToolMode.DATA]: "Describe the data, e.g. 'Item database: name, icon, damage, rarity (common/rare/epic)'...",
     [ToolMode.DEBUGGER]: "Paste your stack trace...",
   };
 
@@ -115,6 +410,13 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
     { type: '3D', icon: Cuboid, label: '3D' },
     { type: 'UI', icon: Monitor, label: 'UI' },
     { type: 'Logic', icon: FileCode, label: 'Code' },
+    { type: 'Shader', icon: Droplet, label: 'Shader' },
+  ];
+
+  const shaderTypeOptions: { type: ShaderType; label: string }[] = [
+    { type: 'canvas_item', label: 'Canvas Item' },
+    { type: 'spatial', label: 'Spatial' },
+    { type: 'particles', label: 'Particles' },
   ];
 
   if (mode === ToolMode.CHAT) return null;
@@ -126,7 +428,8 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
         <h2 className="text-3xl font-light text-white tracking-tight flex items-center">
             {mode === ToolMode.PHYSICS && "Physics"}
             {mode === ToolMode.LOGIC && "Logic"}
-            {mode === ToolMode.CODE_GEN && "Script"}
+            {mode === ToolMode.DATA && "Data"}
+            {mode === ToolMode.CODE_GEN && (isShaderTarget ? "Shader" : "Script")}
             {mode === ToolMode.ASSET_GEN && "Assets"}
             {mode === ToolMode.DEBUGGER && "Debugger"}
             {mode !== ToolMode.DEBUGGER && <span className="ml-2 opacity-30 font-thin">Engine</span>}
@@ -134,7 +437,7 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
         {mode !== ToolMode.DEBUGGER && (
              <div className="flex items-center space-x-2 text-white/40 font-light text-sm">
                  <FileCode size={14} className="text-blue-400"/>
-                 <span>Editing: <span className="text-white/80 font-medium">{currentFile?.name}</span></span>
+                 <span>Editing: <span className="text-white/80 font-medium">{currentFile?.path}</span></span>
             </div>
         )}
       </div>
@@ -159,10 +462,12 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
          </div>
       )}
 
-      {mode !== ToolMode.DEBUGGER && mode !== ToolMode.ASSET_GEN && (
+      {isImageOutput && <SpritePipelineOptions value={visualAsset} onChange={setVisualAsset} assets={imageAssets(projectFiles)} sizeSupported={providerConfig.image.provider !== 'openai-compatible'} />}
+
+      {mode !== ToolMode.DEBUGGER && mode !== ToolMode.ASSET_GEN && mode !== ToolMode.DATA && (
         <div className="space-y-3">
             <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest pl-1">Target Context</label>
-            <div className="grid grid-cols-4 gap-3">
+            <div className="grid grid-cols-5 gap-3">
                 {contextOptions.map((opt) => (
                     <button
                         key={opt.type}
@@ -179,6 +484,37 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
                     </button>
                 ))}
             </div>
+            {canOutputScene && !isShaderTarget && (
+                <div className="bg-white/5 p-1 rounded-xl flex">
+                    <button
+                        onClick={() => setCodeOutputMode('script')}
+                        className={`flex-1 flex items-center justify-center space-x-2 py-2 rounded-lg text-xs font-medium transition-all ${codeOutputMode === 'script' ? 'bg-blue-600 text-white shadow-lg' : 'text-white/40 hover:text-white'}`}
+                    >
+                        <ScrollText size={14} />
+                        <span>Script</span>
+                    </button>
+                    <button
+                        onClick={() => setCodeOutputMode('scene')}
+                        className={`flex-1 flex items-center justify-center space-x-2 py-2 rounded-lg text-xs font-medium transition-all ${codeOutputMode === 'scene' ? 'bg-blue-600 text-white shadow-lg' : 'text-white/40 hover:text-white'}`}
+                    >
+                        <Network size={14} />
+                        <span>Scene (.tscn)</span>
+                    </button>
+                </div>
+            )}
+            {isShaderTarget && (
+                <div className="bg-white/5 p-1 rounded-xl flex">
+                    {shaderTypeOptions.map(opt => (
+                        <button
+                            key={opt.type}
+                            onClick={() => onConfigChange({ ...config, shaderType: opt.type })}
+                            className={`flex-1 py-2 rounded-lg text-xs font-medium transition-all ${config.shaderType === opt.type ? 'bg-blue-600 text-white shadow-lg' : 'text-white/40 hover:text-white'}`}
+                        >
+                            {opt.label}
+                        </button>
+                    ))}
+                </div>
+            )}
         </div>
       )}
 
@@ -195,49 +531,37 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
                     placeholder="Paste Error Log here..."
                     className="w-full h-32 input-glass rounded-2xl p-4 text-sm text-gray-200 focus:outline-none resize-none font-mono placeholder-white/20"
                 />
+                {parsedErrors.length > 0 && <ErrorTrace errors={parsedErrors} onOpenLocation={onOpenLocation} />}
             </div>
         )}
 
-        {/* Asset Gen Image */}
-        {mode === ToolMode.ASSET_GEN && (
+        {/* Reference Images */}
+        {acceptsImages && (
              <div className="space-y-3">
-                <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest pl-1">Reference Visual</label>
-                <div 
-                    className={`relative w-full border border-dashed rounded-2xl flex flex-col items-center justify-center p-6 transition-all duration-300 group overflow-hidden ${
-                        selectedImage ? 'border-blue-500/50 bg-blue-500/5' : 'border-white/10 bg-white/5 hover:bg-white/10'
-                    }`}
-                >
-                    <input 
-                        type="file" 
-                        accept="image/*" 
-                        ref={fileInputRef}
-                        onChange={handleImageUpload}
-                        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
-                    />
-                    
-                    {selectedImage ? (
-                        <div className="relative w-full flex justify-center z-10">
-                             <img src={selectedImage} alt="Reference" className="max-h-40 rounded-lg shadow-2xl" />
-                             <button 
-                                onClick={(e) => {
-                                    e.preventDefault();
-                                    setSelectedImage(null);
-                                    if (fileInputRef.current) fileInputRef.current.value = '';
-                                }}
-                                className="absolute -top-2 -right-2 bg-black/50 backdrop-blur text-white rounded-full p-1.5 hover:bg-red-500 transition-colors"
-                             >
-                                <X size={12} />
-                             </button>
-                        </div>
-                    ) : (
-                        <div className="text-center text-white/40 group-hover:text-white/60 transition-colors">
-                             <div className="w-12 h-12 rounded-full bg-white/5 flex items-center justify-center mx-auto mb-3 border border-white/5">
-                                 <ImagePlus size={20} />
-                             </div>
-                             <span className="text-sm font-medium">Drop Reference Image</span>
+                <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest pl-1">{mode === ToolMode.ASSET_GEN ? 'Reference Visuals' : 'Reference Images'}</label>
+                {selectedImages.length > 0 && paintingMask ? (
+                    <MaskPainter imageUrl={selectedImages[0]} mask={mask} onChange={setMask} onClose={() => setPaintingMask(false)} />
+                ) : (
+                    <ImageAttachments images={selectedImages} onChange={handleImagesChange} mask={isImageOutput ? mask : null} />
+                )}
+                {selectedImages.length > 0 && isImageOutput && !paintingMask && (
+                    <div className="flex items-center justify-between pl-1">
+                        <span className="text-[10px] text-white/30">{mask ? 'Only the masked area of the first image is changed.' : 'The images are used as references.'}</span>
+                        <div className="flex items-center space-x-2">
+                            {mask && (
+                                <button onClick={() => setMask(null)} className="text-[10px] text-white/40 hover:text-red-300 transition-colors">Clear mask</button>
+                            )}
+                            <button
+                                onClick={() => setPaintingMask(true)}
+                                className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-[11px] text-white/60 hover:text-white border border-white/5 transition-colors"
+                                title="Paint the area of the first image to change"
+                            >
+                                <Brush size={11} />
+                                <span>{mask ? 'Edit mask' : 'Paint mask'}</span>
+                            </button>
                         </div>
-                    )}
-                </div>
+                    </div>
+                )}
             </div>
         )}
 
@@ -246,13 +570,13 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
             <div className="space-y-3">
                 <div className="flex items-center justify-between pl-1">
                     <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">
-                        {mode === ToolMode.ASSET_GEN ? "Specifics" : "Context / Reference"}
+                        {mode === ToolMode.ASSET_GEN ? "Specifics" : mode === ToolMode.DATA ? "Sample Data (JSON / CSV)" : "Context / Reference"}
                     </label>
                 </div>
                 <textarea
                     value={referenceInput}
                     onChange={(e) => setReferenceInput(e.target.value)}
-                    placeholder={mode === ToolMode.ASSET_GEN ? "E.g. 'Cyberpunk aesthetic, neon lights...'" : "Paste Unity/Unreal code or documentation..."}
+                    placeholder={mode === ToolMode.ASSET_GEN ? "E.g. 'Cyberpunk aesthetic, neon lights...'" : mode === ToolMode.DATA ? 'name,damage,rarity\nSword,12,common\nBow,8,rare' : "Paste Unity/Unreal code or documentation..."}
                     className="w-full h-20 input-glass rounded-2xl p-4 text-sm text-gray-200 focus:outline-none resize-none font-mono placeholder-white/20"
                 />
             </div>
@@ -267,7 +591,7 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
                 <textarea
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
-                    placeholder={placeholders[mode]}
+                    placeholder={isSceneOutput ? "Describe the scene to build around this script..." : placeholders[mode]}
                     className="w-full h-32 input-glass rounded-2xl p-4 text-sm text-gray-200 focus:outline-none resize-none placeholder-white/20"
                 />
                 <div className="absolute bottom-3 right-3">
@@ -285,6 +609,31 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
         {/* Configuration Panel (Collapsible) */}
         {showSettings && (
             <div className="bg-white/5 border border-white/5 rounded-2xl p-5 space-y-5 animate-in fade-in slide-in-from-top-2 duration-200">
+                <ModelPicker
+                    selection={modelSelection}
+                    providerConfig={providerConfig}
+                    onSelectionChange={handleModelSelectionChange}
+                    onProviderConfigChange={onProviderConfigChange}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                    {!isImageOutput && (
+                        <ThinkingBudgetPicker
+                            value={config.thinkingBudgets[mode]}
+                            onChange={(budget) => onConfigChange({ ...config, thinkingBudgets: { ...config.thinkingBudgets, [mode]: budget } })}
+                        />
+                    )}
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Warn Above (Tokens)</label>
+                        <input
+                            type="number"
+                            min="1000"
+                            step="1000"
+                            value={config.promptTokenWarning}
+                            onChange={(e) => onConfigChange({ ...config, promptTokenWarning: Math.max(1000, parseInt(e.target.value) || 0) })}
+                            className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none"
+                        />
+                    </div>
+                </div>
                 <div className="space-y-2">
                     <div className="flex justify-between text-[10px] font-bold text-white/40 uppercase tracking-widest">
                         <span>Conservative</span>
@@ -296,7 +645,7 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
                         max="1" 
                         step="0.1"
                         value={config.creativity}
-                        onChange={(e) => setConfig({...config, creativity: parseFloat(e.target.value)})}
+                        onChange={(e) => onConfigChange({...config, creativity: parseFloat(e.target.value)})}
                         className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-blue-500"
                     />
                 </div>
@@ -305,7 +654,7 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
                         <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Typing</label>
                         <select 
                             value={config.typing}
-                            onChange={(e) => setConfig({...config, typing: e.target.value as any})}
+                            onChange={(e) => onConfigChange({...config, typing: e.target.value as any})}
                             className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none"
                         >
                             <option value="strict">Strict</option>
@@ -316,7 +665,7 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
                         <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Comments</label>
                         <select 
                             value={config.verbosity}
-                            onChange={(e) => setConfig({...config, verbosity: e.target.value as any})}
+                            onChange={(e) => onConfigChange({...config, verbosity: e.target.value as any})}
                             className="w-full bg-black/30 border border-white/10 text-gray-300 text-xs rounded-lg p-2.5 focus:border-blue-500 focus:outline-none"
                         >
                             <option value="standard">Standard</option>
@@ -325,100 +674,110 @@ const Tools: React.FC<ToolsProps> = ({ mode, projectFiles, activeFileId, onCodeU
                         </select>
                     </div>
                 </div>
+                <div className="space-y-2">
+                    <div className="flex justify-between text-[10px] font-bold text-white/40 uppercase tracking-widest">
+                        <span>Self-Repair Retries</span>
+                        <span className="text-white/60">{config.maxRepairAttempts === 0 ? 'Off' : config.maxRepairAttempts}</span>
+                    </div>
+                    <input 
+                        type="range" 
+                        min="0" 
+                        max="5" 
+                        step="1"
+                        value={config.maxRepairAttempts}
+                        onChange={(e) => onConfigChange({...config, maxRepairAttempts: parseInt(e.target.value)})}
+                        className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                </div>
+            </div>
+        )}
+
+        {contextPreview && (
+            <ContextInspector
+                selection={contextPreview}
+                activePath={currentFile?.path}
+                preferences={contextPreferences}
+                onPreferencesChange={onContextPreferencesChange}
+            />
+        )}
+
+        {estimatedTokens > config.promptTokenWarning && (
+            <div className="px-3 py-2 rounded-xl bg-amber-500/10 border border-amber-500/20 text-[11px] text-amber-200 flex items-center space-x-2">
+                <TriangleAlert size={12} className="shrink-0" />
+                <span>~{estimatedTokens.toLocaleString()} tokens, above the {config.promptTokenWarning.toLocaleString()} warning threshold. Exclude files or shorten the input to reduce it.</span>
             </div>
         )}
 
         <button
-          onClick={() => handleAction()}
-          disabled={loading || ((!prompt && !referenceInput && !selectedImage) && mode !== ToolMode.DEBUGGER)}
-          className={`w-full py-4 rounded-2xl flex items-center justify-center space-x-2 font-medium transition-all duration-300 text-sm tracking-wide
+          onClick={() => loading ? handleStop() : handleAction()}
+          disabled={!loading && ((!prompt && !referenceInput && !(acceptsImages && selectedImages.length > 0)) && mode !== ToolMode.DEBUGGER)}
+          className={`group w-full py-4 rounded-2xl flex items-center justify-center space-x-2 font-medium transition-all duration-300 text-sm tracking-wide
             ${loading 
-                ? 'bg-white/5 text-white/30 cursor-not-allowed border border-white/5' 
+                ? 'bg-white/5 text-white/50 border border-white/5 hover:bg-red-500/10 hover:text-red-300 hover:border-red-500/30' 
                 : 'bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-400 text-white shadow-lg shadow-blue-500/20 hover:shadow-blue-500/30'
             }`}
         >
           {loading ? (
             <>
-              <Loader2 className="animate-spin" size={18} />
-              <span>Processing...</span>
+              <Loader2 className="animate-spin group-hover:hidden" size={18} />
+              <Square className="hidden group-hover:block fill-current" size={14} />
+              <span>Stop</span>
             </>
           ) : (
             <>
               <Sparkles size={18} className={mode === ToolMode.DEBUGGER ? "" : "fill-white/20"} />
-              <span>{mode === ToolMode.DEBUGGER ? "Analyze" : (mode === ToolMode.ASSET_GEN && assetOutputMode === 'image' ? "Generate Image" : "Generate Code")}</span>
+              <span>{mode === ToolMode.DEBUGGER ? "Analyze" : (mode === ToolMode.ASSET_GEN && assetOutputMode === 'image' ? "Generate Image" : isSceneOutput ? "Generate Scene" : mode === ToolMode.DATA ? "Generate Data" : "Generate Code")}</span>
             </>
           )}
         </button>
       </div>
 
       {/* Smart Library / Behavior Injector */}
-      {mode !== ToolMode.DEBUGGER && (
+      {mode !== ToolMode.DEBUGGER && mode !== ToolMode.DATA && (
          <div className="pt-2">
             <h3 className="text-[10px] font-bold text-white/30 uppercase tracking-widest mb-3 pl-1 flex items-center">
                 <Zap size={12} className="mr-1.5" />
-                {mode === ToolMode.ASSET_GEN && assetOutputMode === 'image' ? "Smart Styles" : "Behavior Library"}
+                {isImageOutput ? "Smart Styles" : isShaderTarget ? "Shader Library" : "Behavior Library"}
+                <button onClick={onEditLibrary} className="ml-auto p-1 rounded text-white/30 hover:text-white transition-colors" title="Edit, import or export the library">
+                    <Pencil size={11} />
+                </button>
             </h3>
             
-            <div className="space-y-4">
-                {/* Visual Modifiers */}
-                {mode === ToolMode.ASSET_GEN && assetOutputMode === 'image' ? (
-                    <div className="grid grid-cols-2 gap-3">
-                        <ActionCard icon={Palette} title="Pixel Art" desc="Retro 8-bit style" onClick={() => handleAction("Generate a pixel art version of this prompt, 8-bit style.")} />
-                        <ActionCard icon={Palette} title="Cyberpunk" desc="Neon, dark, high contrast" onClick={() => handleAction("Generate a cyberpunk, neon-lit version of this.")} />
-                        <ActionCard icon={Palette} title="Vaporwave" desc="Soft pinks and blues" onClick={() => handleAction("Generate a vaporwave aesthetic version.")} />
-                        <ActionCard icon={Palette} title="Hand Drawn" desc="Sketchy, pencil style" onClick={() => handleAction("Generate a hand-drawn sketch style version.")} />
-                    </div>
-                ) : (
-                    // Code Modifiers
-                    <>
+            {templateEntry ? (
+                <TemplateForm
+                    key={templateEntry.id}
+                    entry={templateEntry}
+                    initialValues={builtinValues(currentFile, editorSelection(), prompt)}
+                    onRun={(text) => { setTemplateEntry(null); handleAction(text); }}
+                    onCancel={() => setTemplateEntry(null)}
+                />
+            ) : libraryEntries.length === 0 ? (
+                <div className="text-[11px] text-white/30 pl-1">No library entries for this mode and context.</div>
+            ) : (
+                <div className="space-y-4">
+                    {libraryEntries.some(e => e.display === 'card') && (
                         <div className="grid grid-cols-2 gap-3">
-                            {/* Movement */}
-                            <ActionCard 
-                                icon={Gamepad2} 
-                                title="Movement" 
-                                desc="Platformer, Top-down..." 
-                                onClick={() => handleAction("Inject robust movement logic into the current script. If 2D, add platformer physics (gravity, jump). If 3D, add CharacterBody3D movement.")} 
-                            />
-                            {/* Combat */}
-                            <ActionCard 
-                                icon={Box} 
-                                title="Health System" 
-                                desc="HP, Damage, Death" 
-                                onClick={() => handleAction("Add a complete Health system to this script. Include 'health' variable, 'take_damage' function, and a 'died' signal.")} 
-                            />
-                            {/* State */}
-                            <ActionCard 
-                                icon={Layers} 
-                                title="State Machine" 
-                                desc="Idle, Run, Jump" 
-                                onClick={() => handleAction("Refactor this script to use a simple Enum-based State Machine (IDLE, RUN, JUMP, etc) for better logic management.")} 
-                            />
-                            {/* Inventory */}
-                            <ActionCard 
-                                icon={Database} 
-                                title="Inventory" 
-                                desc="Array-based storage" 
-                                onClick={() => handleAction("Add a simple inventory system using an Array. Include 'add_item', 'remove_item' functions.")} 
-                            />
+                            {libraryEntries.filter(e => e.display === 'card').map(entry => (
+                                <ActionCard key={entry.id} icon={libraryIcon(entry.icon)} title={entry.title} desc={entry.description} onClick={() => handleLibraryEntry(entry)} />
+                            ))}
                         </div>
-                        
-                        {/* Tweaks */}
+                    )}
+                    {libraryEntries.some(e => e.display === 'chip') && (
                         <div className="flex gap-2 overflow-x-auto pb-2 custom-scrollbar">
-                            <Chip label="Double Speed" onClick={() => handleAction("Modify the movement constants to double the speed.")} />
-                            <Chip label="Fix Gravity" onClick={() => handleAction("Ensure gravity application logic is correct using ProjectSettings.")} />
-                            <Chip label="Add Comments" onClick={() => handleAction("Add detailed comments to the existing code explaining every function.")} />
-                            <Chip label="Optimize" onClick={() => handleAction("Optimize the existing code for performance and readability.")} />
+                            {libraryEntries.filter(e => e.display === 'chip').map(entry => (
+                                <Chip key={entry.id} label={entry.title} onClick={() => handleLibraryEntry(entry)} />
+                            ))}
                         </div>
-                    </>
-                )}
-            </div>
+                    )}
+                </div>
+            )}
          </div>
       )}
     </div>
   );
 };
 
-const ActionCard = ({ icon: Icon, title, desc, onClick }: { icon: any, title: string, desc: string, onClick: () => void }) => (
+const ActionCard: React.FC<{ icon: any, title: string, desc: string, onClick: () => void }> = ({ icon: Icon, title, desc, onClick }) => (
     <button 
         onClick={onClick}
         className="flex flex-col items-start p-3 bg-white/5 hover:bg-white/10 border border-white/5 hover:border-white/10 rounded-xl transition-all group text-left"
@@ -431,7 +790,7 @@ const ActionCard = ({ icon: Icon, title, desc, onClick }: { icon: any, title: st
     </button>
 );
 
-const Chip = ({ label, onClick }: { label: string, onClick: () => void }) => (
+const Chip: React.FC<{ label: string, onClick: () => void }> = ({ label, onClick }) => (
     <button 
         onClick={onClick}
         className="px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/5 hover:border-white/20 rounded-full text-[10px] text-gray-400 hover:text-white transition-all whitespace-nowrap"
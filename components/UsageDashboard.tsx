@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import { ToolMode, UsageEntry } from '../types';
+import { UsageTotal, dayKey, totalTokens, totalUsageBy } from '../services/usage';
+import { ChartColumn, Trash2, X } from 'lucide-react';
+
+interface UsageDashboardProps {
+  usage: UsageEntry[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<ToolMode, string> = {
+  [ToolMode.CODE_GEN]: 'Generator',
+  [ToolMode.ASSET_GEN]: 'Assets',
+  [ToolMode.PHYSICS]: 'Physics',
+  [ToolMode.LOGIC]: 'Logic',
+  [ToolMode.DATA]: 'Data',
+  [ToolMode.DEBUGGER]: 'Debug',
+  [ToolMode.CHAT]: 'Chat',
+};
+
+const DAYS_SHOWN = 14;
+
+const formatTokens = (tokens: number) => tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(2)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : String(tokens);
+const formatCost = (total: UsageTotal) => `${total.unpriced ? '≥ ' : ''}$${total.cost.toFixed(total.cost < 1 ? 3 : 2)}`;
+
+const StatCard: React.FC<{ label: string; total?: UsageTotal }> = ({ label, total }) => (
+  <div className="bg-white/5 border border-white/5 rounded-2xl p-4">
+    <div className="text-[10px] font-bold text-white/40 uppercase tracking-widest">{label}</div>
+    <div className="mt-2 text-2xl font-light text-white">{formatTokens(total ? totalTokens(total) : 0)}</div>
+    <div className="text-[11px] text-white/40">{total ? `${total.requests} request(s) · ${formatCost(total)}` : 'No requests'}</div>
+  </div>
+);
+
+/**
+ * Token usage of the workspace as reported by the providers, per tool mode and per day.
+ * Costs are estimates from list prices; local models count as free.
+ */
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ usage, onClear, onClose }) => {
+  const { today, week, all, byMode, byDay } = useMemo(() => {
+    const now = Date.now();
+    const recentDays = Array.from({ length: DAYS_SHOWN }, (_, i) => dayKey(now - (DAYS_SHOWN - 1 - i) * 86_400_000));
+    const days = totalUsageBy(usage, e => e.day);
+    return {
+      today: totalUsageBy(usage.filter(e => e.day === recentDays[DAYS_SHOWN - 1]), () => 'today')[0],
+      week: totalUsageBy(usage.filter(e => recentDays.slice(-7).includes(e.day)), () => 'week')[0],
+      all: totalUsageBy(usage, () => 'all')[0],
+      byMode: totalUsageBy(usage, e => e.mode).sort((a, b) => totalTokens(b) - totalTokens(a)),
+      byDay: recentDays.map(day => ({ day, total: days.find(d => d.key === day) })),
+    };
+  }, [usage]);
+  const busiestDay = Math.max(1, ...byDay.map(d => d.total ? totalTokens(d.total) : 0));
+
+  return (
+    <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar p-8 space-y-8 relative">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-light text-white flex items-center tracking-tight">
+          <ChartColumn className="text-blue-400 mr-3 opacity-80" size={20} />
+          Token Usage
+        </h2>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => { if (window.confirm('Clear the usage history of this workspace?')) onClear(); }}
+            disabled={usage.length === 0}
+            className="p-2 bg-black/40 text-white/50 hover:text-red-300 rounded-lg disabled:opacity-30 border border-white/5 hover:bg-white/10 transition-all"
+            title="Clear usage history"
+          >
+            <Trash2 size={16} />
+          </button>
+          <button onClick={onClose} className="p-2 bg-black/40 text-white/70 hover:text-white rounded-lg border border-white/5 hover:bg-white/10 transition-all" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <StatCard label="Today" total={today} />
+        <StatCard label="Last 7 days" total={week} />
+        <StatCard label="All time" total={all} />
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Last {DAYS_SHOWN} days</h3>
+        <div className="flex items-end h-32 space-x-1.5">
+          {byDay.map(({ day, total }) => (
+            <div key={day} className="flex-1 h-full flex flex-col justify-end group relative" title={`${day}: ${total ? `${formatTokens(totalTokens(total))} tokens, ${formatCost(total)}` : 'no requests'}`}>
+              <div
+                className="w-full rounded-t bg-blue-500/60 group-hover:bg-blue-400 transition-colors"
+                style={{ height: `${total ? Math.max(2, (totalTokens(total) / busiestDay) * 100) : 0}%` }}
+              />
+              <div className="mt-1 text-center text-[9px] text-white/30">{day.slice(8)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-[10px] font-bold text-white/40 uppercase tracking-widest">By mode</h3>
+        {byMode.length === 0 ? (
+          <div className="text-xs text-white/30">No requests recorded yet.</div>
+        ) : (
+          <table className="w-full text-xs text-white/70">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wider text-white/30 text-right">
+                <th className="text-left font-medium pb-2">Mode</th>
+                <th className="font-medium pb-2">Requests</th>
+                <th className="font-medium pb-2">Prompt</th>
+                <th className="font-medium pb-2">Output</th>
+                <th className="font-medium pb-2">Thinking</th>
+                <th className="font-medium pb-2">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byMode.map(total => (
+                <tr key={total.key} className="border-t border-white/5 text-right">
+                  <td className="text-left py-2 text-white/80">{MODE_LABELS[total.key as ToolMode] ?? total.key}</td>
+                  <td>{total.requests}</td>
+                  <td>{formatTokens(total.promptTokens)}</td>
+                  <td>{formatTokens(total.outputTokens)}</td>
+                  <td>{formatTokens(total.thinkingTokens)}</td>
+                  <td>{formatCost(total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-[10px] text-white/30">Costs use published list prices and may be out of date. Local models are counted as free; "≥" marks models without a known price.</p>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
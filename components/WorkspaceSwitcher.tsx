@@ -0,0 +1,145 @@
+import React, { useState, useRef } from 'react';
+import { WorkspaceSummary } from '../types';
+import { Briefcase, ChevronDown, Plus, Trash2, Check, FileArchive, FolderInput, Download } from 'lucide-react';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceSummary[];
+  activeWorkspaceId: string | null;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+  onImportZip: (file: File) => void;
+  onImportFolder: (files: FileList) => void;
+  onExport: () => void;
+}
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ workspaces, activeWorkspaceId, onSwitch, onCreate, onDelete, onImportZip, onImportFolder, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const active = workspaces.find(w => w.id === activeWorkspaceId);
+
+  const handleCreateSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newName.trim()) {
+      onCreate(newName.trim());
+      setNewName('');
+      setIsCreating(false);
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative border-b border-white/5">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-5 py-4 text-white/60 hover:text-white hover:bg-white/5 transition-colors"
+      >
+        <div className="flex items-center space-x-2 overflow-hidden">
+            <Briefcase size={14} className="text-blue-400 shrink-0" />
+            <span className="text-xs font-medium truncate">{active?.name || 'Loading...'}</span>
+        </div>
+        <ChevronDown size={14} className={`shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      <input
+        ref={zipInputRef}
+        type="file"
+        accept=".zip"
+        className="hidden"
+        onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportZip(file);
+            e.target.value = '';
+            setIsOpen(false);
+        }}
+      />
+      <input
+        ref={folderInputRef}
+        type="file"
+        className="hidden"
+        {...{ webkitdirectory: '' }}
+        onChange={(e) => {
+            if (e.target.files?.length) onImportFolder(e.target.files);
+            e.target.value = '';
+            setIsOpen(false);
+        }}
+      />
+
+      {isOpen && (
+        <div className="absolute left-2 right-2 top-full mt-1 z-30 glass-panel rounded-xl shadow-2xl p-1.5 space-y-0.5">
+            {workspaces.map(w => (
+                <div
+                    key={w.id}
+                    onClick={() => { onSwitch(w.id); setIsOpen(false); }}
+                    className={`group flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer transition-all ${
+                        w.id === activeWorkspaceId ? 'bg-blue-600/10 text-blue-100' : 'text-gray-400 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                    <div className="flex items-center space-x-2 overflow-hidden">
+                        {w.id === activeWorkspaceId ? <Check size={12} className="text-blue-400 shrink-0" /> : <span className="w-3 shrink-0" />}
+                        <span className="text-xs truncate">{w.name}</span>
+                    </div>
+                    {workspaces.length > 1 && (
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                if (window.confirm(`Delete workspace "${w.name}"? Its files, history and chat will be lost.`)) onDelete(w.id);
+                            }}
+                            className="opacity-0 group-hover:opacity-100 p-1 rounded-md hover:bg-red-500/20 hover:text-red-400 transition-all"
+                        >
+                            <Trash2 size={12} />
+                        </button>
+                    )}
+                </div>
+            ))}
+
+            <div className="border-t border-white/5 pt-1 mt-1">
+                {isCreating ? (
+                    <form onSubmit={handleCreateSubmit} className="p-1.5">
+                        <input
+                            autoFocus
+                            type="text"
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            placeholder="Workspace name"
+                            className="w-full bg-black/40 border border-blue-500/50 rounded-md px-3 py-1.5 text-xs text-white focus:outline-none"
+                            onBlur={() => { if (!newName) setIsCreating(false); }}
+                        />
+                    </form>
+                ) : (
+                    <button
+                        onClick={() => setIsCreating(true)}
+                        className="w-full flex items-center space-x-2 px-3 py-2 rounded-lg text-xs text-white/40 hover:text-white hover:bg-white/5 transition-colors"
+                    >
+                        <Plus size={12} />
+                        <span>New Workspace</span>
+                    </button>
+                )}
+            </div>
+
+            <div className="border-t border-white/5 pt-1 mt-1">
+                <MenuButton icon={FileArchive} label="Import Project (.zip)" onClick={() => zipInputRef.current?.click()} />
+                <MenuButton icon={FolderInput} label="Import Project Folder" onClick={() => folderInputRef.current?.click()} />
+                <MenuButton icon={Download} label="Export as .zip" onClick={() => { onExport(); setIsOpen(false); }} />
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const MenuButton = ({ icon: Icon, label, onClick }: { icon: React.ElementType, label: string, onClick: () => void }) => (
+    <button
+        onClick={onClick}
+        className="w-full flex items-center space-x-2 px-3 py-2 rounded-lg text-xs text-white/40 hover:text-white hover:bg-white/5 transition-colors"
+    >
+        <Icon size={12} />
+        <span>{label}</span>
+    </button>
+);
+
+export default WorkspaceSwitcher;
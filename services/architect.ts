@@ -0,0 +1,851 @@
+import { ChatMessage, ChatSummary, ContextPreferences, GeneratedCodeResponse, GenerationConfig, ProjectFile, RepairAttempt, ShaderType, ToolMode, VisualAssetOptions } from "../types";
+import { LLMImage, LLMMessage, LLMPart, ModelTarget, RequestOptions, TextRequest, imageFromDataUrl } from "./llm";
+import { estimateTokens, getReplayableMessages, getUnsummarizedMessages, suggestFileName, trimChatHistory } from "./chat";
+import { isBlocking, lintGDScript } from "./gdscript";
+import { buildSceneTree, formatSceneTree, nodesWithScript, normalizeScene, parseTscn, validateScene } from "./tscn";
+import { parseResourceClass, validateResource } from "./resources";
+import { joinPath } from "./paths";
+import { ContextSelection, formatContext, selectContext } from "./context";
+import { DEFAULT_GENERATION_CONFIG } from "./workspaces";
+import { StackFrame, parseErrorLog, tracedPaths } from "./errorlog";
+import { formatLocation } from "./editor";
+import { DEFAULT_VISUAL_ASSET, KEY_COLOR, alphaMask, gridOf, requestedAspectRatio } from "./sprites";
+import { IMAGE_TOKEN_ESTIMATE } from "./attachments";
+
+const SYSTEM_INSTRUCTION = `
+You are an expert Godot 4 Game Engine architect and GDScript specialist.
+
+Your Core Directives:
+1. **Godot 4 Compliance**: strictly adhere to Godot 4.x syntax (e.g., 'super()', '@export', 'signal name(args)', 'await', 'Tween' instead of 'Tween node').
+2. **Context Awareness**: Pay attention to whether the user is in a 2D, 3D, or UI context.
+3. **Best Practices**: Use composition over inheritance where appropriate, prefer Signals for decoupling, and use Resources for data.
+4. **Adaptation & Replication**: When provided with reference code (even from other languages like C#, Lua, Python) OR reference images, intelligently port the logic, visual style (via shaders/environment settings), and design patterns to idiomatic GDScript.
+5. **Modification & Integration**: When asked to ADD a behavior or MODIFY existing code, **PRESERVE** the existing logic and variable state unless explicitly told to replace it. Merge the new functionality seamlessly (e.g., add to _physics_process rather than replacing it).
+
+When generating code:
+- Return ONLY valid, complete GDScript code.
+- If the requested script requires a specific scene setup (like nodes), mention it in the explanation.
+- Use 'class_name' if creating a reusable component.
+`;
+
+const CODE_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    code: { type: 'string', description: "The full GDScript code source." },
+    explanation: { type: 'string', description: "Brief explanation of changes and node requirements." },
+    files: {
+      type: 'array',
+      description: "Other files to create or rewrite for this task. Omit files that don't change. Never repeat the active file here.",
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: "res:// path. An existing path edits that file, a new path creates it." },
+          language: { type: 'string', enum: ['gdscript', 'shader', 'json', 'scene', 'resource'] },
+          content: { type: 'string', description: "The complete new content of the file." }
+        },
+        required: ["path", "language", "content"]
+      }
+    }
+  },
+  required: ["code", "explanation"]
+};
+
+const SHADER_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    code: { type: 'string', description: "The full .gdshader source." },
+    explanation: { type: 'string', description: "Brief explanation of the shader, its uniforms and how to assign it (ShaderMaterial on which node)." },
+    fileName: { type: 'string', description: "snake_case file name ending in .gdshader, e.g. dissolve.gdshader" }
+  },
+  required: ["code", "explanation", "fileName"]
+};
+
+const SCENE_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    code: { type: 'string', description: "The complete .tscn text of the scene (Godot 4, format=3)." },
+    explanation: { type: 'string', description: "Brief explanation of the node tree, attached scripts and connections." },
+    fileName: { type: 'string', description: "snake_case file name ending in .tscn, e.g. player.tscn" }
+  },
+  required: ["code", "explanation", "fileName"]
+};
+
+const DATA_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    code: { type: 'string', description: "The Resource class script (class_name X extends Resource) with typed @export fields." },
+    explanation: { type: 'string', description: "Brief explanation of the fields and how to load the instances." },
+    fileName: { type: 'string', description: "snake_case file name of the script ending in .gd, e.g. item_data.gd" },
+    files: {
+      type: 'array',
+      description: "One .tres instance per record.",
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: "res:// path ending in .tres" },
+          language: { type: 'string', enum: ['resource'] },
+          content: { type: 'string', description: "The complete .tres text (Godot 4, format=3)." }
+        },
+        required: ["path", "language", "content"]
+      }
+    }
+  },
+  required: ["code", "explanation", "fileName", "files"]
+};
+
+const SHADER_TYPE_GUIDES: Record<ShaderType, string> = {
+  canvas_item: `'shader_type canvas_item;' for 2D nodes and Controls. Entry points: vertex(), fragment(), light().
+      Built-ins: UV, COLOR, TEXTURE, TEXTURE_PIXEL_SIZE, SCREEN_UV, TIME, VERTEX. Read the node texture with texture(TEXTURE, UV).
+      Screen effects read a 'uniform sampler2D screen_texture : hint_screen_texture, filter_linear_mipmap;'.`,
+  spatial: `'shader_type spatial;' for 3D materials. Entry points: vertex(), fragment(), light().
+      Built-ins: ALBEDO, ALPHA, METALLIC, ROUGHNESS, EMISSION, NORMAL_MAP, VERTEX, NORMAL, UV, TIME, VIEW, LIGHT, ATTENUATION, DIFFUSE_LIGHT.
+      Use render_mode where it matters (unshaded, cull_disabled, blend_add, depth_draw_always...).`,
+  particles: `'shader_type particles;' for GPUParticles2D/3D process materials. Entry points: start(), process().
+      Built-ins: TRANSFORM, VELOCITY, COLOR, CUSTOM, ACTIVE, RESTART, LIFETIME, DELTA, INDEX, NUMBER, RANDOM_SEED.
+      Initialize particles in start() and integrate motion in process().`,
+};
+
+const buildShaderInstruction = (shaderType: ShaderType) => `
+    SHADER AUTHORING MODE (.gdshader):
+    Write a complete Godot 4 shading language file, NOT GDScript.
+    - Start with ${SHADER_TYPE_GUIDES[shaderType]}
+    - Expose every tweakable value as a uniform with a hint: 'source_color' for colors, 'hint_range(min, max[, step])' for scalars,
+      'filter_nearest'/'filter_linear', 'repeat_enable' and 'hint_default_white'/'hint_default_black' for textures. Give sensible defaults.
+    - Group related uniforms with 'group_uniforms'. Use Godot 4 names (TEXTURE not texture uniforms, no 'hint_color', no 'SCREEN_TEXTURE').
+    - Keep it GLES3/Vulkan compatible; avoid unbounded loops.
+`;
+
+// Tool mode behind each code generation flavour, for its settings
+export type CodeMode = 'physics' | 'logic' | 'general' | 'asset';
+const CODE_MODES: Record<CodeMode, ToolMode> = {
+  physics: ToolMode.PHYSICS,
+  logic: ToolMode.LOGIC,
+  general: ToolMode.CODE_GEN,
+  asset: ToolMode.ASSET_GEN,
+};
+
+// Reasoning budget configured for the mode; -1 leaves it to the model
+const thinkingBudgetFor = (config: GenerationConfig | undefined, mode: ToolMode) => {
+  const budget = (config ?? DEFAULT_GENERATION_CONFIG).thinkingBudgets[mode];
+  return budget < 0 ? undefined : budget;
+};
+
+/**
+ * Parses a structured response. Local models often wrap JSON in markdown fences even when asked not to.
+ */
+const parseJsonResponse = (text: string) => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse(fenced ? fenced[1] : text || "{}");
+};
+
+/**
+ * Reads a string field out of an incomplete JSON document, so structured responses can be previewed while streaming.
+ */
+const extractPartialJsonString = (json: string, field: string) => {
+  const start = json.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (!start || start.index === undefined) return null;
+
+  const body = json.slice(start.index + start[0].length);
+  let end = 0;
+  let escaped = false;
+  for (; end < body.length; end++) {
+    if (escaped) escaped = false;
+    else if (body[end] === '\\') escaped = true;
+    else if (body[end] === '"') break;
+  }
+  // Drop an escape sequence cut off mid-stream
+  let raw = body.slice(0, escaped ? end - 1 : end);
+  raw = raw.replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+  try {
+    return JSON.parse(`"${raw}"`) as string;
+  } catch {
+    return null;
+  }
+};
+
+type ResponseValidator = (text: string) => { result: GeneratedCodeResponse | null; problems: string[] };
+
+const parseCodeResponse = (text: string) => {
+  let result: GeneratedCodeResponse;
+  try {
+    result = parseJsonResponse(text);
+  } catch (e) {
+    return { result: null, problems: [`The response is not valid JSON (${e instanceof Error ? e.message : 'parse error'}).`] };
+  }
+  if (typeof result?.code !== 'string') return { result: null, problems: ["The JSON has no 'code' string."] };
+  return { result, problems: [] };
+};
+
+const sceneProblems = (path: string, content: string, workspacePaths: string[]) =>
+  validateScene(content, workspacePaths)
+    .filter(d => d.severity === 'error')
+    .map(d => `${path}:${d.line}: ${d.message}`);
+
+/**
+ * Problems of one generated file, checked by the validator of its extension. A request without a file
+ * produces a script; other types (JSON, shaders, config) aren't checked.
+ */
+const fileProblems = (path: string, content: string, strictTyping: boolean, knownPaths: string[]) => {
+  if (path.endsWith('.tscn')) return sceneProblems(path, content, knownPaths);
+  if (path.endsWith('.tres')) {
+    return validateResource(content, knownPaths)
+      .filter(d => d.severity === 'error')
+      .map(d => `${path}:${d.line}: ${d.message}`);
+  }
+  if (path && !path.endsWith('.gd')) return [];
+  return lintGDScript(content, { strictTyping })
+    .filter(d => isBlocking(d, strictTyping))
+    .map(d => `${path}:${d.line}: ${d.message}`);
+};
+
+/**
+ * Parses a code response and validates its scripts, scenes and resources locally. Returns what to feed back to the model, if anything.
+ */
+const validateCodeResponse = (text: string, activePath: string, strictTyping: boolean, isShader: boolean, workspacePaths: string[]) => {
+  const { result, problems } = parseCodeResponse(text);
+  if (!result || isShader) return { result, problems };
+
+  const files = result.files || [];
+  // Scenes may attach scripts created by the same response
+  const knownPaths = [...workspacePaths, ...files.map(f => f.path)];
+  return {
+    result,
+    problems: [
+      ...fileProblems(activePath, result.code, strictTyping, knownPaths),
+      ...files.filter(f => f.path).flatMap(f => fileProblems(f.path, f.content, strictTyping, knownPaths))
+    ]
+  };
+};
+
+// Retries move code around, so a problem counts as fixed when the same message no longer appears in that file
+const problemKey = (problem: string) => problem.replace(/:\d+:/, ':');
+
+const buildRepairPrompt = (problems: string[]) => `
+    Your previous response failed validation:
+    ${problems.map(p => `- ${p}`).join('\n    ')}
+
+    Return the complete corrected response again as JSON with the same fields.
+    Fix exactly these problems and keep everything else unchanged. Remember this is Godot 4.
+`;
+
+/**
+ * Sends a structured code request, feeding responses that fail validation back to the model with their problems,
+ * up to maxRepairAttempts times. result.repairs records each retry.
+ * With options.onChunk set, the response is streamed and onChunk receives the partial streamField ('code' by default).
+ */
+const generateWithRepairs = async (
+  target: ModelTarget,
+  request: TextRequest,
+  validate: ResponseValidator,
+  maxRepairAttempts: number,
+  options?: RequestOptions,
+  streamField: 'code' | 'explanation' = 'code'
+): Promise<GeneratedCodeResponse> => {
+  const messages = [...request.messages];
+  const repairs: RepairAttempt[] = [];
+
+  for (let attempt = 0; ; attempt++) {
+    const text = await target.provider.generateText({ ...request, messages }, {
+      signal: options?.signal,
+      onUsage: options?.onUsage,
+      onChunk: options?.onChunk && ((partial) => {
+        const value = extractPartialJsonString(partial, streamField);
+        if (value !== null) options.onChunk!(value);
+      })
+    });
+
+    const { result, problems } = validate(text);
+    const previous = repairs[repairs.length - 1];
+    if (previous) {
+      const remaining = new Set(problems.map(problemKey));
+      previous.fixed = previous.problems.filter(p => !remaining.has(problemKey(p)));
+    }
+
+    if (problems.length === 0 || attempt >= maxRepairAttempts) {
+      if (!result) throw new Error(problems[0]);
+      return { ...result, repairs };
+    }
+    repairs.push({ attempt: attempt + 1, problems, fixed: [] });
+    messages.push({ role: 'model', parts: [{ text }] }, { role: 'user', parts: [{ text: buildRepairPrompt(problems) }] });
+  }
+};
+
+/**
+ * Generates code for the active file, plus any other files the task creates or edits (result.files).
+ * With options.onChunk set, the response is streamed and onChunk receives the partial code of the
+ * active file (not the raw JSON) as it arrives.
+ * Responses that fail local validation (invalid JSON, GDScript errors, missing types under strict typing,
+ * scenes that wouldn't load) are sent back with the problems, up to config.maxRepairAttempts times; result.repairs records each retry.
+ * In the 'Shader' context the output is .gdshader source; when the active file is not a shader,
+ * the result is meant for a new file named by the returned fileName.
+ */
+export const generateGodotCode = async (
+  target: ModelTarget,
+  prompt: string,
+  projectFiles: ProjectFile[],
+  activeFileId: string,
+  mode: CodeMode,
+  godotContext: string,
+  referenceContent?: string,
+  config?: GenerationConfig,
+  referenceImages: LLMImage[] = [],
+  context?: ContextSelection,
+  options?: RequestOptions
+): Promise<GeneratedCodeResponse> => {
+  // Construct Style Guide based on User Config
+  let styleGuide = "DEFAULT STYLE";
+  if (config) {
+    styleGuide = `
+      USER PREFERENCES (STRICTLY FOLLOW):
+      - **Typing**: ${config.typing === 'strict' ? 'ALWAYS use static typing (e.g. var x: int = 10, func foo() -> void). Fail validation if types are missing.' : 'Use dynamic typing where flexible.'}
+      - **Verbosity**: ${config.verbosity === 'educational' ? 'Add detailed comments explaining WHY code works. Explain Godot concepts.' : config.verbosity === 'minimal' ? 'NO comments. Code only. Compact.' : 'Standard comments for complex logic.'}
+      - **Architecture**: ${config.architecture === 'composition' ? 'Prefer COMPOSITION. Create modular Nodes/Components. Avoid deep inheritance trees.' : config.architecture === 'inheritance' ? 'Prefer INHERITANCE. Extend base classes.' : 'Choose best fit.'}
+      - **Creativity**: ${config.creativity > 0.7 ? 'Be experimental and creative with solutions.' : 'Be conservative, strictly standard, and robust.'}
+    `;
+  }
+
+  // Build Project Context
+  const activeFile = projectFiles.find(f => f.id === activeFileId);
+  const isShader = godotContext === 'Shader';
+  const editsActiveShader = isShader && activeFile?.language === 'shader';
+  const selection = context ?? selectContext(projectFiles, activeFileId, prompt);
+  const excluded = selection.entries.filter(e => e.inclusion === 'excluded').map(e => e.path);
+
+  // Related files in full, declarations of the others (the active file is presented on its own below)
+  const projectContextStr = formatContext(
+    { ...selection, files: selection.files.filter(f => f.id !== activeFileId) },
+    `OTHER PROJECT FILES (${isShader ? 'Read-Only Context' : "Context, edit them through 'files' when the task requires it"})`
+  );
+
+  // Scene outlines, so node paths ($Sprite, get_node) and signal wiring match the scenes the script runs in
+  let sceneContextStr = "";
+  const scenes = projectFiles.filter(f => f.language === 'scene' && !excluded.includes(f.path));
+  if (scenes.length > 0) {
+      sceneContextStr = "SCENE TREES (node hierarchy of each .tscn):\n";
+      scenes.forEach(f => {
+          const tree = buildSceneTree(parseTscn(f.content).document);
+          const owners = activeFile ? nodesWithScript(tree, activeFile.path) : [];
+          sceneContextStr += `--- SCENE: ${f.path} ---\n${formatSceneTree(tree)}\n`;
+          if (owners.length > 0) sceneContextStr += `(The active file is attached to: ${owners.map(n => n.path === '.' ? `${n.name} (root)` : n.path).join(', ')})\n`;
+          sceneContextStr += '\n';
+      });
+  }
+
+  let specificPrompt = `
+    Target Context: ${godotContext} Environment
+
+    All files are addressed by their res:// path. Use these exact paths in preload()/load() calls and
+    when referencing scenes or resources.
+
+    ${styleGuide}
+
+    ${projectContextStr}
+
+    ${sceneContextStr}
+
+    ${isShader && !editsActiveShader ? 'CURRENT ACTIVE FILE (Read-Only Context, the shader goes into a NEW file):' : 'CURRENT ACTIVE FILE (You are editing this):'}
+    File Path: ${activeFile?.path || 'res://unknown_script.gd'}
+    Content:
+    \`\`\`${activeFile?.language === 'shader' ? 'glsl' : 'gdscript'}
+    ${activeFile?.content || ''}
+    \`\`\`
+  `;
+
+  if (isShader) {
+    specificPrompt += buildShaderInstruction(config?.shaderType || 'canvas_item');
+  }
+
+  if (mode === 'asset') {
+    specificPrompt += `
+    ASSET GENERATION MODE (PROCEDURAL):
+    The user wants a procedural asset generated via code (GDScript).
+    - If 3D: Use 'ImmediateMesh', 'ArrayMesh', 'GridMap', or 'MultiMeshInstance3D' to generate geometry or place objects procedurally.
+    - If 2D: Use 'draw()' functions in _draw(), or TileMap manipulation.
+    - If a shader fits better: build the material in code with a ShaderMaterial that loads a .gdshader from the project.
+    - Make the script a '@tool' script so it runs in the editor.
+    `;
+  }
+
+  if (referenceContent) {
+    specificPrompt += `
+    REFERENCE MATERIAL (Source to replicate/adapt):
+    \`\`\`text
+    ${referenceContent}
+    \`\`\`
+
+    INSTRUCTION: Analyze the Reference Material above and replicate its functionality/logic within the Godot 4 environment using best practices. Transform the reference concepts into Godot nodes/signals/resources where appropriate.
+    `;
+  }
+
+  if (referenceImages.length > 0) {
+    specificPrompt += `
+    IMAGE ANALYSIS INSTRUCTION:
+    ${referenceImages.length === 1 ? 'An image has been provided.' : `${referenceImages.length} images have been provided (e.g. the same character from different sides, or several screens); use them together.`}
+    1. Analyze the visual elements, physics implications, and game mechanics implied by the image.
+    2. If it's a character, generate the movement/animation state machine code that would fit this character's design.
+    3. If it's an environment, generate a procedural generation script (using GridMap, TileMap, or MultiMeshInstance3D) or a WorldEnvironment configuration script to replicate the atmosphere/style.
+    4. If it's a UI, generate the Control node logic and theme overrides.
+    `;
+  }
+
+  if (isShader) {
+    specificPrompt += `
+    Task (shader Mode): ${prompt}
+
+    Please provide the ${editsActiveShader ? 'updated .gdshader source for the CURRENT ACTIVE FILE' : 'complete source of a NEW .gdshader file'} in a JSON format with 'code', 'explanation' and 'fileName' fields.
+    Ensure the shader compiles as-is in Godot 4.
+  `;
+  } else {
+    specificPrompt += `
+    Task (${mode} Mode): ${prompt}
+
+    Please provide the updated or new GDScript code for the CURRENT ACTIVE FILE in a JSON format with 'code' and 'explanation' fields.
+    Ensure the code is complete, strictly typed, and ready to copy-paste.
+
+    If the task needs more than the active file (a new component script, a resource, or wiring into other scripts),
+    do not just describe it in the explanation: return each of those files in 'files' with its res:// path, language
+    and COMPLETE content. Keep the exact path of existing files you edit, and preserve their unrelated logic.
+    Scenes (.tscn) are Godot 4 text scenes: [gd_scene format=3], string ids (ExtResource("1_a")), a root node without parent.
+  `;
+  }
+
+  // Attached images go first, in their own parts
+  const contentParts: LLMPart[] = [...referenceImages.map(image => ({ image })), { text: specificPrompt }];
+
+  const activePath = activeFile?.path || 'res://unknown_script.gd';
+  const strictTyping = config?.typing === 'strict';
+  const workspacePaths = projectFiles.map(f => f.path);
+
+  try {
+    return await generateWithRepairs(target, {
+      model: target.model,
+      messages: [{ role: 'user', parts: contentParts }],
+      systemInstruction: SYSTEM_INSTRUCTION,
+      jsonSchema: isShader ? SHADER_RESPONSE_SCHEMA : CODE_RESPONSE_SCHEMA,
+      thinkingBudget: thinkingBudgetFor(config, CODE_MODES[mode])
+    }, text => validateCodeResponse(text, activePath, strictTyping, isShader, workspacePaths), config?.maxRepairAttempts ?? 0, options);
+  } catch (error) {
+    console.error(`${target.provider.label} Code Gen Error:`, error);
+    throw error;
+  }
+};
+
+const SCENE_INSTRUCTION = `
+    SCENE AUTHORING MODE (.tscn):
+    Write a complete Godot 4 text scene file, NOT GDScript.
+    - First line: [gd_scene load_steps=N format=3] where N is the number of ext_resource + sub_resource sections + 1. No uid= attributes.
+    - Declare each attached script or used project file as [ext_resource type="Script" path="res://..." id="1_name"] (type "PackedScene"
+      for instanced .tscn files). Only reference res:// paths that exist in the project, with their exact spelling.
+    - Shapes, materials, meshes and other inline resources go in [sub_resource type="..." id="Type_name"] sections before the nodes.
+    - The first [node name="..." type="..."] is the root and has NO parent. Every other node has parent="." (child of the root)
+      or parent="Path/To/Parent" relative to the root, and is declared after its parent. Sibling names are unique.
+    - Attach scripts with 'script = ExtResource("id")'. Set the @export variables of attached scripts and node properties
+      with Godot 4 variant syntax: position = Vector2(10, 20), modulate = Color(1, 0, 0, 1), shape = SubResource("id"), text = "Start".
+    - Ids are quoted strings: ExtResource("1_player"), never ExtResource( 1 ).
+    - Wire signals with [connection signal="body_entered" from="Hitbox" to="." method="_on_hitbox_body_entered"] sections after
+      all nodes. from/to are node paths relative to the root ("." is the root). The method must exist in the target's script;
+      if it doesn't, say so in the explanation.
+`;
+
+/**
+ * Generates a Godot 4 scene (.tscn) for the prompt, with its node tree, attached project scripts, exported
+ * property values and signal connections. Scenes are validated by the local parser (failures go through
+ * the same self-repair retries as code), then normalized (layout, load_steps).
+ * The active file, when it is a script, is the one the scene is built around.
+ */
+export const generateGodotScene = async (
+  target: ModelTarget,
+  prompt: string,
+  projectFiles: ProjectFile[],
+  activeFileId: string,
+  mode: CodeMode,
+  godotContext: string,
+  config?: GenerationConfig,
+  referenceImages: LLMImage[] = [],
+  context?: ContextSelection,
+  options?: RequestOptions
+): Promise<GeneratedCodeResponse> => {
+  const activeFile = projectFiles.find(f => f.id === activeFileId);
+  const workspacePaths = projectFiles.map(f => f.path);
+
+  const selection = context ?? selectContext(projectFiles, activeFileId, prompt);
+  const projectContextStr = formatContext(selection, "PROJECT FILES (Read-Only Context, attach scripts by these paths)", activeFile?.path);
+
+  const specificPrompt = `
+    Target Context: ${godotContext} Environment
+
+    ${projectContextStr}
+
+    ${SCENE_INSTRUCTION}
+
+    Task (scene Mode): ${prompt}
+    ${activeFile?.language === 'gdscript' ? `Build the scene around ${activeFile.path}: attach it to the node it is written for and create the nodes it expects (get_node/$ paths, @onready references).` : ''}
+    ${referenceImages.length > 0 ? 'The attached image(s) show what the scene should look like: match its layout, node structure and proportions.' : ''}
+
+    Please provide the complete .tscn text in a JSON format with 'code', 'explanation' and 'fileName' fields.
+  `;
+
+  const validate: ResponseValidator = (text) => {
+    const { result, problems } = parseCodeResponse(text);
+    if (!result) return { result, problems };
+    return { result: { ...result, code: normalizeScene(result.code) }, problems: sceneProblems(result.fileName || 'scene.tscn', result.code, workspacePaths) };
+  };
+
+  try {
+    return await generateWithRepairs(target, {
+      model: target.model,
+      messages: [{ role: 'user', parts: [...referenceImages.map(image => ({ image })), { text: specificPrompt }] }],
+      systemInstruction: SYSTEM_INSTRUCTION,
+      jsonSchema: SCENE_RESPONSE_SCHEMA,
+      thinkingBudget: thinkingBudgetFor(config, CODE_MODES[mode])
+    }, validate, config?.maxRepairAttempts ?? 0, options);
+  } catch (error) {
+    console.error(`${target.provider.label} Scene Gen Error:`, error);
+    throw error;
+  }
+};
+
+const buildDataInstruction = (folder: string) => `
+    DATA AUTHORING MODE (custom Resource + .tres instances):
+    - 'code' is a GDScript Resource class: 'class_name PascalName' then 'extends Resource', with one statically typed
+      @export var per field and a sensible default for each. Use int, float, bool, String, StringName, Color, Vector2/3,
+      Texture2D/PackedScene for assets, Array[Type] for lists, @export_enum("A", "B") var x: int for fixed choices,
+      @export_range(min, max) for bounded numbers and @export_multiline for long text. No game logic beyond small helpers.
+    - 'fileName' is the script's snake_case file name; the script is saved as ${joinPath(folder, '<fileName>')}.
+    - 'files' holds one .tres per record, under ${joinPath(folder, '<snake_case_plural>/')} (e.g. res://items/sword.tres), each:
+        [gd_resource type="Resource" script_class="PascalName" load_steps=2 format=3]
+
+        [ext_resource type="Script" path="<exact res:// path of the script>" id="1_script"]
+
+        [resource]
+        script = ExtResource("1_script")
+        damage = 12
+        display_name = "Iron Sword"
+        tint = Color(1, 0.5, 0, 1)
+      Only set exported fields of the class, with values of the field's type (quoted strings, 1.0 for floats, enum index for enums).
+`;
+
+// Where generateResourceData's script goes inside its folder (instances reference it by that path)
+export const resourceScriptName = (result: GeneratedCodeResponse) =>
+  (result.fileName || suggestFileName(result.code, 'gdscript')).replace(/\.\w+$/, '') + '.gd';
+
+/**
+ * Generates a custom Resource class (typed @export fields) from a description or a JSON/CSV sample, plus one
+ * .tres instance per record in result.files. The script goes into folder under the returned fileName.
+ * Instances are validated against the generated class; failures go through the self-repair retries.
+ */
+export const generateResourceData = async (
+  target: ModelTarget,
+  prompt: string,
+  sample: string,
+  projectFiles: ProjectFile[],
+  folder: string,
+  config?: GenerationConfig,
+  options?: RequestOptions
+): Promise<GeneratedCodeResponse> => {
+  const strictTyping = config?.typing === 'strict';
+  const workspacePaths = projectFiles.map(f => f.path);
+  // Existing classes are shown so new data can reference them (e.g. an item's Array[EffectData])
+  const resourceScripts = projectFiles.filter(f => f.language === 'gdscript' && /^extends\s+Resource\b/m.test(f.content));
+
+  let projectContextStr = `PROJECT FILES: ${workspacePaths.join(', ')}\n`;
+  resourceScripts.forEach(f => {
+    projectContextStr += `--- EXISTING RESOURCE CLASS: ${f.path} ---\n${f.content}\n\n`;
+  });
+
+  const specificPrompt = `
+    ${projectContextStr}
+
+    ${buildDataInstruction(folder)}
+
+    Task (data Mode): ${prompt}
+    ${sample ? `SAMPLE DATA (JSON or CSV). Derive the fields and their types from it, and create one .tres per record/row:\n\`\`\`text\n${sample}\n\`\`\`` : ''}
+
+    Please provide the result in a JSON format with 'code', 'explanation', 'fileName' and 'files' fields.
+  `;
+
+  const validate: ResponseValidator = (text) => {
+    const { result, problems } = parseCodeResponse(text);
+    if (!result) return { result, problems };
+
+    const scriptPath = joinPath(folder, resourceScriptName(result));
+    const resourceClass = parseResourceClass(result.code);
+    const scriptProblems = lintGDScript(result.code, { strictTyping })
+      .filter(d => isBlocking(d, strictTyping))
+      .map(d => `${scriptPath}:${d.line}: ${d.message}`);
+    if (!resourceClass.className) scriptProblems.push(`${scriptPath}: the script needs a class_name.`);
+    if (resourceClass.extendsName !== 'Resource') scriptProblems.push(`${scriptPath}: the script must extend Resource.`);
+
+    const knownPaths = [...workspacePaths, scriptPath];
+    const instanceProblems = (result.files || []).flatMap(file =>
+      !file.path?.endsWith('.tres') ? [`${file.path}: instance files must be .tres files.`] :
+      validateResource(file.content, knownPaths, { path: scriptPath, resourceClass })
+        .filter(d => d.severity === 'error')
+        .map(d => `${file.path}:${d.line}: ${d.message}`)
+    );
+    return { result, problems: [...scriptProblems, ...instanceProblems] };
+  };
+
+  try {
+    return await generateWithRepairs(target, {
+      model: target.model,
+      messages: [{ role: 'user', parts: [{ text: specificPrompt }] }],
+      systemInstruction: SYSTEM_INSTRUCTION,
+      jsonSchema: DATA_RESPONSE_SCHEMA,
+      thinkingBudget: thinkingBudgetFor(config, ToolMode.DATA)
+    }, validate, config?.maxRepairAttempts ?? 0, options);
+  } catch (error) {
+    console.error(`${target.provider.label} Data Gen Error:`, error);
+    throw error;
+  }
+};
+
+// Layout and style instructions for the image model; the exact size and palette are applied locally afterwards
+const visualAssetInstructions = (asset: VisualAssetOptions) => {
+  const { columns, rows } = gridOf(asset);
+  const layout = asset.kind === 'spritesheet'
+    ? `This is a sprite sheet of ${columns * rows} animation frames in a grid of exactly ${columns} column(s) and ${rows} row(s), read left to right, top to bottom. Every cell has the same size, the subject has the same scale and position in every cell, and there are no gaps, borders, grid lines, labels or numbers.`
+    : asset.kind === 'tileset'
+    ? `This is a tileset atlas of ${columns * rows} tiles in a grid of exactly ${columns} column(s) and ${rows} row(s). Every tile fills its whole cell edge to edge, tiles are seamless with their neighbours, and there are no gaps, borders, grid lines, labels or numbers.`
+    : 'This is a single game asset.';
+  const style = asset.pixelArt
+    ? `Pixel art style with a limited palette of about ${asset.paletteSize} colors, crisp hard edges and no anti-aliasing, readable at ${asset.frameWidth}x${asset.frameHeight} pixels per ${asset.kind === 'tileset' ? 'tile' : 'frame'}.`
+    : '';
+  const background = asset.transparentBackground ? `Paint the background a single flat ${KEY_COLOR} color (it will be made transparent), and do not use that color anywhere on the subject.` : '';
+  return [layout, style, background].filter(Boolean).join(' ');
+};
+
+// Images sent along with a visual asset request
+export interface VisualAssetInputs {
+  references?: LLMImage[]; // Images to start from, e.g. a character's front, side and back
+  mask?: LLMImage; // Limits the change to part of the first reference
+  styleReferences?: LLMImage[]; // Accepted assets the result must match
+}
+
+/**
+ * Generates an image asset (texture, sprite sheet or tileset) using the selected image generation model,
+ * from scratch, from a reference image or as a masked edit of it.
+ * The result is the raw generated image; the sprite pipeline crops, scales and quantizes it.
+ */
+export const generateVisualAsset = async (
+  target: ModelTarget,
+  prompt: string,
+  asset: VisualAssetOptions = DEFAULT_VISUAL_ASSET,
+  inputs: VisualAssetInputs = {},
+  options?: RequestOptions
+): Promise<string> => {
+  const { references = [], mask, styleReferences = [] } = inputs;
+  const others = references.length > 1 ? `The next ${references.length - 1} image(s) show the same subject from other angles, for reference. ` : '';
+  const request = references.length > 0 && mask
+    ? `Edit the first image, a game asset texture/sprite. ${others}The image after ${references.length > 1 ? 'them' : 'it'} is a mask of the first one: change only the area that is white in the mask and keep everything in the black area exactly as it is. The change: ${prompt}`
+    : references.length > 1
+    ? `Create a game asset texture/sprite based on these ${references.length} reference images of the same subject (e.g. different angles): ${prompt}`
+    : references.length === 1
+    ? `Create a game asset texture/sprite based on this reference: ${prompt}`
+    : `Create a game asset texture/sprite: ${prompt}`;
+  const style = styleReferences.length > 0
+    ? `The last ${styleReferences.length === 1 ? 'image is an existing asset' : `${styleReferences.length} images are existing assets`} of the same game: match their art style, palette, outline and shading exactly, but not their content.`
+    : '';
+  try {
+    const editMask = references.length > 0 ? mask : undefined;
+    return await target.provider.generateImage({
+      model: target.model,
+      prompt: [request, visualAssetInstructions(asset), style].filter(Boolean).join('\n'),
+      referenceImages: references,
+      mask: editMask,
+      alphaMask: editMask && target.provider.usesAlphaMask ? imageFromDataUrl(await alphaMask(`data:${editMask.mimeType};base64,${editMask.data}`)) : undefined,
+      styleReferences,
+      aspectRatio: requestedAspectRatio(asset),
+      imageSize: asset.imageSize
+    }, options);
+  } catch (error) {
+    console.error(`${target.provider.label} Image Gen Error:`, error);
+    throw error;
+  }
+};
+
+export interface ChatReply {
+  text: string;
+  contextFiles: string[];
+  summary: ChatSummary | null;
+}
+
+/**
+ * Folds older messages (plus any previous summary) into a compact recap used in place of the full thread.
+ */
+const summarizeChat = async (
+  target: ModelTarget,
+  previous: ChatSummary | null,
+  messages: ChatMessage[],
+  options?: RequestOptions
+): Promise<ChatSummary> => {
+  // Images are not summarized, only noted
+  const transcript = messages.map(m => `${m.role === 'user' ? 'User' : 'Architect'}: ${m.content}${m.images?.length ? ` [${m.images.length} image(s) attached]` : ''}`).join('\n\n');
+  const prompt = `
+    Summarize the following conversation between a Godot developer and their assistant.
+    Keep decisions made, code/file names discussed, open questions and user preferences. Drop pleasantries.
+    Answer with the summary only, at most ~300 words.
+
+    ${previous ? `EARLIER SUMMARY:\n${previous.text}\n` : ''}
+    CONVERSATION:
+    ${transcript}
+  `;
+
+  const text = await target.provider.generateText({
+    model: target.model,
+    messages: [{ role: 'user', parts: [{ text: prompt }] }],
+  }, { signal: options?.signal, onUsage: options?.onUsage });
+
+  return { text: text.trim(), throughId: messages[messages.length - 1].id };
+};
+
+/**
+ * Pre-flight size of the chat request chatWithArchitect would send: replayed turns, summary and project context.
+ * Excludes the summarization call made when older turns still need folding in.
+ */
+export const estimateChatRequest = (
+  history: ChatMessage[],
+  newMessage: string,
+  newImages: string[],
+  projectFiles: ProjectFile[],
+  activeFileId: string,
+  summary: ChatSummary | null,
+  preferences?: ContextPreferences
+) => {
+  const { kept } = trimChatHistory(getReplayableMessages(history));
+  const conversationText = [...kept.map(m => m.content), newMessage].join('\n');
+  const selection = selectContext(projectFiles, activeFileId, conversationText, preferences);
+  const images = kept.reduce((count, m) => count + (m.images?.length ?? 0), newImages.length);
+  return selection.usedTokens + estimateTokens(conversationText + (summary?.text ?? '')) + images * IMAGE_TOKEN_ESTIMATE;
+};
+
+// Attached images go before the text of their turn
+const chatParts = (text: string, images: string[] = []): LLMPart[] => [...images.map(url => ({ image: imageFromDataUrl(url) })), { text }];
+
+export const chatWithArchitect = async (
+  target: ModelTarget,
+  history: ChatMessage[],
+  newMessage: string,
+  newImages: string[],
+  projectFiles: ProjectFile[],
+  activeFileId: string,
+  summary: ChatSummary | null,
+  preferences?: ContextPreferences,
+  config?: GenerationConfig,
+  options?: RequestOptions
+): Promise<ChatReply> => {
+  // Replay the newest turns verbatim; anything older than the budget is carried by a summary
+  const { dropped, kept } = trimChatHistory(getReplayableMessages(history));
+  const unsummarized = getUnsummarizedMessages(dropped, summary);
+  const activeSummary = unsummarized.length > 0 ? await summarizeChat(target, summary, unsummarized, options) : summary;
+
+  // Build project context from the files relevant to this conversation
+  const conversationText = [...kept.map(m => m.content), newMessage].join('\n');
+  const selection = selectContext(projectFiles, activeFileId, conversationText, preferences);
+  const projectContextStr = formatContext(selection, "PROJECT FILES", projectFiles.find(f => f.id === activeFileId)?.path);
+
+  let systemInstruction = SYSTEM_INSTRUCTION + `\n Current Project State:\n${projectContextStr}`;
+  systemInstruction += `\n When you point at specific lines of a project file, cite them as res://path/file.gd:LINE (1-based) so they open in the editor.\n`;
+  if (activeSummary) {
+      systemInstruction += `\n Summary of the earlier conversation:\n${activeSummary.text}\n`;
+  }
+
+  const messages: LLMMessage[] = [
+    ...kept.map(m => ({ role: m.role, parts: chatParts(m.content, m.images) })),
+    { role: 'user', parts: chatParts(newMessage, newImages) }
+  ];
+
+  const text = await target.provider.generateText({
+    model: target.model,
+    messages,
+    systemInstruction,
+    thinkingBudget: thinkingBudgetFor(config, ToolMode.CHAT)
+  }, options);
+
+  return { text, contextFiles: selection.files.map(f => f.path), summary: activeSummary };
+};
+
+const DEBUG_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    explanation: { type: 'string', description: "Root cause first (which frame, which value was wrong and why), then what the fix changes." },
+    code: { type: 'string', description: "The complete fixed content of the file the error is raised in. Return it unchanged if the fix belongs elsewhere." },
+    files: CODE_RESPONSE_SCHEMA.properties.files
+  },
+  required: ["explanation", "code"]
+};
+
+export interface DebugAnalysis extends GeneratedCodeResponse {
+  path: string; // File that 'code' rewrites: the innermost traced workspace file, or the active file
+}
+
+const formatFrame = (frame: StackFrame, files: ProjectFile[]) => {
+  const source = frame.resolved ? files.find(f => f.path === frame.location.path)?.content.split('\n')[frame.location.line - 1] : undefined;
+  return `${formatLocation(frame.location)}${frame.functionName ? ` in ${frame.functionName}()` : ''}${frame.resolved ? '' : ' (not in the project)'}${source !== undefined ? `  ->  ${source.trim()}` : ''}`;
+};
+
+/**
+ * Debugs a pasted Godot error log. The log is parsed into errors and stack frames, the traced files are sent
+ * in full (plus the usual relevant context), and the fix comes back as whole-file writes to review:
+ * 'code' for the innermost traced file, 'files' for any other file the fix touches.
+ * With options.onChunk set, the explanation is streamed.
+ */
+export const analyzeError = async (
+  target: ModelTarget,
+  errorLog: string,
+  notes: string,
+  projectFiles: ProjectFile[],
+  activeFileId: string,
+  config?: GenerationConfig,
+  context?: ContextSelection,
+  options?: RequestOptions
+): Promise<DebugAnalysis> => {
+  const errors = parseErrorLog(errorLog, projectFiles);
+  const traced = tracedPaths(errors);
+  const activeFile = projectFiles.find(f => f.id === activeFileId);
+  const faultPath = traced[0] ?? activeFile?.path ?? 'res://unknown_script.gd';
+  const selection = context ?? selectContext(projectFiles, activeFileId, `${errorLog}\n${notes}`, undefined, { traced });
+
+  const traceStr = errors.length === 0 ? 'No Godot error header or stack frame was recognized in the log.' : errors.map(error =>
+    `- [${error.kind}] ${error.message}\n${error.frames.map((frame, i) => `    #${i} ${formatFrame(frame, projectFiles)}`).join('\n')}`
+  ).join('\n');
+
+  const prompt = `
+    A Godot 4 project fails with the error log below.
+
+    ERROR LOG:
+    \`\`\`text
+    ${errorLog}
+    \`\`\`
+
+    PARSED ERRORS (frames innermost first, with the source line they point at):
+    ${traceStr}
+
+    ${notes ? `DEVELOPER NOTES:\n    ${notes}\n` : ''}
+    ${formatContext(selection, "PROJECT FILES (every traced file is included)", activeFile?.path)}
+
+    Task (debug Mode): find the root cause of the error and fix it.
+    - Follow the frames: the line that raises the error is often not where the bad value comes from.
+    - Focus on Godot 4 pitfalls: null instances from wrong node paths or @onready order, freed objects, signal signatures,
+      typed-array and Variant type mismatches, cyclic preloads, Godot 3 APIs.
+    - 'code' is the complete fixed content of ${faultPath}. Put every other file the fix changes in 'files' with its res:// path and
+      COMPLETE content. Keep unrelated code unchanged.
+  `;
+
+  const strictTyping = config?.typing === 'strict';
+  const workspacePaths = projectFiles.map(f => f.path);
+
+  try {
+    const result = await generateWithRepairs(target, {
+      model: target.model,
+      messages: [{ role: 'user', parts: [{ text: prompt }] }],
+      systemInstruction: SYSTEM_INSTRUCTION,
+      jsonSchema: DEBUG_RESPONSE_SCHEMA,
+      thinkingBudget: thinkingBudgetFor(config, ToolMode.DEBUGGER)
+    }, text => validateCodeResponse(text, faultPath, strictTyping, faultPath.endsWith('.gdshader'), workspacePaths), config?.maxRepairAttempts ?? 0, options, 'explanation');
+    return { ...result, path: faultPath };
+  } catch (error) {
+    console.error(`${target.provider.label} Debug Error:`, error);
+    throw error;
+  }
+};
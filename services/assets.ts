@@ -0,0 +1,36 @@
+import { ProjectFile } from "../types";
+import { basename, dirname, joinPath } from "./paths";
+
+/**
+ * Image files of the workspace, newest generated first, then imported or created ones by path.
+ */
+export const imageAssets = (files: ProjectFile[]) =>
+  files.filter(f => f.language === 'image').sort((a, b) =>
+    (b.source?.createdAt ?? 0) - (a.source?.createdAt ?? 0) || a.path.localeCompare(b.path));
+
+/**
+ * A free name next to an asset for a new variation: hero.png -> hero_2 (or hero_3 when hero_2 exists).
+ */
+export const variationName = (files: ProjectFile[], path: string) => {
+  const stem = basename(path).replace(/\.\w+$/, '').replace(/_\d+$/, '');
+  const folder = dirname(path);
+  let n = 2;
+  while (files.some(f => f.path === joinPath(folder, `${stem}_${n}.png`))) n++;
+  return `${stem}_${n}`;
+};
+
+/**
+ * GDScript constant that preloads an asset, e.g. const HERO_TEXTURE: Texture2D = preload("res://art/hero.png").
+ */
+export const preloadStatement = (path: string, strictTyping: boolean) => {
+  const name = basename(path).replace(/\.\w+$/, '').replace(/[^A-Za-z0-9]+/g, '_').replace(/^(\d)/, '_$1').toUpperCase();
+  return `const ${name}_TEXTURE${strictTyping ? ': Texture2D' : ''} = preload("${path}")\n`;
+};
+
+/**
+ * Rewrites quoted references to a renamed file ("res://old.png") in the text files of the project.
+ */
+export const updateReferences = (files: ProjectFile[], from: string, to: string) =>
+  files.map(f => f.language !== 'image' && f.content.includes(`"${from}"`)
+    ? { ...f, content: f.content.split(`"${from}"`).join(`"${to}"`) }
+    : f);
@@ -0,0 +1,56 @@
+/**
+ * Images attached to requests (references, screenshots, concept art), read in the browser as data URLs.
+ */
+
+export const MAX_ATTACHMENTS = 4;
+
+// Longest side kept for an attachment; larger photos only cost tokens and upload time
+export const MAX_ATTACHMENT_SIDE = 1536;
+
+// Rough prompt cost of one attached image, for the pre-flight size estimate
+export const IMAGE_TOKEN_ESTIMATE = 1100;
+
+// Types image and vision models take as is; anything else (GIF, BMP, SVG...) is re-encoded as PNG
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error(`${file.name} could not be read.`));
+  reader.readAsDataURL(file);
+});
+
+const loadImage = (url: string, name: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error(`${name} is not an image the browser can decode.`));
+  image.src = url;
+});
+
+/**
+ * Reads an uploaded image as a data URL with its real MIME type, downscaled when its longest side is over
+ * MAX_ATTACHMENT_SIDE.
+ */
+export const readImageAttachment = async (file: File): Promise<string> => {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image.`);
+  const url = await readAsDataUrl(file);
+  const image = await loadImage(url, file.name);
+  const scale = Math.min(1, MAX_ATTACHMENT_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+  if (scale === 1 && PASSTHROUGH_TYPES.includes(file.type)) return url;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const context = canvas.getContext('2d')!;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL(PASSTHROUGH_TYPES.includes(file.type) ? file.type : 'image/png', 0.92);
+};
+
+/**
+ * Adds uploaded files to the attachments, up to MAX_ATTACHMENTS.
+ */
+export const addAttachments = async (images: string[], files: FileList | File[]) => [
+  ...images,
+  ...await Promise.all(Array.from(files).slice(0, Math.max(0, MAX_ATTACHMENTS - images.length)).map(readImageAttachment))
+];
@@ -0,0 +1,100 @@
+import { ChatMessage, ChatSummary, ProjectFile } from "../types";
+
+// Rough budget (in tokens) for the conversation replayed with a single chat request
+export const CHAT_HISTORY_TOKEN_BUDGET = 8000;
+
+/**
+ * Cheap token estimate (~4 characters per token). Good enough for budgeting, not for billing.
+ */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Messages that can be replayed to the model: drops failed replies and the UI-only greeting
+ * so the conversation always starts with a user turn.
+ */
+export const getReplayableMessages = (history: ChatMessage[]) => {
+  const messages = history.filter(m => !m.isError);
+  const firstUser = messages.findIndex(m => m.role === 'user');
+  return firstUser === -1 ? [] : messages.slice(firstUser);
+};
+
+/**
+ * Splits the conversation into the newest messages that fit the budget (replayed verbatim)
+ * and the older ones that have to be covered by a summary.
+ */
+export const trimChatHistory = (messages: ChatMessage[], budget = CHAT_HISTORY_TOKEN_BUDGET) => {
+  let used = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content);
+    if (used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+  // Never open the replayed window on a model turn
+  while (start < messages.length && messages[start].role !== 'user') start++;
+
+  return { dropped: messages.slice(0, start), kept: messages.slice(start) };
+};
+
+/**
+ * Returns the dropped messages that the existing summary does not cover yet.
+ */
+export const getUnsummarizedMessages = (dropped: ChatMessage[], summary: ChatSummary | null) => {
+  if (!summary) return dropped;
+  const coveredIndex = dropped.findIndex(m => m.id === summary.throughId);
+  return dropped.slice(coveredIndex + 1);
+};
+
+export type ChatSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; code: string; language: ProjectFile['language'] };
+
+const FENCE_LANGUAGES: Record<string, ProjectFile['language']> = {
+  gdscript: 'gdscript', gd: 'gdscript', python: 'gdscript', py: 'gdscript',
+  gdshader: 'shader', shader: 'shader', glsl: 'shader',
+  json: 'json',
+};
+
+/**
+ * Splits a model reply into prose and fenced code blocks. Unknown fence tags are treated as GDScript.
+ */
+export const parseChatSegments = (content: string): ChatSegment[] => {
+  const segments: ChatSegment[] = [];
+  const fence = /```([\w-]*)[^\n]*\n([\s\S]*?)```/g;
+  let last = 0;
+  for (const match of content.matchAll(fence)) {
+    const index = match.index ?? 0;
+    const text = content.slice(last, index).trim();
+    if (text) segments.push({ kind: 'text', text });
+    segments.push({ kind: 'code', code: match[2].replace(/\n$/, ''), language: FENCE_LANGUAGES[match[1].toLowerCase()] || 'gdscript' });
+    last = index + match[0].length;
+  }
+  const rest = content.slice(last).trim();
+  if (rest) segments.push({ kind: 'text', text: rest });
+  return segments;
+};
+
+/**
+ * The primary snippet of a reply (its first code block), stored on ChatMessage.codeSnippet.
+ */
+export const extractCodeSnippet = (content: string) => {
+  const block = parseChatSegments(content).find(s => s.kind === 'code');
+  return block && block.kind === 'code' ? block.code : undefined;
+};
+
+/**
+ * Suggests a file name for a snippet: its class_name (a scene's root node name) in snake_case, or a generic name by language.
+ */
+export const suggestFileName = (code: string, language: ProjectFile['language']) => {
+  if (language === 'scene') {
+    const rootName = code.match(/^\[node name="([^"]+)"/m)?.[1];
+    return rootName ? `${rootName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()}.tscn` : 'new_scene.tscn';
+  }
+  const ext = language === 'shader' ? 'gdshader' : language === 'json' ? 'json' : 'gd';
+  const className = code.match(/^class_name\s+(\w+)/m)?.[1];
+  if (className) {
+    return `${className.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()}.${ext}`;
+  }
+  return language === 'shader' ? 'new_shader.gdshader' : language === 'json' ? 'data.json' : 'new_script.gd';
+};
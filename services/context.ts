@@ -0,0 +1,146 @@
+import { ContextPreferences, ProjectFile } from "../types";
+import { estimateTokens } from "./chat";
+import { ProjectIndex, buildProjectIndex, findMentionedSymbols, formatOutline } from "./symbols";
+
+// Rough budgets (in tokens) for the project files sent with a single request
+export const CONTEXT_TOKEN_BUDGET = 12000;
+export const CONTEXT_OUTLINE_BUDGET = 2000;
+
+// Why a file was considered, from the most to the least relevant
+export type ContextReason = 'active' | 'traced' | 'pinned' | 'mentioned' | 'dependency' | 'dependent' | 'related' | 'other';
+
+// full = content sent, outline = only its declarations, omitted = didn't fit, excluded = by the user
+export type ContextInclusion = 'full' | 'outline' | 'omitted' | 'excluded';
+
+export interface ContextEntry {
+  path: string;
+  reason: ContextReason;
+  inclusion: ContextInclusion;
+  tokens: number; // Cost of the full content
+}
+
+export interface ContextSelection {
+  entries: ContextEntry[];
+  files: ProjectFile[]; // Files sent in full, most relevant first
+  outlines: string[]; // Declarations of the files that didn't fit
+  autoloads: [string, string][]; // [name, path] of the project's autoload singletons
+  usedTokens: number;
+  budget: number;
+}
+
+const REASON_ORDER: ContextReason[] = ['active', 'traced', 'pinned', 'mentioned', 'dependency', 'dependent', 'related', 'other'];
+
+const dirname = (path: string) => path.slice(0, path.lastIndexOf('/'));
+
+const mentionedPaths = (projectFiles: ProjectFile[], index: ProjectIndex, query: string) => {
+  const text = query.toLowerCase();
+  const paths = new Set(projectFiles
+    .filter(f => {
+      const name = f.name.toLowerCase();
+      return text.includes(name) || text.includes(name.replace(/\.[^.]+$/, ''));
+    })
+    .map(f => f.path));
+  findMentionedSymbols(index, query).forEach(symbol => paths.add(symbol.path));
+  return paths;
+};
+
+export interface ContextOptions {
+  budget?: number;
+  index?: ProjectIndex; // Reused when the caller already built it
+  traced?: string[]; // Files of an error's stack trace (debugger)
+}
+
+/**
+ * Picks the project files to send with a request, within a token budget. The active, traced and pinned files
+ * always go in full, then files the query mentions (by name or by one of their symbols), the files those
+ * depend on, the files that depend on the active one, its folder neighbours and the rest.
+ * Scripts that don't fit are sent as outlines of their declarations; excluded files are never sent.
+ */
+export const selectContext = (
+  projectFiles: ProjectFile[],
+  activeFileId: string,
+  query: string,
+  preferences: ContextPreferences = { pinned: [], excluded: [] },
+  { budget = CONTEXT_TOKEN_BUDGET, index = buildProjectIndex(projectFiles), traced = [] }: ContextOptions = {}
+): ContextSelection => {
+  const active = projectFiles.find(f => f.id === activeFileId);
+  const mentioned = mentionedPaths(projectFiles, index, query);
+  const focus = [active?.path, ...traced, ...preferences.pinned, ...mentioned].filter((p): p is string => !!p);
+  const dependencies = new Set(focus.flatMap(path => index.files.get(path)?.references ?? []));
+  const dependents = new Set(active ? index.dependents.get(active.path) ?? [] : []);
+
+  const reasonOf = (file: ProjectFile): ContextReason => {
+    if (file.id === activeFileId) return 'active';
+    if (traced.includes(file.path)) return 'traced';
+    if (preferences.pinned.includes(file.path)) return 'pinned';
+    if (mentioned.has(file.path)) return 'mentioned';
+    if (dependencies.has(file.path)) return 'dependency';
+    if (dependents.has(file.path)) return 'dependent';
+    if (active && dirname(file.path) === dirname(active.path)) return 'related';
+    return 'other';
+  };
+
+  const ranked = projectFiles
+    .filter(file => file.language !== 'image') // Data URLs, never useful to a text model
+    .map(file => ({ file, reason: reasonOf(file), tokens: estimateTokens(file.content) }))
+    .sort((a, b) => REASON_ORDER.indexOf(a.reason) - REASON_ORDER.indexOf(b.reason));
+
+  const entries: ContextEntry[] = [];
+  const files: ProjectFile[] = [];
+  const outlines: string[] = [];
+  let usedTokens = 0;
+  let outlineTokens = 0;
+
+  ranked.forEach(({ file, reason, tokens }) => {
+    const add = (inclusion: ContextInclusion) => entries.push({ path: file.path, reason, inclusion, tokens });
+    if (reason !== 'active' && reason !== 'traced' && preferences.excluded.includes(file.path)) return add('excluded');
+
+    if (reason === 'active' || reason === 'traced' || reason === 'pinned' || usedTokens + tokens <= budget) {
+      files.push(file);
+      usedTokens += tokens;
+      return add('full');
+    }
+    const fileIndex = index.files.get(file.path);
+    if (fileIndex && fileIndex.symbols.length > 0) {
+      const outline = formatOutline(fileIndex);
+      const cost = estimateTokens(outline);
+      if (outlineTokens + cost <= CONTEXT_OUTLINE_BUDGET) {
+        outlines.push(outline);
+        outlineTokens += cost;
+        return add('outline');
+      }
+    }
+    add('omitted');
+  });
+
+  return {
+    entries,
+    files,
+    outlines,
+    autoloads: Array.from(index.autoloads.entries()),
+    usedTokens: usedTokens + outlineTokens,
+    budget
+  };
+};
+
+/**
+ * Prompt block for a selection: full files under the heading, then outlines, autoloads and what was left out.
+ */
+export const formatContext = (selection: ContextSelection, heading: string, activePath?: string) => {
+  let text = "";
+  if (selection.files.length > 0) {
+    text += `${heading}:\n`;
+    selection.files.forEach(f => { text += `--- FILE: ${f.path}${f.path === activePath ? ' (active)' : ''} ---\n${f.content}\n\n`; });
+  }
+  if (selection.outlines.length > 0) {
+    text += `OTHER PROJECT SCRIPTS (declarations only, their code was left out for size):\n${selection.outlines.join('\n\n')}\n\n`;
+  }
+  if (selection.autoloads.length > 0) {
+    text += `AUTOLOADS (global singletons): ${selection.autoloads.map(([name, path]) => `${name} (${path})`).join(', ')}\n\n`;
+  }
+  const omitted = selection.entries.filter(e => e.inclusion === 'omitted');
+  if (omitted.length > 0) {
+    text += `(${omitted.length} other file(s) omitted: ${omitted.map(e => e.path).join(', ')})\n`;
+  }
+  return text;
+};
@@ -0,0 +1,119 @@
+export type DiffOp =
+  | { type: 'equal'; text: string; oldLine: number; newLine: number }
+  | { type: 'remove'; text: string; oldLine: number }
+  | { type: 'add'; text: string; newLine: number };
+
+/**
+ * A contiguous block of changes. oldStart/newStart are 0-based line indexes into the original and proposed text.
+ */
+export interface Hunk {
+  id: number;
+  oldStart: number;
+  newStart: number;
+  removed: string[];
+  added: string[];
+}
+
+// An empty file has no lines, so a new file diffs as pure additions
+export const splitLines = (text: string) => text === '' ? [] : text.split('\n');
+
+/**
+ * Line-based LCS diff. Source files here are small enough for the quadratic table;
+ * a common prefix/suffix is trimmed first so typical edits stay cheap.
+ */
+export const diffLines = (oldText: string, newText: string): DiffOp[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  for (let k = 0; k < prefix; k++) ops.push({ type: 'equal', text: a[k], oldLine: k, newLine: k });
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      ops.push({ type: 'equal', text: midA[i], oldLine: prefix + i, newLine: prefix + j });
+      i++;
+      j++;
+    } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+      ops.push({ type: 'add', text: midB[j], newLine: prefix + j });
+      j++;
+    } else {
+      ops.push({ type: 'remove', text: midA[i], oldLine: prefix + i });
+      i++;
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    ops.push({ type: 'equal', text: a[a.length - suffix + k], oldLine: a.length - suffix + k, newLine: b.length - suffix + k });
+  }
+  return ops;
+};
+
+/**
+ * Groups a diff into hunks of consecutive removals/additions.
+ */
+export const computeHunks = (ops: DiffOp[]): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  ops.forEach(op => {
+    if (op.type === 'equal') {
+      current = null;
+      oldIndex++;
+      newIndex++;
+      return;
+    }
+    if (!current) {
+      current = { id: hunks.length, oldStart: oldIndex, newStart: newIndex, removed: [], added: [] };
+      hunks.push(current);
+    }
+    if (op.type === 'remove') {
+      current.removed.push(op.text);
+      oldIndex++;
+    } else {
+      current.added.push(op.text);
+      newIndex++;
+    }
+  });
+  return hunks;
+};
+
+/**
+ * Rebuilds the file from the original, taking the proposed lines only for accepted hunks.
+ */
+export const applyHunks = (oldText: string, hunks: Hunk[], accepted: Set<number>) => {
+  const lines = splitLines(oldText);
+  const result: string[] = [];
+  let cursor = 0;
+
+  hunks.forEach(hunk => {
+    result.push(...lines.slice(cursor, hunk.oldStart));
+    result.push(...(accepted.has(hunk.id) ? hunk.added : hunk.removed));
+    cursor = hunk.oldStart + hunk.removed.length;
+  });
+  result.push(...lines.slice(cursor));
+  return result.join('\n');
+};
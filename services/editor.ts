@@ -0,0 +1,214 @@
+import { SyntaxLanguage, tokenize } from "./syntax";
+
+// Godot's script editor indents with tabs by default
+export const INDENT = '\t';
+export const TAB_SIZE = 4;
+
+export interface EditResult {
+  code: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export const lineStartOf = (code: string, offset: number) => code.lastIndexOf('\n', offset - 1) + 1;
+
+const lineEndOf = (code: string, offset: number) => {
+  const end = code.indexOf('\n', offset);
+  return end === -1 ? code.length : end;
+};
+
+/**
+ * 0-based line and visual column (tabs expanded) of an offset, for positioning overlays on the text.
+ */
+export const offsetToPosition = (code: string, offset: number) => {
+  const start = lineStartOf(code, offset);
+  let line = 0;
+  for (let i = 0; i < start; i++) if (code[i] === '\n') line++;
+  return { line, column: visualWidth(code.slice(start, offset)) };
+};
+
+export const visualWidth = (text: string) => {
+  let width = 0;
+  for (const ch of text) width = ch === '\t' ? width + TAB_SIZE - (width % TAB_SIZE) : width + 1;
+  return width;
+};
+
+export const lineOffset = (code: string, line: number) => {
+  let offset = 0;
+  for (let i = 1; i < line; i++) {
+    const next = code.indexOf('\n', offset);
+    if (next === -1) return code.length;
+    offset = next + 1;
+  }
+  return offset;
+};
+
+// Range of whole lines covered by a selection; a selection ending at column 0 doesn't include that line
+const selectedLineRange = (code: string, start: number, end: number) => {
+  const from = lineStartOf(code, start);
+  const to = end > start && code[end - 1] === '\n' ? end - 1 : lineEndOf(code, end);
+  return { from, to };
+};
+
+/**
+ * Tab: inserts an indent at the caret, or indents every selected line.
+ */
+export const indentSelection = (code: string, start: number, end: number): EditResult => {
+  if (start === end || !code.slice(start, end).includes('\n')) {
+    const next = code.slice(0, start) + INDENT + code.slice(end);
+    return { code: next, selectionStart: start + INDENT.length, selectionEnd: start + INDENT.length };
+  }
+  const { from, to } = selectedLineRange(code, start, end);
+  const lines = code.slice(from, to).split('\n');
+  const block = lines.map(l => INDENT + l).join('\n');
+  return {
+    code: code.slice(0, from) + block + code.slice(to),
+    selectionStart: start + INDENT.length,
+    selectionEnd: end + INDENT.length * lines.length
+  };
+};
+
+/**
+ * Shift+Tab: removes one indent level (a tab or up to TAB_SIZE spaces) from every selected line.
+ */
+export const outdentSelection = (code: string, start: number, end: number): EditResult => {
+  const { from, to } = selectedLineRange(code, start, end);
+  let removedBeforeStart = 0;
+  let removedTotal = 0;
+  const lines = code.slice(from, to).split('\n').map((line, index) => {
+    const removed = line.match(new RegExp(`^(\\t| {1,${TAB_SIZE}})`))?.[0].length ?? 0;
+    if (index === 0) removedBeforeStart = Math.min(removed, start - from);
+    removedTotal += removed;
+    return line.slice(removed);
+  });
+  return {
+    code: code.slice(0, from) + lines.join('\n') + code.slice(to),
+    selectionStart: start - removedBeforeStart,
+    selectionEnd: Math.max(start - removedBeforeStart, end - removedTotal)
+  };
+};
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+// Statements after which GDScript code can't continue in the same block
+const BLOCK_EXIT_REGEX = /^(return\b|pass$|break$|continue$)/;
+
+/**
+ * Enter: keeps the current indentation, adds a level after ':' (GDScript) or an opening bracket,
+ * and drops one after return/pass/break/continue.
+ */
+export const newlineWithIndent = (code: string, start: number, end: number, language: SyntaxLanguage): EditResult => {
+  const line = code.slice(lineStartOf(code, start), start);
+  const indent = line.match(/^[ \t]*/)![0];
+  const trimmed = line.replace(/(#|\/\/).*$/, '').trim();
+  const before = trimmed[trimmed.length - 1];
+
+  let nextIndent = indent;
+  if ((language !== 'shader' && before === ':') || (before && OPENERS[before])) nextIndent += INDENT;
+  else if (language !== 'shader' && BLOCK_EXIT_REGEX.test(trimmed)) nextIndent = indent.replace(/(\t| {1,4})$/, '');
+
+  // Between a bracket pair the closing bracket goes on its own line: "{|}" -> "{\n\t|\n}"
+  const after = code[end];
+  if (before && OPENERS[before] && OPENERS[before] === after && line.trimEnd().endsWith(before)) {
+    const insert = `\n${nextIndent}\n${indent}`;
+    const caret = start + 1 + nextIndent.length;
+    return { code: code.slice(0, start) + insert + code.slice(end), selectionStart: caret, selectionEnd: caret };
+  }
+
+  const insert = `\n${nextIndent}`;
+  return { code: code.slice(0, start) + insert + code.slice(end), selectionStart: start + insert.length, selectionEnd: start + insert.length };
+};
+
+/**
+ * Finds the bracket matching the one next to the caret (before it first, then after it).
+ * Brackets inside strings and comments are ignored.
+ */
+export const findMatchingBracket = (code: string, caret: number, language: SyntaxLanguage): [number, number] | null => {
+  const ignored: [number, number][] = [];
+  let offset = 0;
+  tokenize(code, language).forEach(token => {
+    if (token.type === 'string' || token.type === 'comment') ignored.push([offset, offset + token.text.length]);
+    offset += token.text.length;
+  });
+  const isCode = (i: number) => !ignored.some(([from, to]) => i >= from && i < to);
+
+  const candidates = [caret - 1, caret].filter(i => i >= 0 && i < code.length && (OPENERS[code[i]] || CLOSERS[code[i]]) && isCode(i));
+  for (const index of candidates) {
+    const ch = code[index];
+    const forward = Boolean(OPENERS[ch]);
+    const partner = forward ? OPENERS[ch] : CLOSERS[ch];
+    let depth = 0;
+    for (let i = index; forward ? i < code.length : i >= 0; i += forward ? 1 : -1) {
+      if (code[i] !== ch && code[i] !== partner) continue;
+      if (!isCode(i)) continue;
+      depth += code[i] === ch ? 1 : -1;
+      if (depth === 0) return forward ? [index, i] : [i, index];
+    }
+  }
+  return null;
+};
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  regex: boolean;
+}
+
+export interface SearchMatch {
+  start: number;
+  end: number;
+}
+
+const buildSearchRegex = (query: string, options: SearchOptions) => {
+  try {
+    const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+  } catch {
+    return null; // Incomplete regex while typing
+  }
+};
+
+export const findMatches = (code: string, query: string, options: SearchOptions): SearchMatch[] => {
+  const regex = query && buildSearchRegex(query, options);
+  if (!regex) return [];
+  return Array.from(code.matchAll(regex))
+    .filter(m => m[0].length > 0)
+    .map(m => ({ start: m.index ?? 0, end: (m.index ?? 0) + m[0].length }));
+};
+
+/**
+ * Replaces the given matches (all of them, or a single one). In regex mode the replacement may use $1 group references.
+ */
+export const replaceMatches = (code: string, matches: SearchMatch[], query: string, replacement: string, options: SearchOptions) => {
+  const regex = buildSearchRegex(query, options);
+  let result = code;
+  [...matches].sort((a, b) => b.start - a.start).forEach(m => {
+    const text = code.slice(m.start, m.end);
+    const replaced = options.regex && regex ? text.replace(new RegExp(regex.source, regex.flags.replace('g', '')), replacement) : replacement;
+    result = result.slice(0, m.start) + replaced + result.slice(m.end);
+  });
+  return result;
+};
+
+// "res://player.gd:12" style references, used to link panels (chat, insight) to editor lines
+export interface CodeLocation {
+  path: string;
+  line: number;
+}
+
+export const formatLocation = (location: CodeLocation) => `${location.path}:${location.line}`;
+
+export type LocationSegment = { kind: 'text'; text: string } | { kind: 'location'; text: string; location: CodeLocation };
+
+export const splitLocations = (text: string): LocationSegment[] => {
+  const segments: LocationSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(/(res:\/\/[\w\-./]+\.\w+):(\d+)/g)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ kind: 'text', text: text.slice(last, index) });
+    segments.push({ kind: 'location', text: match[0], location: { path: match[1], line: Number(match[2]) } });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ kind: 'text', text: text.slice(last) });
+  return segments;
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parseErrorLog } from './errorlog';
+
+const files = [{ path: 'res://player.gd' }, { path: 'res://enemies/slime.gd' }];
+
+describe('parseErrorLog', () => {
+  it('reads "path:line - message" lines as headers carrying their own frame', () => {
+    const errors = parseErrorLog('res://player.gd:7 - Parse Error: Unexpected token', files);
+    expect(errors).toEqual([{
+      kind: 'parse',
+      message: 'Unexpected token',
+      frames: [{ location: { path: 'res://player.gd', line: 7 }, functionName: undefined, resolved: true }]
+    }]);
+  });
+
+  it('starts a new error for a "path:line - message" line after another error', () => {
+    const errors = parseErrorLog([
+      'SCRIPT ERROR: Invalid call. Nonexistent function \'jump\'.',
+      '   at: _process (res://enemies/slime.gd:12)',
+      'res://player.gd:7 - Parse Error: Unexpected token',
+    ].join('\n'), files);
+    expect(errors).toHaveLength(2);
+    expect(errors[0].frames.map(f => f.location)).toEqual([{ path: 'res://enemies/slime.gd', line: 12 }]);
+    expect(errors[1]).toMatchObject({ kind: 'parse', message: 'Unexpected token', frames: [{ location: { path: 'res://player.gd', line: 7 } }] });
+  });
+
+  it('keeps "- at function:" lines as frames of the error above', () => {
+    const errors = parseErrorLog([
+      'SCRIPT ERROR: Division by zero error in operator \'/\'.',
+      'res://player.gd:20 - at function: _physics_process',
+    ].join('\n'), files);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].frames).toEqual([{ location: { path: 'res://player.gd', line: 20 }, functionName: '_physics_process', resolved: true }]);
+  });
+
+  it('reads SCRIPT ERROR headers with their stack trace', () => {
+    const errors = parseErrorLog([
+      'SCRIPT ERROR: Invalid get index \'position\' (on base: \'null instance\').',
+      '          at: _process (res://enemies/slime.gd:30)',
+      '          at: _ready (res://player.gd:4)',
+    ].join('\n'), files);
+    expect(errors).toEqual([{
+      kind: 'script',
+      message: 'Invalid get index \'position\' (on base: \'null instance\').',
+      frames: [
+        { location: { path: 'res://enemies/slime.gd', line: 30 }, functionName: '_process', resolved: true },
+        { location: { path: 'res://player.gd', line: 4 }, functionName: '_ready', resolved: true },
+      ]
+    }]);
+  });
+
+  it('reads the inline frame of Debugger "Invalid get index" entries', () => {
+    const errors = parseErrorLog([
+      'E 0:00:01:0234   slime.gd:30 @ _process(): Invalid get index \'position\' (on base: \'null instance\').',
+      '  <C++ Source>  core/variant/variant.cpp:1234 @ get()',
+      '  <Stack Trace> slime.gd:30 @ _process()',
+    ].join('\n'), files);
+    expect(errors).toEqual([{
+      kind: 'script',
+      message: 'Invalid get index \'position\' (on base: \'null instance\').',
+      frames: [{ location: { path: 'res://enemies/slime.gd', line: 30 }, functionName: '_process', resolved: true }]
+    }]);
+  });
+});
@@ -0,0 +1,125 @@
+import { ProjectFile } from "../types";
+import { CodeLocation } from "./editor";
+
+export type GodotErrorKind = 'script' | 'parse' | 'error' | 'warning';
+
+export interface StackFrame {
+  location: CodeLocation; // Workspace path when the file was found, the path as logged otherwise
+  functionName?: string;
+  resolved: boolean; // The file exists in the workspace
+}
+
+export interface GodotError {
+  kind: GodotErrorKind;
+  message: string;
+  frames: StackFrame[]; // Innermost first, as Godot prints them
+}
+
+// Headers of the Output panel / terminal ("SCRIPT ERROR: ...") and of the Debugger > Errors tab ("E 0:00:01:0123   ...")
+const HEADER_REGEX = /^\s*(SCRIPT ERROR|USER SCRIPT ERROR|Parse Error|Parser Error|ERROR|USER ERROR|WARNING|USER WARNING|SCRIPT WARNING):\s*(.*)$/;
+const DEBUGGER_HEADER_REGEX = /^\s*([EW])\s+\d+:\d+:\d+[:.]\d+\s+(.*)$/;
+// "res://player.gd:42 - Parse Error: Unexpected token": the location comes first (but "- at function:" lines are frames)
+const LOCATION_HEADER_REGEX = /^\s*((?:res:\/\/)?[\w\-./]*[\w\-]\.(?:gd|gdshader|tscn|tres):\d+)\s+-\s+(?!at function:|at:)(.*)$/;
+// The type in front of a message: "Parse Error: ...", "Warning: ..."
+const MESSAGE_TYPE_REGEX = /^([A-Za-z ]*(?:Error|Warning)):\s*(.*)$/i;
+// "res://player.gd:42", "player.gd:42"; engine sources (.cpp, .h) are not frames
+const FRAME_REGEX = /((?:res:\/\/)?[\w\-./]*[\w\-]\.(?:gd|gdshader|tscn|tres)):(\d+)/g;
+// Function names around a frame, in the formats of Godot 4 (and pasted Godot 3 traces)
+const FUNCTION_BEFORE = /at:\s*([\w.:]+)\s*\($/; // "at: _ready (res://main.gd:10)"
+const FUNCTION_AFTER = [
+  /^\s*@\s*([\w.:]+)\(/, // "main.gd:10 @ _ready()"
+  /^\s*-\s*at function:\s*([\w.:]+)/, // "res://main.gd:10 - at function: _ready"
+  /^\s*in function\s*'([\w.:]+)'/, // "res://main.gd:10 in function '_ready'"
+];
+
+const kindOf = (header: string): GodotErrorKind =>
+  /parse/i.test(header) ? 'parse' : /warning/i.test(header) ? 'warning' : /script/i.test(header) ? 'script' : 'error';
+
+/**
+ * Maps a logged path to a workspace file: the exact res:// path, or else the only file ending with it
+ * (the Debugger tab only prints "player.gd"). Ambiguous names stay unresolved.
+ */
+export const resolveLoggedPath = (logged: string, files: Pick<ProjectFile, 'path'>[]) => {
+  const path = logged.startsWith('res://') ? logged : `res://${logged.replace(/^\.?\//, '')}`;
+  if (files.some(f => f.path === path)) return path;
+  const name = logged.replace(/^res:\/\//, '');
+  const candidates = files.filter(f => f.path.endsWith(`/${name}`));
+  return candidates.length === 1 ? candidates[0].path : null;
+};
+
+const framesIn = (line: string, files: Pick<ProjectFile, 'path'>[]): StackFrame[] =>
+  Array.from(line.matchAll(FRAME_REGEX)).map(match => {
+    const index = match.index ?? 0;
+    const before = line.slice(0, index);
+    const after = line.slice(index + match[0].length);
+    const functionName = before.match(FUNCTION_BEFORE)?.[1] ?? FUNCTION_AFTER.map(pattern => after.match(pattern)?.[1]).find(Boolean);
+    const resolved = resolveLoggedPath(match[1], files);
+    return {
+      location: { path: resolved ?? match[1], line: Number(match[2]) },
+      functionName,
+      resolved: resolved !== null,
+    };
+  });
+
+/**
+ * Parses a pasted Godot error log (Output panel, terminal or Debugger > Errors tab) into errors with their
+ * stack frames, mapped to workspace files. Lines without a header are attached to the error above them;
+ * a trace pasted without any header becomes a single error.
+ */
+export const parseErrorLog = (log: string, files: Pick<ProjectFile, 'path'>[]): GodotError[] => {
+  const errors: GodotError[] = [];
+  let current: GodotError | null = null;
+
+  log.split('\n').forEach(raw => {
+    const line = raw.replace(/\r$/, '');
+    if (!line.trim()) return;
+    // C++ source locations belong to the engine, not the project
+    if (/<C\+\+ (Source|Error)>/.test(line)) return;
+
+    const locationHeader = line.match(LOCATION_HEADER_REGEX);
+    if (locationHeader) {
+      const typed = locationHeader[2].match(MESSAGE_TYPE_REGEX);
+      current = {
+        kind: typed ? kindOf(typed[1]) : 'error',
+        message: (typed ? typed[2] : locationHeader[2]).trim(),
+        frames: framesIn(locationHeader[1], files)
+      };
+      errors.push(current);
+      return;
+    }
+
+    const header = line.match(HEADER_REGEX);
+    const debuggerHeader = !header && line.match(DEBUGGER_HEADER_REGEX);
+    if (header || debuggerHeader) {
+      const rest = header ? header[2] : (debuggerHeader as RegExpMatchArray)[2];
+      const kind = header ? kindOf(header[1]) : (debuggerHeader as RegExpMatchArray)[1] === 'W' ? 'warning' : 'script';
+      // "player.gd:42 @ _process(): Invalid get index..." carries the innermost frame before the message
+      const inline = rest.match(/^((?:res:\/\/)?[\w\-./]+\.\w+:\d+\s*@\s*[\w.:]+\(\)):\s*(.*)$/);
+      current = { kind, message: (inline ? inline[2] : rest).trim(), frames: inline ? framesIn(inline[1], files) : [] };
+      errors.push(current);
+      return;
+    }
+
+    const frames = framesIn(line, files);
+    if (!current) {
+      current = { kind: 'error', message: frames.length > 0 ? 'Stack trace' : line.trim(), frames: [] };
+      errors.push(current);
+    }
+    frames.forEach(frame => {
+      const known = current!.frames.some(f => f.location.path === frame.location.path && f.location.line === frame.location.line);
+      if (!known) current!.frames.push(frame);
+    });
+    // Continuation of the message ("(on base: 'null instance')") when the header line wrapped
+    if (frames.length === 0 && current.frames.length === 0 && current.message !== line.trim() && !/^\s*(at:|<Stack Trace>)/.test(line)) {
+      current.message += ` ${line.trim()}`;
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Workspace files appearing in the trace, innermost frames first.
+ */
+export const tracedPaths = (errors: GodotError[]) =>
+  Array.from(new Set(errors.flatMap(e => e.frames.filter(f => f.resolved).map(f => f.location.path))));
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { isBlocking, lintGDScript } from './gdscript';
+
+const lint = (source: string, strictTyping = false) =>
+  lintGDScript(source, { strictTyping }).map(d => `${d.line}:${d.column ?? '-'} ${d.severity} ${d.rule}: ${d.message}`);
+
+const PLAYER = `extends CharacterBody2D
+
+signal died(cause: String)
+
+const SPEED := 200.0
+@export var health: int = 3
+@onready var sprite: Sprite2D = $Sprite
+
+func _physics_process(delta: float) -> void:
+	var direction := Input.get_axis("left", "right")
+	if direction != 0 and health > 0:
+		velocity.x = direction * SPEED
+	elif health == 0:
+		died.emit("fall")
+	else:
+		velocity.x = move_toward(velocity.x, 0, SPEED)
+	var hint := "if x = 1: # not code"
+	move_and_slide()
+`;
+
+describe('lintGDScript', () => {
+  it('accepts valid, fully typed Godot 4 code', () => {
+    expect(lint(PLAYER, true)).toEqual([]);
+  });
+
+  it('joins statements across brackets, continuations and multiline strings', () => {
+    const source = [
+      'func _ready() -> void:',
+      '\tvar points := [',
+      '1, 2,',
+      '\t\t3]',
+      '\tvar total := 1 + \\',
+      '2',
+      '\tvar text := """',
+      'else if True:',
+      '"""',
+      '\tprint(points, total, text)',
+    ].join('\n');
+    expect(lint(source, true)).toEqual([]);
+  });
+
+  it('flags Godot 3 constructs and renamed classes', () => {
+    const source = [
+      'extends KinematicBody2D',
+      'export var speed = 100',
+      'func _ready():',
+      '\tyield(get_tree(), "idle_frame")',
+      '\tvar mob = scene.instance()',
+      '\tvar marker = $Sprite',
+    ].join('\n');
+    expect(lint(source)).toEqual([
+      "1:9 error godot3: 'KinematicBody2D' was renamed to 'CharacterBody2D' in Godot 4.",
+      "2:1 error godot3: 'export' was replaced by the @export annotation.",
+      "4:2 error godot3: yield() was removed in Godot 4. Use 'await some_signal'.",
+      '5:2 error godot3: PackedScene.instance() was renamed to instantiate().',
+    ]);
+  });
+
+  it('flags Python habits', () => {
+    const source = [
+      'def jump():',
+      '\tpass',
+      'func fall():',
+      '\tif x == None:',
+      '\t\treturn True',
+      '\telse if y:',
+      '\t\tpass',
+    ].join('\n');
+    expect(lint(source)).toEqual([
+      "1:1 error syntax: 'def' is Python. GDScript functions are declared with 'func'.",
+      "4:10 error syntax: 'None' is not declared. Use 'null'.",
+      "5:10 error syntax: 'True' is not declared. Use 'true'.",
+      "6:2 error syntax: Use 'elif' instead of 'else if'.",
+    ]);
+  });
+
+  it('reports syntax errors in statements and brackets', () => {
+    const source = [
+      'func _ready() -> void:',
+      '\tif health = 0:',
+      '\t\tpass',
+      '\twhile true',
+      '\t\tpass',
+      '\tfor 1 in range(3):',
+      '\t\tpass',
+      '\tvar text := "unterminated',
+      '\tprint((1 + 2])',
+    ].join('\n');
+    expect(lint(source)).toEqual([
+      "2:2 error syntax: Assignment is not allowed in a condition. Use '=='.",
+      "4:2 error syntax: Expected ':' after 'while' statement.",
+      "6:2 error syntax: Expected 'for <variable> in <expression>:'.",
+      '8:14 error syntax: Unterminated string.',
+      "9:14 error syntax: Expected ')' to close '(' from line 9, found ']'.",
+    ]);
+  });
+
+  it('reports indentation errors', () => {
+    const source = [
+      'func a() -> void:',
+      'pass',
+      '\tvar x := 1',
+      'func b() -> void:',
+      '\t\tvar y := 1',
+      '\tvar z := 2',
+      'func c() -> void:',
+      '\t var w := 3',
+      'func e() -> void:',
+      '    var v := 4',
+      'func d() -> void:',
+    ].join('\n');
+    expect(lint(source)).toEqual([
+      '2:1 error indentation: Expected an indented block after line 1.',
+      '3:1 error indentation: Unexpected indentation.',
+      '6:1 error indentation: Unindent does not match any outer indentation level.',
+      '8:1 error indentation: Mixed tabs and spaces in indentation.',
+      '10:1 warning indentation: Indented with spaces, but the rest of the file uses tabs.',
+      '11:- error indentation: Expected an indented block at the end of the file.',
+    ]);
+  });
+
+  it('asks for static types only with strict typing', () => {
+    const source = [
+      'var speed = 10',
+      'func move(delta, direction: Vector2):',
+      '\tpass',
+      'func _init():',
+      '\tpass',
+    ].join('\n');
+    expect(lint(source)).toEqual([]);
+    expect(lint(source, true)).toEqual([
+      "1:1 warning typing: Variable 'speed' has no static type. Use 'var speed: Type' or ':='.",
+      "2:1 warning typing: Parameter 'delta' of 'move()' has no static type.",
+      "2:1 warning typing: Function 'move()' has no return type. Add '-> void' if it returns nothing.",
+    ]);
+  });
+});
+
+describe('isBlocking', () => {
+  it('blocks on errors, and on missing types only with strict typing', () => {
+    const [typing] = lintGDScript('var speed = 10', { strictTyping: true });
+    const [error] = lintGDScript('def f():\n\tpass', { strictTyping: false });
+    expect(isBlocking(error, false)).toBe(true);
+    expect(isBlocking(typing, true)).toBe(true);
+    expect(isBlocking(typing, false)).toBe(false);
+  });
+});
@@ -0,0 +1,308 @@
+import { Diagnostic, DiagnosticRule, DiagnosticSeverity } from "../types";
+import { visualWidth } from "./editor";
+
+export interface LintOptions {
+  strictTyping: boolean;
+}
+
+/**
+ * One statement: physical lines joined across open brackets, backslash continuations and multiline strings.
+ * code has comments removed and string contents blanked out (same length), so checks never match inside strings.
+ */
+interface LogicalLine {
+  line: number;
+  indent: string;
+  code: string;
+}
+
+const PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+// Constructs that only exist in Godot 3 and fail to parse (or resolve) in Godot 4
+const GODOT3_PATTERNS: { pattern: RegExp; message: string }[] = [
+  { pattern: /\byield\s*\(/, message: "yield() was removed in Godot 4. Use 'await some_signal'." },
+  { pattern: /^export\b/, message: "'export' was replaced by the @export annotation." },
+  { pattern: /^onready\b/, message: "'onready' was replaced by the @onready annotation." },
+  { pattern: /^tool$/, message: "'tool' was replaced by the @tool annotation." },
+  { pattern: /^(remote|master|puppet|remotesync|mastersync|puppetsync)\b/, message: "RPC keywords were replaced by the @rpc annotation." },
+  { pattern: /\bsetget\b/, message: "'setget' was removed. Declare the property with get:/set(value): blocks." },
+  { pattern: /\b(connect|disconnect)\(\s*"[^"]*"\s*,\s*[\w.]+\s*,\s*"/, message: "Godot 3 connect() signature. Use signal_name.connect(callable) instead." },
+  { pattern: /\bmove_and_slide\(\s*[^)\s]/, message: "move_and_slide() takes no arguments in Godot 4. Set 'velocity' and call move_and_slide()." },
+  { pattern: /\.instance\(\)/, message: "PackedScene.instance() was renamed to instantiate()." },
+  { pattern: /\bTween\.new\(\)/, message: "Tweens can't be created with Tween.new() in Godot 4. Use create_tween()." },
+  { pattern: /\b(File|Directory)\.new\(\)/, message: "File/Directory were replaced by the static FileAccess/DirAccess APIs." },
+  { pattern: /\bchange_scene\(/, message: "change_scene() was renamed to change_scene_to_file()." },
+  { pattern: /\brand_range\(/, message: "rand_range() was renamed to randf_range()." },
+  { pattern: /\bstepify\(/, message: "stepify() was renamed to snapped()." },
+  { pattern: /\b(deg2rad|rad2deg)\(/, message: "deg2rad()/rad2deg() were renamed to deg_to_rad()/rad_to_deg()." },
+  { pattern: /\bfuncref\(/, message: "funcref() was removed. Use a Callable (e.g. my_method or Callable(obj, \"method\"))." },
+  { pattern: /\bOS\.get_ticks_(msec|usec)\(/, message: "OS.get_ticks_*() moved to Time.get_ticks_*()." },
+  { pattern: /\bBUTTON_(LEFT|RIGHT|MIDDLE|WHEEL_UP|WHEEL_DOWN)\b/, message: "Mouse button constants are now MOUSE_BUTTON_*." },
+];
+
+// Classes renamed in Godot 4
+const RENAMED_CLASSES: Record<string, string> = {
+  KinematicBody2D: 'CharacterBody2D',
+  KinematicBody: 'CharacterBody3D',
+  Spatial: 'Node3D',
+  Position2D: 'Marker2D',
+  Position3D: 'Marker3D',
+  Particles2D: 'GPUParticles2D',
+  Particles: 'GPUParticles3D',
+  Sprite: 'Sprite2D',
+  TileMap3D: 'GridMap',
+  Navigation2D: 'NavigationRegion2D',
+  VisibilityNotifier2D: 'VisibleOnScreenNotifier2D',
+  PoolStringArray: 'PackedStringArray',
+  PoolIntArray: 'PackedInt32Array',
+  PoolRealArray: 'PackedFloat32Array',
+  PoolVector2Array: 'PackedVector2Array',
+  PoolVector3Array: 'PackedVector3Array',
+  PoolByteArray: 'PackedByteArray',
+  PoolColorArray: 'PackedColorArray',
+};
+// Node paths like $Sprite are node names, not class references
+const RENAMED_CLASS_REGEX = new RegExp(`(?<![$%/])\\b(${Object.keys(RENAMED_CLASSES).join('|')})\\b`);
+
+const FUNC_REGEX = /^(?:static\s+)?func\s+([A-Za-z_]\w*)\s*\((.*)\)\s*(?:->\s*([\w.]+(?:\[[\w.\s,]*\])?)\s*)?:/;
+const ANNOTATIONS_REGEX = /^(?:@\w+(?:\([^)]*\))?\s*)+/;
+const BLOCK_START_REGEX = /^((static\s+)?func|if|elif|else|for|while|match|class)\b/;
+
+const scan = (source: string, report: (line: number, column: number | undefined, severity: DiagnosticSeverity, rule: DiagnosticRule, message: string) => void) => {
+  const lines: LogicalLine[] = [];
+  const stack: { ch: string; line: number; column: number }[] = [];
+  let current: LogicalLine | null = null;
+  let tripleQuote: { quote: string; line: number } | null = null;
+  let continued = false;
+
+  const flush = () => {
+    if (current && current.code.trim()) lines.push({ ...current, code: current.code.trim() });
+    current = null;
+  };
+
+  source.split('\n').forEach((raw, index) => {
+    const lineNo = index + 1;
+    let j = 0;
+    if (!current || (!tripleQuote && stack.length === 0 && !continued)) {
+      flush();
+      const indent = raw.match(/^[ \t]*/)![0];
+      current = { line: lineNo, indent, code: '' };
+      j = indent.length;
+    } else {
+      current.code += ' ';
+    }
+    continued = false;
+    const line = current;
+
+    while (j < raw.length) {
+      const ch = raw[j];
+      if (tripleQuote) {
+        if (raw.startsWith(tripleQuote.quote, j)) {
+          line.code += tripleQuote.quote;
+          j += 3;
+          tripleQuote = null;
+        } else {
+          line.code += ' ';
+          j += ch === '\\' ? 2 : 1;
+        }
+        continue;
+      }
+      if (ch === '#') break;
+      if (ch === '"' || ch === "'") {
+        if (raw.startsWith(ch.repeat(3), j)) {
+          tripleQuote = { quote: ch.repeat(3), line: lineNo };
+          line.code += tripleQuote.quote;
+          j += 3;
+          continue;
+        }
+        let k = j + 1;
+        while (k < raw.length && raw[k] !== ch) k += raw[k] === '\\' ? 2 : 1;
+        if (k >= raw.length) {
+          report(lineNo, j + 1, 'error', 'syntax', 'Unterminated string.');
+          k = raw.length;
+        }
+        line.code += ch + ' '.repeat(Math.max(0, k - j - 1)) + ch;
+        j = k + 1;
+        continue;
+      }
+      if (ch === '\\' && raw.slice(j + 1).trim() === '') {
+        continued = true;
+        break;
+      }
+      if (PAIRS[ch]) {
+        stack.push({ ch, line: lineNo, column: j + 1 });
+      } else if (ch === ')' || ch === ']' || ch === '}') {
+        const open = stack.pop();
+        if (!open) report(lineNo, j + 1, 'error', 'syntax', `Unexpected '${ch}'.`);
+        else if (PAIRS[open.ch] !== ch) report(lineNo, j + 1, 'error', 'syntax', `Expected '${PAIRS[open.ch]}' to close '${open.ch}' from line ${open.line}, found '${ch}'.`);
+      }
+      line.code += ch;
+      j++;
+    }
+  });
+  flush();
+
+  if (tripleQuote) report(tripleQuote.line, undefined, 'error', 'syntax', 'Unterminated multiline string.');
+  stack.forEach(open => report(open.line, open.column, 'error', 'syntax', `'${open.ch}' is never closed.`));
+  return lines;
+};
+
+// Splits "a: int, b = f(1, 2)" on top-level commas
+const splitParams = (params: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < params.length; i++) {
+    if ('([{'.includes(params[i])) depth++;
+    else if (')]}'.includes(params[i])) depth--;
+    else if (params[i] === ',' && depth === 0) {
+      parts.push(params.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(params.slice(start));
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+// Text between the keyword and the block colon, e.g. the condition of an if
+const blockHeader = (code: string, keyword: string) => {
+  const body = code.slice(keyword.length);
+  const colon = body.lastIndexOf(':');
+  return colon === -1 ? body : body.slice(0, colon);
+};
+
+/**
+ * Validates GDScript (Godot 4) without the engine: syntax errors, indentation,
+ * Godot 3-only constructs and, with strictTyping, missing static types.
+ */
+export const lintGDScript = (source: string, options: LintOptions): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = [];
+  const report = (line: number, column: number | undefined, severity: DiagnosticSeverity, rule: DiagnosticRule, message: string) => {
+    diagnostics.push({ line, column, severity, rule, message });
+  };
+
+  const lines = scan(source, report);
+
+  // Indentation: a stack of block widths, like Python's tokenizer
+  const levels = [0];
+  let opener: LogicalLine | null = null;
+  let indentChar: string | null = null;
+
+  lines.forEach(ll => {
+    const width = visualWidth(ll.indent);
+    const top = () => levels[levels.length - 1];
+
+    if (ll.indent.includes('\t') && ll.indent.includes(' ')) {
+      report(ll.line, 1, 'error', 'indentation', 'Mixed tabs and spaces in indentation.');
+    } else if (ll.indent) {
+      indentChar = indentChar ?? ll.indent[0];
+      if (ll.indent[0] !== indentChar) {
+        report(ll.line, 1, 'warning', 'indentation', `Indented with ${indentChar === '\t' ? 'spaces' : 'tabs'}, but the rest of the file uses ${indentChar === '\t' ? 'tabs' : 'spaces'}.`);
+      }
+    }
+
+    if (opener) {
+      if (width > top()) levels.push(width);
+      else report(ll.line, 1, 'error', 'indentation', `Expected an indented block after line ${opener.line}.`);
+    } else if (width > top()) {
+      report(ll.line, 1, 'error', 'indentation', 'Unexpected indentation.');
+      levels.push(width); // Resync so one mistake isn't reported on every following line
+    }
+    if (width < top()) {
+      while (levels.length > 1 && width < top()) levels.pop();
+      if (width !== top()) {
+        report(ll.line, 1, 'error', 'indentation', 'Unindent does not match any outer indentation level.');
+        levels.push(width);
+      }
+    }
+    // A block statement missing its colon still opens a block, so its body isn't reported as well
+    opener = ll.code.endsWith(':') || (BLOCK_START_REGEX.test(ll.code) && !ll.code.includes(':')) ? ll : null;
+
+    checkStatement(ll, options, report);
+  });
+
+  if (opener) report((opener as LogicalLine).line, undefined, 'error', 'indentation', 'Expected an indented block at the end of the file.');
+
+  return diagnostics.sort((a, b) => a.line - b.line || (a.column ?? 0) - (b.column ?? 0));
+};
+
+const checkStatement = (
+  ll: LogicalLine,
+  options: LintOptions,
+  report: (line: number, column: number | undefined, severity: DiagnosticSeverity, rule: DiagnosticRule, message: string) => void
+) => {
+  const code = ll.code;
+  const column = ll.indent.length + 1;
+  const statement = code.replace(ANNOTATIONS_REGEX, '');
+
+  // Godot 3 leftovers
+  GODOT3_PATTERNS.forEach(({ pattern, message }) => {
+    if (pattern.test(code)) report(ll.line, column, 'error', 'godot3', message);
+  });
+  const renamed = code.match(RENAMED_CLASS_REGEX);
+  if (renamed) report(ll.line, column + (renamed.index ?? 0), 'error', 'godot3', `'${renamed[1]}' was renamed to '${RENAMED_CLASSES[renamed[1]]}' in Godot 4.`);
+
+  // Python habits
+  if (/^def\s/.test(code)) report(ll.line, column, 'error', 'syntax', "'def' is Python. GDScript functions are declared with 'func'.");
+  const pythonConstant = code.match(/\b(True|False|None)\b/);
+  if (pythonConstant) report(ll.line, column + (pythonConstant.index ?? 0), 'error', 'syntax', `'${pythonConstant[1]}' is not declared. Use '${pythonConstant[1] === 'None' ? 'null' : pythonConstant[1].toLowerCase()}'.`);
+  if (/^else\s+if\b/.test(code)) report(ll.line, column, 'error', 'syntax', "Use 'elif' instead of 'else if'.");
+
+  // Block statements
+  const keyword = statement.match(/^(if|elif|while|for|match|else)\b/)?.[1];
+  if (keyword && !statement.includes(':')) {
+    report(ll.line, column, 'error', 'syntax', `Expected ':' after '${keyword}' statement.`);
+  }
+  if ((keyword === 'if' || keyword === 'elif' || keyword === 'while') && /(^|[^=!<>:+\-*/%&|^])=(?!=)/.test(blockHeader(statement, keyword))) {
+    report(ll.line, column, 'error', 'syntax', "Assignment is not allowed in a condition. Use '=='.");
+  }
+  if (keyword === 'for' && !/^for\s+[A-Za-z_]\w*(\s*:\s*[\w.]+)?\s+in\s+\S/.test(statement)) {
+    report(ll.line, column, 'error', 'syntax', "Expected 'for <variable> in <expression>:'.");
+  }
+
+  if (/^(static\s+)?func\b/.test(statement)) {
+    const func = statement.match(FUNC_REGEX);
+    if (!func) {
+      report(ll.line, column, 'error', 'syntax', "Invalid function declaration. Expected 'func name(params) -> ReturnType:'.");
+    } else if (options.strictTyping) {
+      const [, name, params, returnType] = func;
+      splitParams(params).forEach(param => {
+        if (!/^[A-Za-z_]\w*\s*:/.test(param)) {
+          report(ll.line, column, 'warning', 'typing', `Parameter '${param.split(/[\s=]/)[0]}' of '${name}()' has no static type.`);
+        }
+      });
+      if (!returnType && name !== '_init') {
+        report(ll.line, column, 'warning', 'typing', `Function '${name}()' has no return type. Add '-> void' if it returns nothing.`);
+      }
+    }
+  }
+
+  if (/^(static\s+)?var\b/.test(statement)) {
+    const variable = statement.match(/^(?:static\s+)?var\s+([A-Za-z_]\w*)\s*(:)?/);
+    if (!variable) report(ll.line, column, 'error', 'syntax', "Expected a variable name after 'var'.");
+    else if (options.strictTyping && !variable[2]) {
+      report(ll.line, column, 'warning', 'typing', `Variable '${variable[1]}' has no static type. Use 'var ${variable[1]}: Type' or ':='.`);
+    }
+  }
+
+  if (/^const\b/.test(statement) && !/^const\s+[A-Za-z_]\w*\s*(:\s*[\w.]+\s*)?:?=/.test(statement)) {
+    report(ll.line, column, 'error', 'syntax', "Constants need a name and a value: 'const NAME = value'.");
+  }
+  if (/^signal\b/.test(statement) && !/^signal\s+[A-Za-z_]\w*\s*(\(.*\))?$/.test(statement)) {
+    report(ll.line, column, 'error', 'syntax', "Invalid signal declaration. Expected 'signal name(arg: Type)'.");
+  }
+};
+
+export const countBySeverity = (diagnostics: Diagnostic[]) => ({
+  errors: diagnostics.filter(d => d.severity === 'error').length,
+  warnings: diagnostics.filter(d => d.severity === 'warning').length,
+});
+
+// What the self-repair loop treats as a failure: errors, plus missing types when strict typing was requested
+export const isBlocking = (diagnostic: Diagnostic, strictTyping: boolean) =>
+  diagnostic.severity === 'error' || (strictTyping && diagnostic.rule === 'typing');
+
+/**
+ * Plain-text summary of diagnostics, e.g. for the Insight panel or a repair prompt.
+ */
+export const formatDiagnostics = (path: string, diagnostics: Diagnostic[]) =>
+  diagnostics.map(d => `${path}:${d.line}: ${d.severity}: ${d.message}`).join('\n');
@@ -0,0 +1,35 @@
+import { GenerationRecord, ProjectFile, ToolMode } from "../types";
+
+// Visual assets are stored as data URLs, so the history is kept short enough for IndexedDB
+export const MAX_GENERATIONS = 100;
+
+/**
+ * Adds a record at the top of the history, dropping the oldest ones past the limit.
+ */
+export const addGeneration = (records: GenerationRecord[], record: GenerationRecord) =>
+  [record, ...records].slice(0, MAX_GENERATIONS);
+
+/**
+ * Records of a mode (or all of them) whose inputs, output or files contain every word of the query.
+ */
+export const searchGenerations = (records: GenerationRecord[], query: string, mode: ToolMode | 'all' = 'all') => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return records.filter(record => {
+    if (mode !== 'all' && record.request.mode !== mode) return false;
+    const text = [
+      record.request.prompt,
+      record.request.referenceInput,
+      record.request.errorInput,
+      record.request.model.model,
+      record.explanation,
+      ...record.changes.map(c => c.path),
+    ].join('\n').toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+};
+
+/**
+ * Files of a record whose content differs from the project now: what restoring it would change.
+ */
+export const changedSince = (record: GenerationRecord, files: ProjectFile[]) =>
+  record.changes.filter(c => files.find(f => f.path === c.path)?.content !== c.content);
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ToolMode } from '../types';
+import { DEFAULT_LIBRARY, entriesFor, exportLibrary, fillTemplate, mergeLibrary, parseLibrary, templateVariables } from './library';
+
+const entry = (fields: Record<string, unknown>) => ({ title: 'Add Signal', prompt: 'Add {{signal_name}}', modes: [ToolMode.CODE_GEN], ...fields });
+
+describe('parseLibrary', () => {
+  it('reads back an exported library', () => {
+    expect(parseLibrary(exportLibrary(DEFAULT_LIBRARY))).toEqual(DEFAULT_LIBRARY);
+  });
+
+  it('fills optional fields with defaults', () => {
+    const [parsed] = parseLibrary(JSON.stringify([entry({ id: 'signal' })]));
+    expect(parsed).toEqual({
+      id: 'signal', title: 'Add Signal', description: '', icon: 'Zap', display: 'card', output: 'code',
+      modes: [ToolMode.CODE_GEN], contexts: [], prompt: 'Add {{signal_name}}'
+    });
+  });
+
+  it('rejects two entries with the same id', () => {
+    const json = JSON.stringify({ entries: [entry({ id: 'a' }), entry({ id: 'a', title: 'Other' })] });
+    expect(() => parseLibrary(json)).toThrow('"Other" has the id "a" of an earlier entry in the file.');
+  });
+
+  it('rejects entries without a library mode', () => {
+    expect(() => parseLibrary(JSON.stringify([entry({ modes: ['NOPE'] })]))).toThrow('"Add Signal" has no known mode');
+    expect(() => parseLibrary(JSON.stringify([entry({ modes: [ToolMode.CHAT, ToolMode.DEBUGGER] })]))).toThrow('has no known mode');
+  });
+
+  it('drops unknown modes and contexts next to known ones', () => {
+    const [parsed] = parseLibrary(JSON.stringify([entry({ modes: [ToolMode.DATA, ToolMode.LOGIC], contexts: ['2D', 'VR'] })]));
+    expect(parsed.modes).toEqual([ToolMode.LOGIC]);
+    expect(parsed.contexts).toEqual(['2D']);
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parseLibrary('{')).toThrow('The file is not valid JSON.');
+    expect(() => parseLibrary('{"entries": {}}')).toThrow('Expected a library export');
+    expect(() => parseLibrary('[null]')).toThrow('Entry 1 is not an object.');
+    expect(() => parseLibrary(JSON.stringify([entry({ title: ' ' })]))).toThrow('Entry 1 has no title.');
+    expect(() => parseLibrary(JSON.stringify([entry({ prompt: 42 })]))).toThrow('"Add Signal" has no prompt.');
+  });
+});
+
+describe('mergeLibrary', () => {
+  it('replaces entries with the same id and appends the others', () => {
+    const [first, second] = DEFAULT_LIBRARY;
+    const changed = { ...first, title: 'Changed' };
+    const added = { ...second, id: 'new' };
+    expect(mergeLibrary([first, second], [changed, added])).toEqual([changed, second, added]);
+  });
+});
+
+describe('templates', () => {
+  it('lists variables once, in order of first use', () => {
+    expect(templateVariables('{{ b }} {{a}} {{b}}')).toEqual(['b', 'a']);
+  });
+
+  it('fills variables and empties unknown ones', () => {
+    expect(fillTemplate('Add {{ name }} to {{class_name}}{{missing}}', { name: 'died', class_name: 'Player' })).toBe('Add died to Player');
+  });
+});
+
+describe('entriesFor', () => {
+  it('offers shader entries only in the Shader context', () => {
+    const ids = (context: '2D' | 'Shader') => entriesFor(DEFAULT_LIBRARY, ToolMode.CODE_GEN, 'code', context).map(e => e.id);
+    expect(ids('Shader')).toContain('dissolve');
+    expect(ids('Shader')).not.toContain('movement');
+    expect(ids('2D')).toContain('movement');
+    expect(ids('2D')).not.toContain('dissolve');
+  });
+});
@@ -0,0 +1,145 @@
+import { GodotContextType, LibraryEntry, ProjectFile, ToolMode } from "../types";
+import { basename } from "./paths";
+
+const simpleId = () => Math.random().toString(36).substr(2, 9);
+
+// Modes that show the library, and the contexts an entry can be limited to
+export const LIBRARY_MODES = [ToolMode.CODE_GEN, ToolMode.PHYSICS, ToolMode.LOGIC, ToolMode.ASSET_GEN];
+export const LIBRARY_CONTEXTS: GodotContextType[] = ['2D', '3D', 'UI', 'Logic', 'Shader'];
+
+const SCRIPT_CONTEXTS = LIBRARY_CONTEXTS.filter(c => c !== 'Shader');
+const SHADER_MODES = LIBRARY_MODES.filter(m => m !== ToolMode.ASSET_GEN); // Shaders aren't generated in Assets mode
+
+const behavior = (id: string, title: string, description: string, icon: string, display: LibraryEntry['display'], prompt: string): LibraryEntry =>
+  ({ id, title, description, icon, display, output: 'code', modes: LIBRARY_MODES, contexts: SCRIPT_CONTEXTS, prompt });
+const shader = (id: string, title: string, description: string, icon: string, display: LibraryEntry['display'], prompt: string): LibraryEntry =>
+  ({ id, title, description, icon, display, output: 'code', modes: SHADER_MODES, contexts: ['Shader'], prompt });
+const style = (id: string, title: string, description: string, prompt: string): LibraryEntry =>
+  ({ id, title, description, icon: 'Palette', display: 'card', output: 'image', modes: [ToolMode.ASSET_GEN], contexts: [], prompt });
+
+// What a new workspace starts with; teams replace or extend it and share it as JSON
+export const DEFAULT_LIBRARY: LibraryEntry[] = [
+  behavior('movement', 'Movement', 'Platformer, Top-down...', 'Gamepad2', 'card', "Inject robust movement logic into the current script. If 2D, add platformer physics (gravity, jump). If 3D, add CharacterBody3D movement."),
+  behavior('health', 'Health System', 'HP, Damage, Death', 'Box', 'card', "Add a complete Health system to this script. Include 'health' variable, 'take_damage' function, and a 'died' signal."),
+  behavior('state-machine', 'State Machine', 'Idle, Run, Jump', 'Layers', 'card', "Refactor this script to use a simple Enum-based State Machine (IDLE, RUN, JUMP, etc) for better logic management."),
+  behavior('inventory', 'Inventory', 'Array-based storage', 'Database', 'card', "Add a simple inventory system using an Array. Include 'add_item', 'remove_item' functions."),
+  behavior('double-speed', 'Double Speed', '', 'Zap', 'chip', "Modify the movement constants to double the speed."),
+  behavior('fix-gravity', 'Fix Gravity', '', 'Zap', 'chip', "Ensure gravity application logic is correct using ProjectSettings."),
+  behavior('add-comments', 'Add Comments', '', 'Zap', 'chip', "Add detailed comments to the existing code explaining every function."),
+  behavior('optimize', 'Optimize', '', 'Zap', 'chip', "Optimize the existing code for performance and readability."),
+  behavior('add-signal', 'Add Signal', '', 'Zap', 'chip', "Add a '{{signal_name}}' signal to {{class_name}} and emit it when {{condition}}."),
+  behavior('refactor-selection', 'Refactor Selection', '', 'Zap', 'chip', "Refactor only this part of {{class_name}} and keep the rest of the script unchanged: {{goal}}\n\n{{selection}}"),
+  shader('dissolve', 'Dissolve', 'Noise-driven burn edge', 'Flame', 'card', "Create a dissolve shader: a noise texture uniform, a 'progress' uniform (hint_range 0-1), and a glowing burn edge with configurable width and source_color."),
+  shader('outline', 'Outline', 'Sprite / mesh outline', 'Scan', 'card', "Create an outline shader with configurable outline color (source_color) and thickness. For canvas_item sample neighbouring texels of TEXTURE; for spatial use an inverted-hull or fresnel approach."),
+  shader('water', 'Water', 'Waves, foam, refraction', 'Waves', 'card', "Create a stylized water shader: animated waves using TIME, scrolling normal/noise textures, depth or edge foam, and screen-texture refraction. Expose speeds, colors and strengths as uniforms."),
+  shader('toon', 'Toon', 'Cel shading bands', 'Contrast', 'card', "Create a toon / cel shader with a configurable number of light bands, a rim light and a specular highlight. Implement the banding in light() for spatial or with a lighting approximation for canvas_item."),
+  shader('uniform-hints', 'Add Uniform Hints', '', 'Zap', 'chip', "Add proper hints (source_color, hint_range, filter_*) and group_uniforms to every uniform in this shader."),
+  shader('pixelate', 'Pixelate', '', 'Zap', 'chip', "Add a pixelation effect with a 'pixel_size' uniform."),
+  shader('animate', 'Animate', '', 'Zap', 'chip', "Animate the effect over TIME with a 'speed' uniform."),
+  shader('optimize-shader', 'Optimize', '', 'Zap', 'chip', "Optimize the shader: remove redundant texture reads and branches, precompute constants."),
+  style('pixel-art', 'Pixel Art', 'Retro 8-bit style', "Generate a pixel art version of this, 8-bit style: {{prompt}}"),
+  style('cyberpunk', 'Cyberpunk', 'Neon, dark, high contrast', "Generate a cyberpunk, neon-lit version of this: {{prompt}}"),
+  style('vaporwave', 'Vaporwave', 'Soft pinks and blues', "Generate a vaporwave aesthetic version of this: {{prompt}}"),
+  style('hand-drawn', 'Hand Drawn', 'Sketchy, pencil style', "Generate a hand-drawn sketch style version of this: {{prompt}}"),
+];
+
+// Filled in from the editor and the form; the user can still change them before the prompt runs
+export const BUILTIN_VARIABLES: Record<string, string> = {
+  class_name: 'class_name of the active script, or its file name in PascalCase',
+  selection: 'Text selected in the editor',
+  file_path: 'res:// path of the active file',
+  prompt: 'What is typed in the prompt box',
+};
+
+const VARIABLE = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+
+/**
+ * Variables of a template, in order of first use.
+ */
+export const templateVariables = (prompt: string) => [...new Set([...prompt.matchAll(VARIABLE)].map(m => m[1]))];
+
+export const fillTemplate = (prompt: string, values: Record<string, string>) =>
+  prompt.replace(VARIABLE, (_, name: string) => values[name] ?? '');
+
+const pascalCase = (text: string) => text.split(/[^A-Za-z0-9]+/).filter(Boolean).map(w => w[0].toUpperCase() + w.slice(1)).join('');
+
+export const builtinValues = (activeFile: ProjectFile | undefined, selection: string, prompt: string): Record<string, string> => ({
+  class_name: activeFile?.content.match(/^class_name\s+(\w+)/m)?.[1] ?? (activeFile ? pascalCase(basename(activeFile.path).replace(/\.\w+$/, '')) : ''),
+  selection,
+  file_path: activeFile?.path ?? '',
+  prompt,
+});
+
+/**
+ * Entries offered for a request: the current mode and output, and for code the effective Godot context.
+ */
+export const entriesFor = (library: LibraryEntry[], mode: ToolMode, output: LibraryEntry['output'], context: GodotContextType) =>
+  library.filter(e => e.output === output && e.modes.includes(mode) && (output === 'image' || e.contexts.length === 0 || e.contexts.includes(context)));
+
+export const exportLibrary = (library: LibraryEntry[]) => JSON.stringify({ version: 1, entries: library }, null, 2);
+
+// Modes outside LIBRARY_MODES never show the library, so entries for them are rejected rather than hidden
+const isMode = (value: unknown): value is ToolMode => LIBRARY_MODES.includes(value as ToolMode);
+const isContext = (value: unknown): value is GodotContextType => LIBRARY_CONTEXTS.includes(value as GodotContextType);
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const stringOf = (value: unknown) => typeof value === 'string' ? value : '';
+
+/**
+ * Reads a library export (or a bare array of entries). Missing optional fields get defaults; an entry without
+ * a title, a prompt or a known mode, or two entries with the same id, is an error, so a broken file never half-imports.
+ */
+export const parseLibrary = (json: string): LibraryEntry[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const entries = Array.isArray(data) ? data : isRecord(data) ? data.entries : undefined;
+  if (!Array.isArray(entries)) throw new Error('Expected a library export: { "entries": [...] }.');
+
+  const ids = new Set<string>();
+  return entries.map((entry: unknown, i: number): LibraryEntry => {
+    if (!isRecord(entry)) throw new Error(`Entry ${i + 1} is not an object.`);
+    const title = stringOf(entry.title).trim();
+    if (!title) throw new Error(`Entry ${i + 1} has no title.`);
+    const prompt = stringOf(entry.prompt);
+    if (!prompt.trim()) throw new Error(`"${title}" has no prompt.`);
+    const modes = Array.isArray(entry.modes) ? entry.modes.filter(isMode) : [];
+    if (modes.length === 0) throw new Error(`"${title}" has no known mode (${LIBRARY_MODES.join(', ')}).`);
+    const id = stringOf(entry.id) || simpleId();
+    if (ids.has(id)) throw new Error(`"${title}" has the id "${id}" of an earlier entry in the file.`);
+    ids.add(id);
+    return {
+      id,
+      title,
+      description: stringOf(entry.description),
+      icon: stringOf(entry.icon) || 'Zap',
+      display: entry.display === 'chip' ? 'chip' : 'card',
+      output: entry.output === 'image' ? 'image' : 'code',
+      modes,
+      contexts: Array.isArray(entry.contexts) ? entry.contexts.filter(isContext) : [],
+      prompt,
+    };
+  });
+};
+
+/**
+ * Imported entries replace the ones with the same id and are added after the others.
+ */
+export const mergeLibrary = (library: LibraryEntry[], imported: LibraryEntry[]) => [
+  ...library.map(entry => imported.find(e => e.id === entry.id) ?? entry),
+  ...imported.filter(e => !library.some(entry => entry.id === e.id)),
+];
+
+export const createLibraryEntry = (): LibraryEntry => ({
+  id: simpleId(),
+  title: 'New Entry',
+  description: '',
+  icon: 'Zap',
+  display: 'card',
+  output: 'code',
+  modes: LIBRARY_MODES,
+  contexts: [],
+  prompt: '',
+});
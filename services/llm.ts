@@ -0,0 +1,101 @@
+import { ImageSize, ModelSelection, ProviderConfig, ProviderId, TokenUsage, ToolMode } from "../types";
+import { geminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openai";
+
+export interface LLMImage {
+  mimeType: string;
+  data: string; // Raw base64, without the data URL prefix
+}
+
+export const imageFromDataUrl = (url: string): LLMImage => {
+  const match = url.match(/^data:([^;,]+)?(?:;base64)?,(.*)$/s);
+  return { mimeType: match?.[1] || 'image/png', data: match?.[2] ?? '' };
+};
+
+export interface LLMPart {
+  text?: string;
+  image?: LLMImage;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  parts: LLMPart[];
+}
+
+export interface TextRequest {
+  model: string;
+  messages: LLMMessage[];
+  systemInstruction?: string;
+  jsonSchema?: Record<string, unknown>; // Plain JSON Schema for structured output
+  thinkingBudget?: number; // Honoured by providers that support reasoning budgets
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  // Input images are sent in this order: the references, the mask, then the style references
+  referenceImages?: LLMImage[];
+  mask?: LLMImage; // Same size as the first reference: white = the area to change
+  alphaMask?: LLMImage; // The same mask for endpoints that read transparency instead: transparent = the area to change
+  styleReferences?: LLMImage[];
+  aspectRatio?: string; // "width:height", square when absent
+  imageSize?: ImageSize;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the request in flight
+  onChunk?: (text: string) => void; // Enables streaming; receives the accumulated text so far
+  onUsage?: (usage: TokenUsage) => void; // Token counts from the response metadata, when the provider reports them
+}
+
+/**
+ * A backend capable of serving the Architect's text and image requests.
+ * Prompt construction lives in architect.ts; providers only translate requests to their wire format.
+ */
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  suggestedModels: string[];
+  generateText: (request: TextRequest, options?: RequestOptions) => Promise<string>;
+  generateImage: (request: ImageRequest, options?: RequestOptions) => Promise<string>; // Returns a data URL
+  listModels?: () => Promise<string[]>;
+  usesAlphaMask?: boolean; // Edits read ImageRequest.alphaMask, so it is only encoded for these providers
+}
+
+export interface ModelTarget {
+  provider: LLMProvider;
+  model: string;
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Google Gemini' },
+  { id: 'openai-compatible', label: 'Local (OpenAI-compatible)' },
+];
+
+const GEMINI_TEXT: ModelSelection = { provider: 'gemini', model: 'gemini-3-pro-preview' };
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  modes: {
+    [ToolMode.CODE_GEN]: GEMINI_TEXT,
+    [ToolMode.ASSET_GEN]: GEMINI_TEXT,
+    [ToolMode.PHYSICS]: GEMINI_TEXT,
+    [ToolMode.LOGIC]: GEMINI_TEXT,
+    [ToolMode.DATA]: GEMINI_TEXT,
+    [ToolMode.DEBUGGER]: GEMINI_TEXT,
+    [ToolMode.CHAT]: GEMINI_TEXT,
+  },
+  image: { provider: 'gemini', model: 'gemini-3-pro-image-preview' },
+  openaiCompatible: { baseUrl: 'http://localhost:11434/v1', apiKey: '' },
+};
+
+export const getProvider = (id: ProviderId, config: ProviderConfig): LLMProvider => {
+  if (id === 'openai-compatible') {
+    return createOpenAICompatibleProvider(config.openaiCompatible.baseUrl, config.openaiCompatible.apiKey);
+  }
+  return geminiProvider;
+};
+
+export const resolveTarget = (selection: ModelSelection, config: ProviderConfig): ModelTarget => ({
+  provider: getProvider(selection.provider, config),
+  model: selection.model,
+});
@@ -0,0 +1,185 @@
+import { LLMImage, LLMMessage, LLMProvider, RequestOptions } from "./llm";
+
+/**
+ * Talks to any server exposing the OpenAI REST surface (llama.cpp server, Ollama, LM Studio, vLLM...).
+ * Nothing leaves the machine when baseUrl points at localhost.
+ */
+
+// Message shape of the chat completions endpoint; content is a list of parts only when it has images
+type ContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+const toChatMessages = (messages: LLMMessage[], systemInstruction?: string) => {
+  const out: ChatCompletionMessage[] = [];
+  if (systemInstruction) out.push({ role: 'system', content: systemInstruction });
+
+  messages.forEach(m => {
+    const role: ChatCompletionMessage['role'] = m.role === 'model' ? 'assistant' : 'user';
+    const hasImage = m.parts.some(p => p.image);
+    if (!hasImage) {
+      // Plain string content is the most widely supported shape on local servers
+      out.push({ role, content: m.parts.map(p => p.text || '').join('\n') });
+      return;
+    }
+    out.push({
+      role,
+      content: m.parts.map(p => p.image
+        ? { type: 'image_url' as const, image_url: { url: `data:${p.image.mimeType};base64,${p.image.data}` } }
+        : { type: 'text' as const, text: p.text || '' })
+    });
+  });
+
+  return out;
+};
+
+// The images endpoint only takes these sizes (no aspect ratio or resolution): landscape, portrait or square.
+// The requested ImageSize can't be honoured, so the Tools hide that option for this provider.
+const imageSize = (aspectRatio = '1:1') => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width / height > 1.2 ? '1536x1024' : width / height < 0.83 ? '1024x1536' : '1024x1024';
+};
+
+const toBlob = (image: LLMImage) =>
+  new Blob([Uint8Array.from(atob(image.data), c => c.charCodeAt(0))], { type: image.mimeType });
+
+// Usage block of a chat completion; servers may leave any of it out
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+// Reasoning models report their thinking inside completion_tokens
+const reportUsage = (usage: OpenAIUsage | null | undefined, options?: RequestOptions) => {
+  if (!usage || !options?.onUsage) return;
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  options.onUsage({
+    promptTokens: usage.prompt_tokens ?? 0,
+    outputTokens: (usage.completion_tokens ?? 0) - thinkingTokens,
+    thinkingTokens
+  });
+};
+
+// One event of a streamed chat completion
+interface OpenAIStreamEvent {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: OpenAIUsage | null;
+}
+
+/**
+ * Yields the events of a server-sent events chat completion stream (content deltas, and usage at the end).
+ */
+async function* readStreamEvents(res: Response): AsyncGenerator<OpenAIStreamEvent> {
+  if (!res.body) throw new Error("Local provider returned an empty stream.");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const payload = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !payload) continue;
+      if (payload === '[DONE]') return;
+      let event: OpenAIStreamEvent;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        throw new Error(`Local provider sent an unreadable stream event: ${payload.slice(0, 200)}`);
+      }
+      yield event;
+    }
+  }
+}
+
+export const createOpenAICompatibleProvider = (baseUrl: string, apiKey: string): LLMProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const auth: Record<string, string> = apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...auth };
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    // Multipart bodies set their own content type, with the boundary
+    const res = body instanceof FormData
+      ? await fetch(`${root}${path}`, { method: 'POST', headers: auth, body, signal })
+      : await fetch(`${root}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+    if (!res.ok) {
+      throw new Error(`Local provider error ${res.status}: ${await res.text()}`);
+    }
+    return res;
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: 'Local (OpenAI-compatible)',
+    suggestedModels: ['qwen2.5-coder:14b', 'llama3.1:8b', 'deepseek-coder-v2'],
+    usesAlphaMask: true,
+
+    generateText: async (request, options) => {
+      const res = await post('/chat/completions', {
+        model: request.model,
+        messages: toChatMessages(request.messages, request.systemInstruction),
+        stream: !!options?.onChunk,
+        ...(options?.onChunk && { stream_options: { include_usage: true } }),
+        ...(request.jsonSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: request.jsonSchema }
+          }
+        })
+      }, options?.signal);
+
+      if (!options?.onChunk) {
+        const data = await res.json();
+        reportUsage(data.usage, options);
+        return data.choices?.[0]?.message?.content || '';
+      }
+
+      let text = '';
+      for await (const event of readStreamEvents(res)) {
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          options.onChunk(text);
+        }
+        reportUsage(event.usage, options); // Only the final event carries usage
+      }
+      return text;
+    },
+
+    generateImage: async (request, options) => {
+      const inputs = [...(request.referenceImages || []), ...(request.styleReferences || [])];
+      const fields = { model: request.model, prompt: request.prompt, n: 1, size: imageSize(request.aspectRatio), response_format: 'b64_json' };
+      let body: unknown = fields;
+      // Input images go to the edits endpoint; the mask applies to the first one
+      if (inputs.length > 0) {
+        const form = new FormData();
+        Object.entries(fields).forEach(([key, value]) => form.append(key, String(value)));
+        inputs.forEach((image, i) => form.append('image[]', toBlob(image), `image_${i}.png`));
+        if (request.alphaMask) form.append('mask', toBlob(request.alphaMask), 'mask.png');
+        body = form;
+      }
+      const res = await post(inputs.length > 0 ? '/images/edits' : '/images/generations', body, options?.signal);
+      const data = await res.json();
+      reportUsage(data.usage && { prompt_tokens: data.usage.input_tokens, completion_tokens: data.usage.output_tokens }, options);
+      const b64 = data.data?.[0]?.b64_json;
+      if (!b64) throw new Error("No image data received in response.");
+      return `data:image/png;base64,${b64}`;
+    },
+
+    listModels: async () => {
+      const res = await fetch(`${root}/models`, { headers });
+      if (!res.ok) throw new Error(`Local provider error ${res.status}`);
+      const data = await res.json();
+      return (data.data || []).map((m: { id: string }) => m.id);
+    }
+  };
+};
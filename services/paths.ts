@@ -0,0 +1,73 @@
+import { ProjectFile } from "../types";
+
+export const RES_ROOT = 'res://';
+
+/**
+ * Turns user input ("scenes/player.gd", "/player.gd", "res://player.gd") into a normalized res:// path.
+ */
+export const toResPath = (input: string) => {
+  const relative = input.trim().replace(/^res:\/\//, '').replace(/\\/g, '/');
+  const parts = relative.split('/').filter(p => p && p !== '.');
+  return RES_ROOT + parts.join('/');
+};
+
+export const joinPath = (folder: string, name: string) =>
+  folder === RES_ROOT ? RES_ROOT + name : `${folder}/${name}`;
+
+export const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+export const dirname = (path: string) => {
+  const relative = path.slice(RES_ROOT.length);
+  const cut = relative.lastIndexOf('/');
+  return cut === -1 ? RES_ROOT : RES_ROOT + relative.slice(0, cut);
+};
+
+/** Path relative to the project root, as stored in an exported archive. */
+export const relativePath = (path: string) => path.slice(RES_ROOT.length);
+
+export const isInside = (path: string, folder: string) =>
+  folder === RES_ROOT ? path.startsWith(RES_ROOT) : path.startsWith(`${folder}/`);
+
+/**
+ * Rewrites a path prefix, for renaming or moving a file or a whole folder.
+ */
+export const replacePrefix = (path: string, from: string, to: string) =>
+  path === from ? to : isInside(path, from) ? joinPath(to, path.slice(from.length + 1)) : path;
+
+export const withPath = (file: ProjectFile, path: string): ProjectFile => ({ ...file, path, name: basename(path) });
+
+export interface FolderNode {
+  path: string;
+  name: string;
+  folders: FolderNode[];
+  files: ProjectFile[];
+}
+
+/**
+ * Builds the explorer tree from file paths plus explicitly created (possibly empty) folders.
+ */
+export const buildFolderTree = (files: ProjectFile[], folders: string[]): FolderNode => {
+  const root: FolderNode = { path: RES_ROOT, name: RES_ROOT, folders: [], files: [] };
+
+  const ensureFolder = (path: string): FolderNode => {
+    if (path === RES_ROOT) return root;
+    const parent = ensureFolder(dirname(path));
+    let node = parent.folders.find(f => f.path === path);
+    if (!node) {
+      node = { path, name: basename(path), folders: [], files: [] };
+      parent.folders.push(node);
+    }
+    return node;
+  };
+
+  folders.forEach(ensureFolder);
+  files.forEach(f => ensureFolder(dirname(f.path)).files.push(f));
+
+  const sortNode = (node: FolderNode) => {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name));
+    node.files.sort((a, b) => a.name.localeCompare(b.name));
+    node.folders.forEach(sortNode);
+  };
+  sortNode(root);
+  return root;
+};
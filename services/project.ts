@@ -0,0 +1,139 @@
+import JSZip from "jszip";
+import { ProjectFile } from "../types";
+import { RES_ROOT, basename, relativePath } from "./paths";
+
+// Text files the Architect can read and edit, and the images scenes and resources point at (kept as data URLs).
+// Everything else in a Godot project is ignored on import.
+const IMPORTABLE_EXTENSIONS = ['.gd', '.gdshader', '.tscn', '.tres', '.json'];
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+};
+const PROJECT_FILE = 'project.godot';
+
+const simpleId = () => Math.random().toString(36).substr(2, 9);
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > name.lastIndexOf('/') ? name.slice(dot).toLowerCase() : '';
+};
+
+export const languageForFile = (name: string): ProjectFile['language'] => {
+  const extension = extensionOf(name);
+  if (extension === '.gd') return 'gdscript';
+  if (extension === '.gdshader') return 'shader';
+  if (extension === '.json') return 'json';
+  if (extension === '.tscn') return 'scene';
+  if (extension === '.tres') return 'resource';
+  if (extension === '.godot' && basename(name) === PROJECT_FILE) return 'config';
+  if (IMAGE_TYPES[extension]) return 'image';
+  return 'text';
+};
+
+export interface ImportedProject {
+  name: string;
+  files: ProjectFile[];
+}
+
+interface RawEntry {
+  path: string;
+  read: () => Promise<string>;
+  readBase64: () => Promise<string>;
+}
+
+const isImportable = (path: string) =>
+  !path.split('/').includes('.godot') && // Editor cache, never part of the source
+  (path.endsWith(PROJECT_FILE) || IMPORTABLE_EXTENSIONS.includes(extensionOf(path)) || !!IMAGE_TYPES[extensionOf(path)]);
+
+const base64Of = async (file: Blob) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // In chunks: spreading a whole texture would overflow the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const readProjectName = (projectGodot: string) => projectGodot.match(/^config\/name\s*=\s*"(.*)"/m)?.[1];
+
+/**
+ * Rebases entries onto the folder holding project.godot (archives often wrap the project in a top folder)
+ * and reads them into ProjectFiles with their res:// paths.
+ */
+const buildProject = async (entries: RawEntry[], fallbackName: string): Promise<ImportedProject> => {
+  const projectEntry = entries
+    .filter(e => e.path === PROJECT_FILE || e.path.endsWith(`/${PROJECT_FILE}`))
+    .sort((a, b) => a.path.length - b.path.length)[0];
+  const root = projectEntry ? projectEntry.path.slice(0, -PROJECT_FILE.length) : '';
+
+  const files: ProjectFile[] = [];
+  for (const entry of entries) {
+    if (!entry.path.startsWith(root) || !isImportable(entry.path)) continue;
+    const path = RES_ROOT + entry.path.slice(root.length);
+    const language = languageForFile(path);
+    const content = language === 'image' ? `data:${IMAGE_TYPES[extensionOf(path)]};base64,${await entry.readBase64()}` : await entry.read();
+    files.push({ id: simpleId(), name: basename(path), path, language, content });
+  }
+  if (files.length === 0) throw new Error("No Godot project files found.");
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  const projectFile = files.find(f => f.path === RES_ROOT + PROJECT_FILE);
+  return { name: (projectFile && readProjectName(projectFile.content)) || fallbackName, files };
+};
+
+export const importProjectZip = async (archive: File): Promise<ImportedProject> => {
+  const zip = await JSZip.loadAsync(archive);
+  const entries: RawEntry[] = Object.values(zip.files)
+    .filter(f => !f.dir)
+    .map(f => ({ path: f.name, read: () => f.async('string'), readBase64: () => f.async('base64') }));
+  return buildProject(entries, archive.name.replace(/\.zip$/i, ''));
+};
+
+/**
+ * Imports the files of an <input webkitdirectory> selection.
+ */
+export const importProjectFolder = async (fileList: FileList): Promise<ImportedProject> => {
+  const list = Array.from(fileList);
+  const entries: RawEntry[] = list.map(f => ({ path: f.webkitRelativePath || f.name, read: () => f.text(), readBase64: () => base64Of(f) }));
+  const folderName = list[0]?.webkitRelativePath.split('/')[0] || 'Imported Project';
+  return buildProject(entries, folderName);
+};
+
+const minimalProjectGodot = (name: string) => `; Engine configuration file.
+; Generated by Godot 4 AI Architect.
+
+config_version=5
+
+[application]
+
+config/name="${name.replace(/"/g, '\\"')}"
+config/features=PackedStringArray("4.3")
+`;
+
+/**
+ * Zips the workspace so that every file lands at its res:// path. A minimal project.godot is added
+ * when the workspace has none, so the archive opens directly in the Godot project manager.
+ */
+export const exportProjectZip = async (name: string, files: ProjectFile[], folders: string[] = []): Promise<Blob> => {
+  const zip = new JSZip();
+  folders.forEach(folder => zip.folder(relativePath(folder)));
+  files.forEach(f => f.language === 'image'
+    // Images are kept as data URLs; the archive gets the decoded PNG
+    ? zip.file(relativePath(f.path), f.content.slice(f.content.indexOf(',') + 1), { base64: true })
+    : zip.file(relativePath(f.path), f.content));
+  if (!files.some(f => f.path === RES_ROOT + PROJECT_FILE)) {
+    zip.file(PROJECT_FILE, minimalProjectGodot(name));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
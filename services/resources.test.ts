@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { colorToHex, fieldKind, fromVariant, hexToColor, parseResourceClass, setResourceProperty, toVariant, validateResource } from './resources';
+
+const ITEM = `@tool
+class_name Item
+extends Resource
+
+@export var title: String = "Sword" # shown in the shop
+@export_range(0, 100, 5) var price := 10
+@export_enum("Common", "Rare:5", "Epic") var rarity: int
+@export_multiline
+var description := ""
+@export var tint := Color(1, 0, 0, 1)
+var internal := 3
+
+func _init():
+	@export var not_a_field := 1
+`;
+
+const TRES = `[gd_resource type="Resource" script_class="Item" load_steps=2 format=3]
+
+[ext_resource type="Script" path="res://item.gd" id="1_item"]
+
+[resource]
+script = ExtResource("1_item")
+title = "Axe"
+price = 20
+`;
+
+describe('parseResourceClass', () => {
+  it('reads exported fields with their annotations, types and defaults', () => {
+    const item = parseResourceClass(ITEM);
+    expect(item.className).toBe('Item');
+    expect(item.extendsName).toBe('Resource');
+    expect(item.fields).toEqual([
+      { name: 'title', type: 'String', defaultValue: '"Sword"', line: 5 },
+      { name: 'price', type: 'int', defaultValue: '10', range: { min: 0, max: 100, step: 5 }, line: 6 },
+      { name: 'rarity', type: 'int', defaultValue: undefined, line: 7, enumOptions: [{ label: 'Common', value: 0 }, { label: 'Rare', value: 5 }, { label: 'Epic', value: 6 }] },
+      { name: 'description', type: 'String', defaultValue: '""', multiline: true, line: 9 },
+      { name: 'tint', type: 'Color', defaultValue: 'Color(1, 0, 0, 1)', line: 10 },
+    ]);
+  });
+});
+
+describe('form values', () => {
+  const [title, price, rarity, , tint] = parseResourceClass(ITEM).fields;
+
+  it('picks an input for each field', () => {
+    expect([title, price, rarity, tint].map(fieldKind)).toEqual(['string', 'int', 'enum', 'color']);
+  });
+
+  it('converts form input to variant text and back', () => {
+    expect(toVariant(title, 'Big "Axe"')).toBe('"Big \\"Axe\\""');
+    expect(fromVariant(title, toVariant(title, 'Big "Axe"'))).toBe('Big "Axe"');
+    expect(toVariant(price, '12.6')).toBe('13');
+    expect(toVariant({ ...price, type: 'float' }, '2')).toBe('2.0');
+    expect(toVariant({ ...title, type: 'StringName' }, 'idle')).toBe('&"idle"');
+    expect(fromVariant({ ...title, type: 'bool' }, ' true ')).toBe(true);
+  });
+
+  it('converts colors to hex, keeping the alpha of the previous value', () => {
+    expect(colorToHex('Color(1, 0.5, 0, 1)')).toBe('#ff8000');
+    expect(colorToHex('Color(oops)')).toBe('#ffffff');
+    expect(hexToColor('#ff8000', 'Color(0, 0, 0, 0.25)')).toBe('Color(1, 0.502, 0, 0.25)');
+  });
+});
+
+describe('setResourceProperty', () => {
+  it('changes, adds and removes properties of the [resource] section', () => {
+    const changed = setResourceProperty(TRES, 'price', '30');
+    expect(changed).toContain('price = 30\n');
+    expect(setResourceProperty(changed, 'rarity', '5')).toContain('price = 30\nrarity = 5\n');
+    expect(setResourceProperty(TRES, 'title', null)).not.toContain('title');
+  });
+
+  it('refuses files with syntax errors', () => {
+    expect(() => setResourceProperty('[resource\n', 'price', '1')).toThrow('Fix the syntax errors in the resource first');
+  });
+});
+
+describe('validateResource', () => {
+  const scriptClass = { path: 'res://item.gd', resourceClass: parseResourceClass(ITEM) };
+
+  it('accepts an instance that matches its class', () => {
+    expect(validateResource(TRES, ['res://item.gd'], scriptClass)).toEqual([]);
+  });
+
+  it('reports missing scripts, undeclared resources and values of the wrong type', () => {
+    const text = TRES.replace('price = 20', 'price = "cheap"\nicon = ExtResource("2_icon")\nweight = 3');
+    expect(validateResource(text, [], scriptClass).map(d => `${d.line}: ${d.message}`)).toEqual([
+      '3: res://item.gd does not exist in the project.',
+      "8: price expects an integer (int), got \"cheap\".",
+      '9: icon: ExtResource("2_icon") is not declared in this file.',
+      "9: Item has no exported property 'icon'.",
+      "10: Item has no exported property 'weight'.",
+    ]);
+  });
+
+  it('reports Godot 3 and headerless files', () => {
+    expect(validateResource('[gd_resource type="Resource" format=2]\n\n[resource]\n').map(d => d.message)).toEqual(['format=2 is the Godot 3 resource format; Godot 4 uses format=3.']);
+    expect(validateResource('[resource]\nvalue = 1\n').map(d => d.message)).toEqual(['A resource file must start with a [gd_resource type="Resource" format=3] header.']);
+  });
+});
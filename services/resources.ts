@@ -0,0 +1,284 @@
+import { Diagnostic, ProjectFile } from "../types";
+import { TscnDocument, TscnSection, getAttribute, parseTscn, quote, serializeTscn, unquote, updateLoadSteps } from "./tscn";
+
+// An @export var of a custom Resource class, i.e. one field of the .tres form
+export interface ResourceField {
+  name: string;
+  type: string; // Declared or inferred type, e.g. int, String, Array[String], Texture2D; '' when untyped
+  defaultValue?: string; // Initializer as written in the script
+  enumOptions?: { label: string; value: number }[]; // @export_enum("Common", "Rare:5") values, explicit or counted up
+  range?: { min: number; max: number; step?: number }; // @export_range
+  multiline?: boolean; // @export_multiline
+  line: number;
+}
+
+export interface ResourceClass {
+  className?: string;
+  extendsName?: string;
+  fields: ResourceField[];
+}
+
+// Annotations that stand on their own instead of applying to the next var
+const STANDALONE_ANNOTATIONS = ['export_group', 'export_subgroup', 'export_category', 'tool', 'icon', 'static_unload'];
+
+const stripComment = (line: string) => {
+  let inString: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === inString) inString = null;
+    } else if (ch === '"' || ch === "'") inString = ch;
+    else if (ch === '#') return line.slice(0, i);
+  }
+  return line;
+};
+
+const splitArguments = (args: string) => (args.match(/"(?:\\.|[^"\\])*"|[^,]+/g) ?? []).map(a => a.trim()).filter(Boolean);
+
+const inferType = (value: string) => {
+  if (/^-?\d+$/.test(value)) return 'int';
+  if (/^-?\d*\.\d+(e[+-]?\d+)?$/i.test(value)) return 'float';
+  if (value === 'true' || value === 'false') return 'bool';
+  if (/^&?"/.test(value)) return 'String';
+  return value.match(/^([A-Z]\w*)\(/)?.[1] ?? '';
+};
+
+/**
+ * Reads the exported fields of a Resource script (top-level '@export var' declarations, with the
+ * annotation on the same line or the line above).
+ */
+export const parseResourceClass = (source: string): ResourceClass => {
+  const fields: ResourceField[] = [];
+  let pending: { name: string; args: string }[] = [];
+
+  source.split('\n').forEach((raw, index) => {
+    const line = stripComment(raw).trim();
+    if (!line) return;
+    if (/^\s/.test(raw)) {
+      pending = [];
+      return;
+    }
+
+    let rest = line;
+    const annotations = [...pending];
+    let match: RegExpMatchArray | null;
+    while ((match = rest.match(/^@(\w+)(?:\(([^)]*)\))?\s*/))) {
+      if (!STANDALONE_ANNOTATIONS.includes(match[1])) annotations.push({ name: match[1], args: match[2] ?? '' });
+      rest = rest.slice(match[0].length);
+    }
+    if (!rest) {
+      pending = annotations;
+      return;
+    }
+    pending = [];
+
+    const declaration = rest.match(/^var\s+(\w+)\s*(?::\s*([^:=]*[^:=\s]))?\s*(?::?=\s*(.*?))?\s*:?$/);
+    const exports = annotations.filter(a => a.name.startsWith('export'));
+    if (!declaration || exports.length === 0) return;
+
+    const [, name, declaredType, defaultValue] = declaration;
+    const field: ResourceField = { name, type: declaredType?.trim() || (defaultValue ? inferType(defaultValue) : ''), defaultValue, line: index + 1 };
+    exports.forEach(({ name: annotation, args }) => {
+      if (annotation === 'export_enum') {
+        let next = 0;
+        field.enumOptions = splitArguments(args).map(a => {
+          const [, label, explicit] = (unquote(a) ?? a).match(/^(.*?)(?::(-?\d+))?$/)!;
+          const value = explicit !== undefined ? Number(explicit) : next;
+          next = value + 1;
+          return { label, value };
+        });
+      }
+      else if (annotation === 'export_range') {
+        const [min, max, step] = splitArguments(args).map(Number);
+        if (!Number.isNaN(min) && !Number.isNaN(max)) field.range = { min, max, step: Number.isNaN(step) ? undefined : step };
+      } else if (annotation === 'export_multiline') field.multiline = true;
+    });
+    fields.push(field);
+  });
+
+  return {
+    className: source.match(/^class_name\s+(\w+)/m)?.[1],
+    extendsName: source.match(/^extends\s+(\w+)/m)?.[1],
+    fields
+  };
+};
+
+// How a field is edited in the form
+export type FieldKind = 'bool' | 'int' | 'float' | 'string' | 'enum' | 'color' | 'raw';
+
+export const fieldKind = (field: ResourceField): FieldKind => {
+  if (field.enumOptions && (field.type === 'int' || field.type === '')) return 'enum';
+  switch (field.type) {
+    case 'bool': return 'bool';
+    case 'int': return 'int';
+    case 'float': return 'float';
+    case 'String': case 'StringName': return 'string';
+    case 'Color': return 'color';
+    default: return 'raw';
+  }
+};
+
+export const formatFloat = (n: number) => Number.isInteger(n) ? `${n}.0` : String(n);
+
+/**
+ * Turns a form input into Godot variant text for the given field.
+ */
+export const toVariant = (field: ResourceField, input: string | boolean): string => {
+  const kind = fieldKind(field);
+  if (kind === 'bool') return input ? 'true' : 'false';
+  const text = String(input);
+  switch (kind) {
+    case 'int': case 'enum': return String(Math.round(Number(text) || 0));
+    case 'float': return formatFloat(Number(text) || 0);
+    case 'string': return field.type === 'StringName' ? `&${quote(text)}` : quote(text);
+    default: return text;
+  }
+};
+
+/**
+ * Reads Godot variant text into the value a form input shows (the inverse of toVariant).
+ */
+export const fromVariant = (field: ResourceField, value: string): string | boolean => {
+  const kind = fieldKind(field);
+  if (kind === 'bool') return value.trim() === 'true';
+  if (kind === 'string') return unquote(value.trim().replace(/^&/, '')) ?? '';
+  return value.trim();
+};
+
+const toHex = (channel: number) => Math.round(Math.min(1, Math.max(0, channel)) * 255).toString(16).padStart(2, '0');
+
+// Color(r, g, b, a) <-> #rrggbb; alpha is kept from the current value since color inputs don't edit it
+export const colorToHex = (value: string) => {
+  const channels = value.match(/^Color\(([^)]*)\)$/)?.[1].split(',').map(Number);
+  if (!channels || channels.length < 3 || channels.some(Number.isNaN)) return '#ffffff';
+  return `#${channels.slice(0, 3).map(toHex).join('')}`;
+};
+
+export const hexToColor = (hex: string, previous?: string) => {
+  const alpha = previous?.match(/^Color\([^,]*,[^,]*,[^,]*,\s*([^)]*)\)$/)?.[1] ?? '1';
+  const channels = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  return `Color(${channels.map(c => Number(c.toFixed(4))).join(', ')}, ${alpha})`;
+};
+
+const findResourceSection = (document: TscnDocument) => document.sections.find(s => s.tag === 'resource');
+
+/**
+ * res:// path of the script a .tres instance is built from, if any.
+ */
+export const resourceScriptPath = (document: TscnDocument) => {
+  const id = findResourceSection(document)?.properties.find(p => p.key === 'script')?.value.match(/^ExtResource\(\s*"([^"]*)"\s*\)$/)?.[1];
+  const ext = document.sections.find(s => s.tag === 'ext_resource' && unquote(getAttribute(s, 'id')) === id);
+  return ext ? unquote(getAttribute(ext, 'path')) : undefined;
+};
+
+/**
+ * The Resource class behind a .tres, read from its script in the workspace.
+ */
+export const resourceClassFor = (text: string, files: Pick<ProjectFile, 'path' | 'content'>[]) => {
+  const scriptPath = resourceScriptPath(parseTscn(text).document);
+  const script = scriptPath ? files.find(f => f.path === scriptPath) : undefined;
+  return script ? { path: script.path, resourceClass: parseResourceClass(script.content) } : null;
+};
+
+// Properties of [resource] that are engine-level rather than class fields
+const BUILTIN_RESOURCE_PROPERTIES = ['script', 'resource_name', 'resource_local_to_scene', 'resource_path'];
+
+export const resourceValues = (document: TscnDocument) =>
+  (findResourceSection(document)?.properties ?? []).filter(p => !BUILTIN_RESOURCE_PROPERTIES.includes(p.key));
+
+/**
+ * Sets (or with null, removes so the script default applies) one property of a .tres instance.
+ */
+export const setResourceProperty = (text: string, key: string, value: string | null): string => {
+  const { document, errors } = parseTscn(text);
+  if (errors.length > 0) throw new Error(`Fix the syntax errors in the resource first (line ${errors[0].line}: ${errors[0].message})`);
+
+  let section = findResourceSection(document);
+  if (!section) {
+    section = { tag: 'resource', attributes: [], properties: [], line: 0 };
+    document.sections.push(section);
+  }
+  const existing = section.properties.find(p => p.key === key);
+  if (value === null) section.properties = section.properties.filter(p => p.key !== key);
+  else if (existing) existing.value = value;
+  else section.properties.push({ key, value });
+  return serializeTscn(updateLoadSteps(document));
+};
+
+const resourceProblem = (line: number, message: string, severity: Diagnostic['severity'] = 'error'): Diagnostic => ({ line, severity, rule: 'resource', message });
+
+// Value shapes Godot would reject for a field of this type
+const checkValue = (field: ResourceField, value: string) => {
+  const kind = fieldKind(field);
+  const v = value.trim();
+  if (kind === 'bool' && v !== 'true' && v !== 'false') return 'expects true or false';
+  if ((kind === 'int' || kind === 'enum') && !/^-?\d+$/.test(v)) return 'expects an integer';
+  if (kind === 'float' && !/^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(v) && !/^-?inf$|^nan$/.test(v)) return 'expects a number';
+  if (kind === 'string' && !/^&?"[\s\S]*"$/.test(v)) return 'expects a quoted string';
+  if (kind === 'color' && !/^Color\(/.test(v)) return 'expects Color(r, g, b, a)';
+  if (field.type.startsWith('Array') && !/^(Array\[\w+\]\()?\[/.test(v)) return 'expects an array';
+  return null;
+};
+
+/**
+ * Checks that a .tres would load in Godot 4 and matches the fields of its Resource class.
+ * With workspacePaths, ext_resources pointing at scripts or other resources must exist in the workspace.
+ */
+export const validateResource = (
+  text: string,
+  workspacePaths?: string[],
+  scriptClass?: { path: string; resourceClass: ResourceClass } | null
+): Diagnostic[] => {
+  const { document, errors } = parseTscn(text);
+  const diagnostics: Diagnostic[] = [...errors];
+  const header = document.sections[0];
+
+  if (!header || header.tag !== 'gd_resource') {
+    diagnostics.push(resourceProblem(header?.line ?? 1, 'A resource file must start with a [gd_resource type="Resource" format=3] header.'));
+  } else {
+    const format = getAttribute(header, 'format');
+    if (format === '2') diagnostics.push(resourceProblem(header.line, 'format=2 is the Godot 3 resource format; Godot 4 uses format=3.'));
+    else if (format !== '3') diagnostics.push(resourceProblem(header.line, 'The [gd_resource] header needs format=3.'));
+  }
+
+  const extIds = new Set<string>();
+  document.sections.filter(s => s.tag === 'ext_resource').forEach(section => {
+    const id = unquote(getAttribute(section, 'id'));
+    const path = unquote(getAttribute(section, 'path'));
+    if (!id || !path) diagnostics.push(resourceProblem(section.line, '[ext_resource] needs type, path and id attributes.'));
+    else {
+      extIds.add(id);
+      if (workspacePaths && /\.(gd|tres|tscn|gdshader)$/.test(path) && !workspacePaths.includes(path)) {
+        diagnostics.push(resourceProblem(section.line, `${path} does not exist in the project.`));
+      }
+    }
+  });
+  const subIds = new Set(document.sections.filter(s => s.tag === 'sub_resource').map(s => unquote(getAttribute(s, 'id'))));
+
+  const section: TscnSection | undefined = findResourceSection(document);
+  if (!section) {
+    if (header?.tag === 'gd_resource') diagnostics.push(resourceProblem(header.line, 'The file has no [resource] section.'));
+    return diagnostics.sort((a, b) => a.line - b.line);
+  }
+
+  section.properties.forEach(({ key, value, line }) => {
+    for (const [, kind, id] of value.matchAll(/\b(ExtResource|SubResource)\(\s*"([^"]*)"\s*\)/g)) {
+      if (!(kind === 'ExtResource' ? extIds : subIds).has(id)) diagnostics.push(resourceProblem(line ?? section.line, `${key}: ${kind}("${id}") is not declared in this file.`));
+    }
+  });
+
+  if (scriptClass) {
+    const fields = new Map(scriptClass.resourceClass.fields.map(f => [f.name, f]));
+    resourceValues(document).forEach(({ key, value, line = section.line }) => {
+      const field = fields.get(key);
+      const className = scriptClass.resourceClass.className ?? scriptClass.path;
+      if (!field) diagnostics.push(resourceProblem(line, `${className} has no exported property '${key}'.`));
+      else {
+        const problem = checkValue(field, value);
+        if (problem) diagnostics.push(resourceProblem(line, `${key} ${problem} (${field.type}), got ${value.split('\n')[0]}.`));
+      }
+    });
+  }
+  return diagnostics.sort((a, b) => a.line - b.line);
+};
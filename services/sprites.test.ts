@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { PixelBuffer, quantize, removeBackground, resample } from './sprites';
+
+const image = (width: number, height: number, colors: number[][]): PixelBuffer => ({ width, height, data: new Uint8ClampedArray(colors.flat()) });
+
+const pixels = (buffer: PixelBuffer) => Array.from({ length: buffer.width * buffer.height }, (_, i) => Array.from(buffer.data.slice(i * 4, i * 4 + 4)));
+
+const WHITE = [250, 250, 250, 255];
+const BLACK = [0, 0, 0, 255];
+const RED = [255, 0, 0, 255];
+
+describe('removeBackground', () => {
+  it('clears the color the corners agree on, with a soft band around it', () => {
+    const edge = [130, 250, 250, 255];
+    const result = removeBackground(image(3, 3, [WHITE, WHITE, WHITE, WHITE, RED, edge, WHITE, WHITE, WHITE]));
+    expect(pixels(result).map(p => p[3])).toEqual([0, 0, 0, 0, 255, 128, 0, 0, 0]);
+    expect(pixels(result)[4]).toEqual(RED);
+  });
+
+  it('falls back to the key color when the corners disagree', () => {
+    const magenta = [250, 10, 240, 255];
+    const result = removeBackground(image(3, 3, [WHITE, magenta, BLACK, magenta, magenta, magenta, BLACK, magenta, WHITE]));
+    expect(pixels(result).map(p => p[3])).toEqual([255, 0, 255, 0, 0, 0, 255, 0, 255]);
+  });
+
+  it('leaves the source buffer untouched', () => {
+    const source = image(2, 2, [WHITE, WHITE, WHITE, WHITE]);
+    removeBackground(source);
+    expect(pixels(source)).toEqual([WHITE, WHITE, WHITE, WHITE]);
+  });
+});
+
+describe('resample', () => {
+  it('averages the source pixels each target pixel covers', () => {
+    const source = image(4, 2, [
+      BLACK, WHITE, RED, RED,
+      WHITE, BLACK, RED, RED,
+    ]);
+    expect(pixels(resample(source, 2, 1))).toEqual([[125, 125, 125, 255], RED]);
+  });
+
+  it('weights colors by alpha, so transparent pixels do not darken edges', () => {
+    const source = image(2, 2, [RED, [0, 0, 0, 0], [0, 0, 0, 0], RED]);
+    expect(pixels(resample(source, 1, 1))).toEqual([[255, 0, 0, 128]]);
+  });
+
+  it('scales the centered crop with the target aspect ratio', () => {
+    const source = image(4, 2, [
+      BLACK, RED, RED, BLACK,
+      BLACK, RED, RED, BLACK,
+    ]);
+    const result = resample(source, 1, 1);
+    expect(result).toMatchObject({ width: 1, height: 1 });
+    expect(pixels(result)).toEqual([RED]);
+  });
+});
+
+describe('quantize', () => {
+  it('maps colors to a palette of at most the given size, made of the averages of median-cut boxes', () => {
+    const source = image(4, 1, [[10, 10, 10, 255], [20, 20, 20, 255], [240, 240, 240, 255], [250, 250, 250, 255]]);
+    expect(pixels(quantize(source, 2))).toEqual([[15, 15, 15, 255], [15, 15, 15, 255], [245, 245, 245, 255], [245, 245, 245, 255]]);
+    expect(new Set(pixels(quantize(source, 1)).map(String))).toEqual(new Set(['130,130,130,255']));
+  });
+
+  it('makes every pixel fully opaque or fully transparent', () => {
+    const source = image(3, 1, [[200, 0, 0, 200], [0, 0, 200, 127], [0, 200, 0, 128]]);
+    expect(pixels(quantize(source, 4)).map(p => p[3])).toEqual([255, 0, 255]);
+  });
+
+  it('keeps images with no opaque pixels as they are', () => {
+    const source = image(1, 1, [[10, 20, 30, 40]]);
+    expect(pixels(quantize(source, 4))).toEqual([[10, 20, 30, 0]]);
+  });
+});
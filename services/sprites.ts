@@ -0,0 +1,292 @@
+import { VisualAssetKind, VisualAssetOptions } from "../types";
+import { formatFloat } from "./resources";
+import { quote } from "./tscn";
+
+export const DEFAULT_VISUAL_ASSET: VisualAssetOptions = {
+  kind: 'image',
+  name: '',
+  columns: 1,
+  rows: 1,
+  frameWidth: 1024,
+  frameHeight: 1024,
+  pixelArt: false,
+  paletteSize: 16,
+  transparentBackground: false,
+  animationName: 'default',
+  fps: 8,
+  aspectRatio: 'auto',
+  imageSize: '2K',
+  variations: 1,
+  styleReferences: [],
+};
+
+// Layout a kind starts with when it is picked
+export const VISUAL_ASSET_PRESETS: Record<VisualAssetKind, Partial<VisualAssetOptions>> = {
+  image: { columns: 1, rows: 1, frameWidth: 1024, frameHeight: 1024, transparentBackground: false, aspectRatio: 'auto' },
+  spritesheet: { columns: 4, rows: 1, frameWidth: 64, frameHeight: 64, transparentBackground: true, aspectRatio: 'auto' },
+  tileset: { columns: 4, rows: 4, frameWidth: 32, frameHeight: 32, transparentBackground: false, aspectRatio: 'auto' },
+};
+
+// Aspect ratios image models accept; the result is cropped to the exact sheet size afterwards
+export const ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+// Flat background the model is asked to paint when the asset needs transparency
+export const KEY_COLOR = '#FF00FF';
+const KEY_RGB = [255, 0, 255];
+const KEY_TOLERANCE = 96;
+
+// Same layout as ImageData, so canvas pixels can be processed without a canvas
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, row by row
+}
+
+export const gridOf = (options: VisualAssetOptions) =>
+  options.kind === 'image' ? { columns: 1, rows: 1 } : { columns: Math.max(1, options.columns), rows: Math.max(1, options.rows) };
+
+export const sheetSize = (options: VisualAssetOptions) => {
+  const { columns, rows } = gridOf(options);
+  return { width: columns * options.frameWidth, height: rows * options.frameHeight };
+};
+
+export const closestAspectRatio = (width: number, height: number) => {
+  const distance = (ratio: string) => {
+    const [w, h] = ratio.split(':').map(Number);
+    return Math.abs(Math.log((w / h) / (width / height)));
+  };
+  return ASPECT_RATIOS.reduce((best, ratio) => distance(ratio) < distance(best) ? ratio : best);
+};
+
+// Aspect ratio sent to the model: the one picked, or the closest to the sheet
+export const requestedAspectRatio = (options: VisualAssetOptions) => {
+  if (options.aspectRatio !== 'auto') return options.aspectRatio;
+  const { width, height } = sheetSize(options);
+  return closestAspectRatio(width, height);
+};
+
+/**
+ * File name for an asset: the chosen name, or the first words of the prompt.
+ */
+export const assetBaseName = (options: VisualAssetOptions, prompt: string) => {
+  const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return slug(options.name) || slug(prompt.split(/\s+/).slice(0, 4).join(' ')).slice(0, 32) || options.kind;
+};
+
+const colorDistance = (data: Uint8ClampedArray, offset: number, rgb: number[]) =>
+  Math.hypot(data[offset] - rgb[0], data[offset + 1] - rgb[1], data[offset + 2] - rgb[2]);
+
+/**
+ * Makes the background transparent: the color of the corners when they agree (models rarely paint
+ * the exact key color), the key color otherwise.
+ */
+export const removeBackground = (buffer: PixelBuffer): PixelBuffer => {
+  const { width, height, data } = buffer;
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1].map(i => i * 4);
+  const average = [0, 1, 2].map(c => corners.reduce((sum, offset) => sum + data[offset + c], 0) / corners.length);
+  const background = corners.every(offset => colorDistance(data, offset, average) < KEY_TOLERANCE / 2) ? average : KEY_RGB;
+
+  const result = new Uint8ClampedArray(data);
+  for (let offset = 0; offset < result.length; offset += 4) {
+    const distance = colorDistance(result, offset, background);
+    // A soft band keeps anti-aliased edges from turning into a halo of background color
+    if (distance < KEY_TOLERANCE) result[offset + 3] = 0;
+    else if (distance < KEY_TOLERANCE * 1.5) result[offset + 3] = Math.min(result[offset + 3], Math.round(255 * (distance - KEY_TOLERANCE) / (KEY_TOLERANCE / 2)));
+  }
+  return { width, height, data: result };
+};
+
+/**
+ * Scales the centered crop of the source that has the target's aspect ratio. Each target pixel averages the
+ * source pixels it covers (alpha-weighted, so transparent pixels don't darken edges), which keeps detail
+ * when downscaling a large generated image to a few pixels per frame.
+ */
+export const resample = (source: PixelBuffer, width: number, height: number): PixelBuffer => {
+  const scale = Math.min(source.width / width, source.height / height);
+  const offsetX = (source.width - width * scale) / 2;
+  const offsetY = (source.height - height * scale) / 2;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(offsetY + y * scale);
+    const bottom = Math.min(source.height, Math.max(top + 1, Math.floor(offsetY + (y + 1) * scale)));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(offsetX + x * scale);
+      const right = Math.min(source.width, Math.max(left + 1, Math.floor(offsetX + (x + 1) * scale)));
+      let r = 0, g = 0, b = 0, a = 0, count = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const offset = (sy * source.width + sx) * 4;
+          const alpha = source.data[offset + 3];
+          r += source.data[offset] * alpha;
+          g += source.data[offset + 1] * alpha;
+          b += source.data[offset + 2] * alpha;
+          a += alpha;
+          count++;
+        }
+      }
+      const offset = (y * width + x) * 4;
+      if (a > 0) {
+        data[offset] = r / a;
+        data[offset + 1] = g / a;
+        data[offset + 2] = b / a;
+      }
+      data[offset + 3] = count > 0 ? a / count : 0;
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Reduces the image to a palette of at most `colors` colors (median cut), with fully opaque or fully
+ * transparent pixels: the look of hand-made pixel art.
+ */
+export const quantize = (buffer: PixelBuffer, colors: number): PixelBuffer => {
+  const data = new Uint8ClampedArray(buffer.data);
+  const opaque: number[] = [];
+  for (let offset = 0; offset < data.length; offset += 4) {
+    if (data[offset + 3] < 128) data[offset + 3] = 0;
+    else {
+      data[offset + 3] = 255;
+      opaque.push(offset);
+    }
+  }
+  if (opaque.length === 0) return { ...buffer, data };
+
+  const rangeOf = (box: number[], channel: number) => {
+    let min = 255, max = 0;
+    box.forEach(offset => { min = Math.min(min, data[offset + channel]); max = Math.max(max, data[offset + channel]); });
+    return max - min;
+  };
+  // Split the box with the widest channel range at its median until there are enough boxes
+  const boxes = [opaque];
+  while (boxes.length < colors) {
+    const candidates = boxes.map((box, index) => {
+      const ranges = [0, 1, 2].map(channel => rangeOf(box, channel));
+      const channel = ranges.indexOf(Math.max(...ranges));
+      return { index, channel, range: ranges[channel] };
+    }).filter(c => c.range > 0);
+    if (candidates.length === 0) break;
+    const widest = candidates.reduce((best, c) => c.range > best.range ? c : best);
+    const box = boxes[widest.index].sort((a, b) => data[a + widest.channel] - data[b + widest.channel]);
+    const middle = Math.floor(box.length / 2);
+    boxes.splice(widest.index, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  const palette = boxes.map(box => [0, 1, 2].map(channel => Math.round(box.reduce((sum, offset) => sum + data[offset + channel], 0) / box.length)));
+  opaque.forEach(offset => {
+    const nearest = palette.reduce((best, color) => colorDistance(data, offset, color) < colorDistance(data, offset, best) ? color : best);
+    data[offset] = nearest[0];
+    data[offset + 1] = nearest[1];
+    data[offset + 2] = nearest[2];
+  });
+  return { ...buffer, data };
+};
+
+const readPixels = (url: string) => new Promise<PixelBuffer>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext('2d')!;
+    context.drawImage(image, 0, 0);
+    resolve(context.getImageData(0, 0, canvas.width, canvas.height));
+  };
+  image.onerror = () => reject(new Error("The image could not be decoded."));
+  image.src = url;
+});
+
+const toPngDataUrl = (buffer: PixelBuffer) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = buffer.width;
+  canvas.height = buffer.height;
+  canvas.getContext('2d')!.putImageData(new ImageData(new Uint8ClampedArray(buffer.data), buffer.width, buffer.height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Converts a white-on-black mask to the alpha convention of the OpenAI edits endpoint: transparent
+ * where the image may change, opaque where it is kept.
+ */
+export const maskToAlpha = (buffer: PixelBuffer): PixelBuffer => {
+  const data = new Uint8ClampedArray(buffer.data.length);
+  for (let offset = 0; offset < data.length; offset += 4) {
+    data[offset + 3] = 255 - buffer.data[offset];
+  }
+  return { ...buffer, data };
+};
+
+export const alphaMask = async (url: string) => toPngDataUrl(maskToAlpha(await readPixels(url)));
+
+export const imageDimensions = async (url: string) => {
+  const { width, height } = await readPixels(url);
+  return { width, height };
+};
+
+/**
+ * Turns a generated image into the final PNG, locally: background removal, the exact sheet size and,
+ * for pixel art, the limited palette.
+ */
+export const processVisualAsset = async (url: string, options: VisualAssetOptions): Promise<string> => {
+  let pixels = await readPixels(url);
+  if (options.transparentBackground) pixels = removeBackground(pixels);
+  const { width, height } = sheetSize(options);
+  pixels = resample(pixels, width, height);
+  if (options.pixelArt) pixels = quantize(pixels, options.paletteSize);
+  return toPngDataUrl(pixels);
+};
+
+const TEXTURE_ID = '1_texture';
+
+const textureHeader = (type: string, loadSteps: number, texturePath: string) =>
+  `[gd_resource type="${type}" load_steps=${loadSteps} format=3]
+
+[ext_resource type="Texture2D" path=${quote(texturePath)} id="${TEXTURE_ID}"]
+`;
+
+/**
+ * SpriteFrames with one animation playing every frame of the sheet, left to right and top to bottom.
+ */
+export const spriteFramesResource = (texturePath: string, options: VisualAssetOptions) => {
+  const { columns, rows } = gridOf(options);
+  const { frameWidth, frameHeight } = options;
+  const frames = Array.from({ length: columns * rows }, (_, i) => ({ x: (i % columns) * frameWidth, y: Math.floor(i / columns) * frameHeight }));
+  const atlases = frames.map((frame, i) => `
+[sub_resource type="AtlasTexture" id="AtlasTexture_${i}"]
+atlas = ExtResource("${TEXTURE_ID}")
+region = Rect2(${frame.x}, ${frame.y}, ${frameWidth}, ${frameHeight})
+`).join('');
+  const entries = frames.map((_, i) => `{
+"duration": 1.0,
+"texture": SubResource("AtlasTexture_${i}")
+}`).join(', ');
+  return `${textureHeader('SpriteFrames', frames.length + 2, texturePath)}${atlases}
+[resource]
+animations = [{
+"frames": [${entries}],
+"loop": true,
+"name": &${quote(options.animationName.trim() || 'default')},
+"speed": ${formatFloat(options.fps)}
+}]
+`;
+};
+
+/**
+ * TileSet with one atlas source holding every tile of the sheet.
+ */
+export const tileSetResource = (texturePath: string, options: VisualAssetOptions) => {
+  const { columns, rows } = gridOf(options);
+  const size = `Vector2i(${options.frameWidth}, ${options.frameHeight})`;
+  const tiles = Array.from({ length: columns * rows }, (_, i) => `${i % columns}:${Math.floor(i / columns)}/0 = 0`).join('\n');
+  return `${textureHeader('TileSet', 3, texturePath)}
+[sub_resource type="TileSetAtlasSource" id="TileSetAtlasSource_0"]
+texture = ExtResource("${TEXTURE_ID}")
+texture_region_size = ${size}
+${tiles}
+
+[resource]
+tile_size = ${size}
+sources/0 = SubResource("TileSetAtlasSource_0")
+`;
+};
@@ -0,0 +1,156 @@
+import { ProjectFile } from "../types";
+import { parseResourceClass } from "./resources";
+import { getAttribute, parseTscn, unquote } from "./tscn";
+
+export type SymbolKind = 'class' | 'signal' | 'function' | 'export' | 'constant' | 'enum' | 'autoload';
+
+export interface ProjectSymbol {
+  name: string;
+  kind: SymbolKind;
+  path: string;
+  line: number;
+  detail: string; // Declaration as written, e.g. "func take_damage(amount: int) -> void"
+}
+
+export interface FileIndex {
+  path: string;
+  className?: string;
+  extendsName?: string;
+  symbols: ProjectSymbol[];
+  references: string[]; // Paths of the project files this file uses (preload/load, ext_resource, class names, autoloads)
+}
+
+export interface ProjectIndex {
+  files: Map<string, FileIndex>;
+  classes: Map<string, string>; // class_name -> path
+  autoloads: Map<string, string>; // autoload name -> path
+  dependents: Map<string, string[]>; // path -> paths of the files that reference it
+}
+
+const RES_PATH_REGEX = /res:\/\/[\w\-./]+\.\w+/g;
+
+// Top-level declarations only: members of inner classes and locals are not part of a file's API
+const DECLARATIONS: { kind: SymbolKind; regex: RegExp }[] = [
+  { kind: 'signal', regex: /^signal\s+(\w+)/ },
+  { kind: 'function', regex: /^(?:static\s+)?func\s+(\w+)/ },
+  { kind: 'constant', regex: /^const\s+(\w+)/ },
+  { kind: 'enum', regex: /^enum\s+(\w+)/ },
+  { kind: 'class', regex: /^class\s+(\w+)/ },
+];
+
+const indexScript = (file: ProjectFile): FileIndex => {
+  const symbols: ProjectSymbol[] = [];
+  const className = file.content.match(/^class_name\s+(\w+)/m)?.[1];
+  const extendsName = file.content.match(/^(?:class_name\s+\w+\s+)?extends\s+("[^"]*"|\w+)/m)?.[1];
+
+  file.content.split('\n').forEach((raw, index) => {
+    if (/^\s/.test(raw)) return;
+    const line = raw.replace(/#.*$/, '').trim();
+    for (const { kind, regex } of DECLARATIONS) {
+      const match = line.match(regex);
+      if (match) {
+        symbols.push({ name: match[1], kind, path: file.path, line: index + 1, detail: line.replace(/:\s*$/, '') });
+        break;
+      }
+    }
+  });
+  parseResourceClass(file.content).fields.forEach(field => {
+    symbols.push({
+      name: field.name,
+      kind: 'export',
+      path: file.path,
+      line: field.line,
+      detail: `@export var ${field.name}${field.type ? `: ${field.type}` : ''}${field.defaultValue ? ` = ${field.defaultValue}` : ''}`
+    });
+  });
+  if (className) symbols.unshift({ name: className, kind: 'class', path: file.path, line: 1, detail: `class_name ${className}` });
+
+  return { path: file.path, className, extendsName: extendsName && unquote(extendsName), symbols, references: [] };
+};
+
+// [autoload] entries of project.godot: Name="*res://path.gd" (the * marks it enabled)
+const readAutoloads = (file: ProjectFile) => {
+  const autoloads = new Map<string, string>();
+  let inSection = false;
+  file.content.split('\n').forEach(raw => {
+    const line = raw.trim();
+    if (line.startsWith('[')) inSection = line === '[autoload]';
+    else if (inSection) {
+      const match = line.match(/^(\w+)\s*=\s*"\*?(res:\/\/[^"]+)"/);
+      if (match) autoloads.set(match[1], match[2]);
+    }
+  });
+  return autoloads;
+};
+
+/**
+ * Indexes the declarations of every project file and the references between files.
+ * Pure and cheap enough to rebuild whenever files change.
+ */
+export const buildProjectIndex = (projectFiles: ProjectFile[]): ProjectIndex => {
+  const files = new Map<string, FileIndex>();
+  const classes = new Map<string, string>();
+  const autoloads = new Map<string, string>();
+
+  projectFiles.forEach(file => {
+    if (file.language === 'gdscript') {
+      const index = indexScript(file);
+      files.set(file.path, index);
+      if (index.className) classes.set(index.className, file.path);
+    } else {
+      files.set(file.path, { path: file.path, symbols: [], references: [] });
+      if (file.language === 'config') readAutoloads(file).forEach((path, name) => autoloads.set(name, path));
+    }
+  });
+  autoloads.forEach((path, name) => {
+    files.get(path)?.symbols.unshift({ name, kind: 'autoload', path, line: 1, detail: `autoload ${name}` });
+  });
+
+  const known = new Set(projectFiles.map(f => f.path));
+  projectFiles.forEach(file => {
+    const references = new Set<string>();
+    if (file.language === 'scene' || file.language === 'resource') {
+      parseTscn(file.content).document.sections
+        .filter(s => s.tag === 'ext_resource')
+        .forEach(s => references.add(unquote(getAttribute(s, 'path')) ?? ''));
+    } else if (file.language !== 'image') {
+      (file.content.match(RES_PATH_REGEX) ?? []).forEach(path => references.add(path));
+    }
+    if (file.language === 'gdscript') {
+      const words = new Set(file.content.match(/\b[A-Za-z_]\w*\b/g) ?? []);
+      classes.forEach((path, name) => { if (words.has(name)) references.add(path); });
+      autoloads.forEach((path, name) => { if (words.has(name)) references.add(path); });
+    }
+    references.delete(file.path);
+    files.get(file.path)!.references = Array.from(references).filter(path => known.has(path));
+  });
+
+  const dependents = new Map<string, string[]>();
+  files.forEach(index => index.references.forEach(path => dependents.set(path, [...(dependents.get(path) ?? []), index.path])));
+
+  return { files, classes, autoloads, dependents };
+};
+
+/**
+ * Compact API outline of a file (class, signals, functions, exports) for when its full content doesn't fit.
+ */
+export const formatOutline = (index: FileIndex) => {
+  const header = [index.className && `class_name ${index.className}`, index.extendsName && `extends ${index.extendsName}`].filter(Boolean).join(' ');
+  const members = index.symbols
+    .filter(s => s.kind !== 'class' || s.detail.startsWith('class '))
+    .map(s => `  ${s.detail}`);
+  return [`${index.path}${header ? `: ${header}` : ''}`, ...members].join('\n');
+};
+
+/**
+ * Symbols whose name appears as a word in the text (class names, functions, signals...).
+ */
+export const findMentionedSymbols = (index: ProjectIndex, text: string) => {
+  const words = new Set(text.match(/\b[A-Za-z_]\w*\b/g) ?? []);
+  const found: ProjectSymbol[] = [];
+  index.files.forEach(file => file.symbols.forEach(symbol => {
+    // Short names (x, id, run) would match almost any prompt
+    if (symbol.name.length >= 4 && words.has(symbol.name)) found.push(symbol);
+  }));
+  return found;
+};
@@ -0,0 +1,109 @@
+import { ProjectFile } from "../types";
+
+export type TokenType = 'keyword' | 'type' | 'builtin' | 'string' | 'number' | 'comment' | 'annotation' | 'function' | 'node_path' | 'plain';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+const GDSCRIPT_KEYWORDS = new Set([
+  'if', 'elif', 'else', 'for', 'while', 'match', 'break', 'continue', 'pass', 'return', 'class', 'class_name',
+  'extends', 'is', 'in', 'as', 'self', 'signal', 'func', 'static', 'const', 'enum', 'var', 'await', 'preload',
+  'load', 'super', 'and', 'or', 'not', 'true', 'false', 'null', 'when', 'breakpoint', 'assert', 'void'
+]);
+
+const GDSCRIPT_TYPES = new Set([
+  'int', 'float', 'bool', 'String', 'StringName', 'NodePath', 'Array', 'Dictionary', 'Vector2', 'Vector2i',
+  'Vector3', 'Vector3i', 'Vector4', 'Color', 'Rect2', 'Transform2D', 'Transform3D', 'Basis', 'Quaternion',
+  'Callable', 'Signal', 'Object', 'Node', 'Node2D', 'Node3D', 'Resource', 'PackedScene', 'Variant'
+]);
+
+// Utility functions of @GlobalScope / @GDScript (constants like PI are caught by the ALL_CAPS rule)
+const GDSCRIPT_BUILTINS = new Set([
+  'print', 'print_debug', 'push_error', 'push_warning', 'prints', 'str', 'len', 'range',
+  'clamp', 'clampf', 'clampi', 'lerp', 'lerpf', 'move_toward', 'abs', 'sign', 'min', 'max', 'floor', 'ceil', 'round',
+  'sqrt', 'pow', 'sin', 'cos', 'randf', 'randi', 'randf_range', 'randi_range', 'is_instance_valid', 'typeof', 'get_node'
+]);
+
+const SHADER_KEYWORDS = new Set([
+  'shader_type', 'render_mode', 'uniform', 'varying', 'const', 'void', 'return', 'if', 'else', 'for', 'while',
+  'discard', 'in', 'out', 'inout', 'true', 'false', 'struct', 'global', 'instance', 'group_uniforms', 'lowp', 'mediump', 'highp'
+]);
+
+const SHADER_TYPES = new Set([
+  'float', 'int', 'uint', 'bool', 'vec2', 'vec3', 'vec4', 'ivec2', 'ivec3', 'ivec4', 'uvec2', 'uvec3', 'uvec4',
+  'bvec2', 'bvec3', 'bvec4', 'mat2', 'mat3', 'mat4', 'sampler2D', 'isampler2D', 'usampler2D', 'sampler2DArray',
+  'sampler3D', 'samplerCube', 'canvas_item', 'spatial', 'particles', 'sky', 'fog'
+]);
+
+// Uniform hints and render modes read like annotations
+const SHADER_HINT_REGEX = /^(?:source_color|hint_\w+|filter_\w+|repeat_\w+|instance_index|unshaded|cull_\w+|blend_\w+|depth_\w+|diffuse_\w+|specular_\w+|shadows_disabled|ambient_light_disabled|light_only|skip_vertex_transform|world_vertex_coords)$/;
+
+const SHADER_BUILTIN_FUNCTIONS = new Set([
+  'texture', 'textureLod', 'texelFetch', 'mix', 'step', 'smoothstep', 'clamp', 'fract', 'floor', 'ceil', 'mod', 'abs',
+  'sign', 'min', 'max', 'pow', 'sqrt', 'exp', 'log', 'sin', 'cos', 'tan', 'atan', 'length', 'distance', 'dot', 'cross',
+  'normalize', 'reflect', 'refract', 'dFdx', 'dFdy', 'fwidth', 'inverse', 'transpose'
+]);
+
+// A single regex drives the tokenizer; group order decides the token type
+const TOKEN_REGEX = /(#[^\n]*|\/\/[^\n]*|\/\*[\s\S]*?\*\/)|("""[\s\S]*?"""|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')|(\$[A-Za-z_][\w/]*|%[A-Za-z_]\w*)|(@[A-Za-z_]\w*)|(\b(?:0x[0-9a-fA-F_]+|\d[\d_]*\.?\d*(?:e[+-]?\d+)?)\b)|([A-Za-z_]\w*)(?=\s*\()|([A-Za-z_]\w*)/g;
+
+export type SyntaxLanguage = ProjectFile['language'];
+
+export const tokenize = (code: string, language: SyntaxLanguage = 'gdscript'): Token[] => {
+  if (language === 'text') return code ? [{ type: 'plain', text: code }] : [];
+  const isShader = language === 'shader';
+  const keywords = isShader ? SHADER_KEYWORDS : GDSCRIPT_KEYWORDS;
+  const types = isShader ? SHADER_TYPES : GDSCRIPT_TYPES;
+
+  const tokens: Token[] = [];
+  let last = 0;
+  const push = (type: TokenType, text: string) => {
+    if (!text) return;
+    const prev = tokens[tokens.length - 1];
+    if (prev && prev.type === type && type === 'plain') prev.text += text;
+    else tokens.push({ type, text });
+  };
+
+  for (const match of code.matchAll(TOKEN_REGEX)) {
+    const index = match.index ?? 0;
+    push('plain', code.slice(last, index));
+    last = index + match[0].length;
+
+    const [text, comment, str, nodePath, annotation, num, call, word] = match;
+    // '#' starts a comment in GDScript but a preprocessor line in shaders; '//' is only a shader comment
+    if (comment) push(isShader === comment.startsWith('#') ? 'plain' : 'comment', text);
+    else if (str) push('string', text);
+    else if (nodePath) push(isShader ? 'plain' : 'node_path', text);
+    else if (annotation) push('annotation', text);
+    else if (num) push('number', text);
+    else {
+      const ident = call || word;
+      if (keywords.has(ident)) push('keyword', text);
+      else if (types.has(ident)) push('type', text);
+      // ALL_CAPS: shader built-ins (UV, COLOR, TIME) and GDScript constants
+      else if (/^[A-Z][A-Z0-9_]*$/.test(ident) && ident.length > 1) push('builtin', text);
+      else if (/^[A-Z]/.test(ident)) push('type', text);
+      else if (isShader && SHADER_HINT_REGEX.test(ident)) push('annotation', text);
+      else if (isShader ? SHADER_BUILTIN_FUNCTIONS.has(ident) : GDSCRIPT_BUILTINS.has(ident)) push('builtin', text);
+      else if (call) push('function', text);
+      else push('plain', text);
+    }
+  }
+  push('plain', code.slice(last));
+  return tokens;
+};
+
+export const TOKEN_CLASSES: Record<TokenType, string> = {
+  keyword: 'text-[#ff7085]',
+  type: 'text-[#42ffc2]',
+  builtin: 'text-[#c792ea]',
+  string: 'text-[#ffeda1]',
+  number: 'text-[#a1ffe0]',
+  comment: 'text-white/30 italic',
+  annotation: 'text-[#ffb373]',
+  function: 'text-[#57b3ff]',
+  node_path: 'text-[#63c259]',
+  plain: '',
+};
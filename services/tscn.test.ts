@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { applySceneEdit, normalizeScene, parseTscn, serializeTscn, validateScene } from './tscn';
+
+const SCENE = `[gd_scene load_steps=3 format=3 uid="uid://b1"]
+
+[ext_resource type="Script" path="res://player.gd" id="1_a"]
+[ext_resource type="Texture2D" path="res://icon.png" id="2_b"]
+
+; The player and its camera
+[node name="Player" type="CharacterBody2D"]
+script = ExtResource("1_a")
+target = NodePath("Body/Sprite")
+; Follows the sprite
+follow = NodePath("Body/Sprite:position")
+points = PackedVector2Array(
+0, 0,
+10, 10)
+
+[node name="Body" type="Node2D" parent="."]
+
+[node name="Sprite" type="Sprite2D" parent="Body"]
+texture = ExtResource("2_b")
+owner_path = NodePath("../..")
+hud = NodePath("../../Hud")
+
+[node name="Hud" type="CanvasLayer" parent="."]
+sprite = NodePath("../Body/Sprite")
+unique = NodePath("%Sprite")
+
+[connection signal="ready" from="Body/Sprite" to="." method="_on_sprite_ready"]
+`;
+
+describe('parseTscn / serializeTscn', () => {
+  it('reads sections, attributes and multi-line values', () => {
+    const { document, errors } = parseTscn(SCENE);
+    expect(errors).toEqual([]);
+    expect(document.sections.map(s => s.tag)).toEqual(['gd_scene', 'ext_resource', 'ext_resource', 'node', 'node', 'node', 'node', 'connection']);
+    const player = document.sections[3];
+    expect(player.line).toBe(7);
+    expect(player.attributes).toEqual([{ key: 'name', value: '"Player"' }, { key: 'type', value: '"CharacterBody2D"' }]);
+    expect(player.properties.find(p => p.key === 'points')?.value).toBe('PackedVector2Array(\n0, 0,\n10, 10)');
+  });
+
+  it('round-trips a scene unchanged, spacing and comments included', () => {
+    expect(serializeTscn(parseTscn(SCENE).document)).toBe(SCENE);
+    const noTrailingNewline = '[gd_resource type="Resource" format=3]\n\n[resource]\nvalue = 1';
+    expect(serializeTscn(parseTscn(noTrailingNewline).document)).toBe(noTrailingNewline);
+  });
+
+  it('reports syntax errors with their line', () => {
+    const { errors } = parseTscn('[gd_scene format=3]\n\n[node name="A" type="Node"\nfoo bar\n');
+    expect(errors.map(e => e.line)).toEqual([3, 4]);
+  });
+
+  it('gives generated scenes Godot\'s layout and load_steps', () => {
+    const generated = '[gd_scene format=3]\n[ext_resource type="Script" path="res://a.gd" id="1_a"]\n[ext_resource type="Script" path="res://b.gd" id="2_b"]\n; note\n[node name="A" type="Node"]\nscript = ExtResource("1_a")\n';
+    expect(normalizeScene(generated)).toBe(
+      '[gd_scene load_steps=3 format=3]\n\n[ext_resource type="Script" path="res://a.gd" id="1_a"]\n[ext_resource type="Script" path="res://b.gd" id="2_b"]\n\n[node name="A" type="Node"]\nscript = ExtResource("1_a")\n'
+    );
+  });
+});
+
+describe('validateScene', () => {
+  it('accepts a valid scene', () => {
+    expect(validateScene(SCENE, ['res://player.gd']).filter(d => d.severity === 'error')).toEqual([]);
+  });
+
+  it('flags Godot 3 scenes, undeclared resources and missing parents', () => {
+    const messages = validateScene('[gd_scene load_steps=2 format=2]\n\n[node name="Root" type="Node"]\nscript = ExtResource(1)\n\n[node name="Child" type="Node" parent="Missing"]\n').map(d => d.message);
+    expect(messages).toEqual([
+      'format=2 is the Godot 3 scene format; Godot 4 scenes use format=3.',
+      'script: ExtResource(1) uses a Godot 3 numeric id; Godot 4 ids are strings, e.g. ExtResource("1").',
+      "Parent 'Missing' of node 'Child' is not declared above it.",
+    ]);
+  });
+});
+
+describe('applySceneEdit', () => {
+  const nodePaths = (text: string) => Array.from(text.matchAll(/^(\w+) = NodePath\("([^"]*)"\)$/gm), m => `${m[1]}=${m[2]}`);
+
+  it('renames a node and rebases parents, connections and NodePaths that go through it', () => {
+    const renamed = applySceneEdit(SCENE, { kind: 'rename', path: 'Body', name: 'Torso' });
+    expect(renamed).toContain('[node name="Torso" type="Node2D" parent="."]');
+    expect(renamed).toContain('[node name="Sprite" type="Sprite2D" parent="Torso"]');
+    expect(renamed).toContain('[connection signal="ready" from="Torso/Sprite" to="." method="_on_sprite_ready"]');
+    expect(nodePaths(renamed)).toEqual([
+      'target=Torso/Sprite',
+      'follow=Torso/Sprite:position',
+      'owner_path=../..',
+      'hud=../../Hud',
+      'sprite=../Torso/Sprite',
+      'unique=%Sprite',
+    ]);
+  });
+
+  it('leaves everything else of the file as it was', () => {
+    const renamed = applySceneEdit(SCENE, { kind: 'rename', path: 'Body', name: 'Torso' });
+    expect(renamed.replace(/Torso/g, 'Body')).toBe(SCENE);
+  });
+
+  it('reparents a subtree and rewrites NodePaths relative to the moved nodes', () => {
+    const moved = applySceneEdit(SCENE, { kind: 'reparent', path: 'Body', parent: 'Hud' });
+    const nodes = parseTscn(moved).document.sections.filter(s => s.tag === 'node').map(s => s.attributes.map(a => `${a.key}=${a.value}`).join(' '));
+    expect(nodes).toEqual([
+      'name="Player" type="CharacterBody2D"',
+      'name="Hud" type="CanvasLayer" parent="."',
+      'name="Body" type="Node2D" parent="Hud"',
+      'name="Sprite" type="Sprite2D" parent="Hud/Body"',
+    ]);
+    expect(nodePaths(moved)).toEqual([
+      'target=Hud/Body/Sprite',
+      'follow=Hud/Body/Sprite:position',
+      'sprite=Body/Sprite',
+      'unique=%Sprite',
+      'owner_path=../../..',
+      'hud=../..',
+    ]);
+    expect(validateScene(moved).filter(d => d.severity === 'error')).toEqual([]);
+  });
+
+  it('refuses edits that would break the tree', () => {
+    expect(() => applySceneEdit(SCENE, { kind: 'rename', path: 'Body', name: 'Hud' })).toThrow("already has a child named 'Hud'");
+    expect(() => applySceneEdit(SCENE, { kind: 'reparent', path: 'Body', parent: 'Body/Sprite' })).toThrow('A node cannot be moved under itself.');
+    expect(() => applySceneEdit(SCENE, { kind: 'rename', path: 'Nope', name: 'X' })).toThrow("Node 'Nope' is not in the scene.");
+  });
+
+  it('adds a script ext_resource next to the others when attaching a script', () => {
+    const attached = applySceneEdit(SCENE, { kind: 'attach_script', path: 'Hud', script: 'res://hud.gd' });
+    expect(attached).toContain('[gd_scene load_steps=4 format=3 uid="uid://b1"]');
+    expect(attached).toContain('[ext_resource type="Texture2D" path="res://icon.png" id="2_b"]\n[ext_resource type="Script" path="res://hud.gd" id="3_hud"]\n\n; The player');
+    expect(attached).toContain('[node name="Hud" type="CanvasLayer" parent="."]\nscript = ExtResource("3_hud")\nsprite');
+  });
+});
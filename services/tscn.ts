@@ -0,0 +1,604 @@
+import { Diagnostic } from "../types";
+
+// One "key = value" line of a section. Values stay in Godot's variant syntax (Vector2(1, 2), "text", ExtResource("1_a")).
+export interface TscnProperty {
+  key: string;
+  value: string;
+  line?: number; // Set for properties read by the parser
+  leading?: string[]; // Blank and ; comment lines above it, kept so edits don't reformat the file
+}
+
+// A [tag attr=value ...] header and the properties below it. line is 1-based.
+export interface TscnSection {
+  tag: string;
+  attributes: TscnProperty[];
+  properties: TscnProperty[];
+  line: number;
+  leading?: string[]; // Blank and ; comment lines above the header; sections without it get Godot's spacing
+}
+
+export interface TscnDocument {
+  sections: TscnSection[];
+  trailing?: string[]; // Lines after the last property
+}
+
+// Extensions of files the workspace stores, so references to them can be checked
+const WORKSPACE_EXTENSIONS = ['.gd', '.gdshader', '.tscn', '.tres'];
+
+const RESOURCE_REF_REGEX = /\b(ExtResource|SubResource)\(\s*"?([^")\s]*)"?\s*\)/g;
+
+const syntaxError = (line: number, message: string): Diagnostic => ({ line, severity: 'error', rule: 'syntax', message });
+const sceneProblem = (line: number, message: string, severity: Diagnostic['severity'] = 'error'): Diagnostic => ({ line, severity, rule: 'scene', message });
+
+/**
+ * Bracket depth and open string at the end of a value, so values spanning several lines (arrays, dictionaries,
+ * multi-line strings) can be collected.
+ */
+const valueState = (text: string, initial = { depth: 0, inString: false }) => {
+  let { depth, inString } = initial;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') inString = true;
+    else if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if (ch === ')' || ch === ']' || ch === '}') depth--;
+  }
+  return { depth, inString };
+};
+
+/**
+ * Splits 'name="Player" type="Node2D" parent="."' into attributes. Values are quoted strings or
+ * bracket-balanced expressions (instance=ExtResource("1_a")).
+ */
+const parseAttributes = (text: string, line: number, errors: Diagnostic[]) => {
+  const attributes: TscnProperty[] = [];
+  let i = 0;
+  while (i < text.length) {
+    while (text[i] === ' ' || text[i] === '\t') i++;
+    if (i >= text.length) break;
+    const key = text.slice(i).match(/^[\w/:.-]+/)?.[0];
+    if (!key || text[i + key.length] !== '=') {
+      errors.push(syntaxError(line, `Malformed attribute near '${text.slice(i, i + 20)}'.`));
+      break;
+    }
+    i += key.length + 1;
+    const start = i;
+    let depth = 0;
+    let inString = false;
+    for (; i < text.length; i++) {
+      const ch = text[i];
+      if (inString) {
+        if (ch === '\\') i++;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') inString = true;
+      else if (ch === '(' || ch === '[') depth++;
+      else if (ch === ')' || ch === ']') depth--;
+      else if ((ch === ' ' || ch === '\t') && depth <= 0) break;
+    }
+    attributes.push({ key, value: text.slice(start, i) });
+  }
+  return attributes;
+};
+
+/**
+ * Parses Godot's text scene/resource format into sections. Syntax problems are returned as diagnostics;
+ * everything that could be read is kept.
+ */
+export const parseTscn = (text: string): { document: TscnDocument; errors: Diagnostic[] } => {
+  const sections: TscnSection[] = [];
+  const errors: Diagnostic[] = [];
+  const lines = text.split('\n');
+  let pending: string[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index].trim();
+    if (!line || line.startsWith(';')) {
+      pending.push(lines[index]);
+      continue;
+    }
+
+    if (line.startsWith('[')) {
+      if (!line.endsWith(']')) {
+        errors.push(syntaxError(lineNumber, "Section header is missing its closing ']'."));
+        continue;
+      }
+      const body = line.slice(1, -1).trim();
+      const tag = body.match(/^[\w-]+/)?.[0];
+      if (!tag) {
+        errors.push(syntaxError(lineNumber, 'Section header has no tag.'));
+        continue;
+      }
+      sections.push({ tag, attributes: parseAttributes(body.slice(tag.length), lineNumber, errors), properties: [], line: lineNumber, leading: pending });
+      pending = [];
+      continue;
+    }
+
+    const match = line.match(/^("[^"]*"|[\w/:.-]+)\s*=\s*(.*)$/);
+    if (!match) {
+      errors.push(syntaxError(lineNumber, `Expected 'key = value' or a [section], got '${line.slice(0, 40)}'.`));
+      continue;
+    }
+    const section = sections[sections.length - 1];
+    if (!section) {
+      errors.push(syntaxError(lineNumber, 'Property before the first [section].'));
+      continue;
+    }
+
+    let value = match[2];
+    let state = valueState(value);
+    while ((state.depth > 0 || state.inString) && index + 1 < lines.length) {
+      index++;
+      state = valueState('\n' + lines[index], state);
+      value += '\n' + lines[index];
+    }
+    if (state.depth !== 0 || state.inString) {
+      errors.push(syntaxError(lineNumber, `Value of '${match[1]}' is ${state.inString ? 'an unterminated string' : 'missing closing brackets'}.`));
+    }
+    section.properties.push({ key: match[1], value: value.trimEnd(), line: lineNumber, ...(pending.length > 0 && { leading: pending }) });
+    pending = [];
+  }
+
+  return { document: { sections, trailing: pending }, errors };
+};
+
+/**
+ * Writes a document back as text. Parsed sections and properties keep the blank and comment lines they had;
+ * added ones follow Godot's layout (a blank line between sections, none between consecutive ext_resources).
+ */
+export const serializeTscn = (document: TscnDocument) => {
+  const lines = document.sections.flatMap((section, i) => {
+    const leading = section.leading ?? (i === 0 || (section.tag === 'ext_resource' && document.sections[i - 1].tag === 'ext_resource') ? [] : ['']);
+    const header = `[${[section.tag, ...section.attributes.map(a => `${a.key}=${a.value}`)].join(' ')}]`;
+    return [...leading, header, ...section.properties.flatMap(p => [...(p.leading ?? []), `${p.key} = ${p.value}`])];
+  });
+  return [...lines, ...(document.trailing ?? [''])].join('\n');
+};
+
+export const getAttribute = (section: TscnSection, key: string) => section.attributes.find(a => a.key === key)?.value;
+
+// Reads a quoted attribute ("Player" -> Player); unquoted values are returned as-is
+export const unquote = (value: string | undefined) => {
+  if (value === undefined) return undefined;
+  if (!value.startsWith('"') || !value.endsWith('"') || value.length < 2) return value;
+  return value.slice(1, -1).replace(/\\(.)/g, '$1');
+};
+
+export const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Path of a [node] section as used by parent= and connections: "." for the root, "Body/Sprite" for descendants.
+ */
+export const nodePathOf = (section: TscnSection) => {
+  const name = unquote(getAttribute(section, 'name')) ?? '';
+  const parent = unquote(getAttribute(section, 'parent'));
+  if (parent === undefined) return '.';
+  return parent === '.' ? name : `${parent}/${name}`;
+};
+
+/**
+ * Sets load_steps to the number of resources + 1, as Godot writes it. Returns the same document.
+ */
+export const updateLoadSteps = (document: TscnDocument) => {
+  const header = document.sections[0];
+  if (!header || header.tag !== 'gd_scene') return document;
+  const resources = document.sections.filter(s => s.tag === 'ext_resource' || s.tag === 'sub_resource').length;
+  const steps = header.attributes.find(a => a.key === 'load_steps');
+  if (resources === 0) header.attributes = header.attributes.filter(a => a.key !== 'load_steps');
+  else if (steps) steps.value = String(resources + 1);
+  else header.attributes.unshift({ key: 'load_steps', value: String(resources + 1) });
+  return document;
+};
+
+/**
+ * Checks that a parsed scene would load in Godot 4: header, resource ids, node hierarchy and connections.
+ * With workspacePaths, ext_resources pointing at workspace file types must exist in the workspace.
+ */
+export const validateSceneDocument = (document: TscnDocument, workspacePaths?: string[]): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = [];
+  const header = document.sections[0];
+  const sections = header?.tag === 'gd_scene' ? document.sections.slice(1) : document.sections;
+
+  if (!header || header.tag !== 'gd_scene') {
+    diagnostics.push(sceneProblem(header?.line ?? 1, 'A scene must start with a [gd_scene format=3] header.'));
+  } else {
+    const format = getAttribute(header, 'format');
+    if (format === '2') diagnostics.push(sceneProblem(header.line, 'format=2 is the Godot 3 scene format; Godot 4 scenes use format=3.'));
+    else if (format !== '3') diagnostics.push(sceneProblem(header.line, 'The [gd_scene] header needs format=3.'));
+  }
+
+  const extResources = new Map<string, TscnSection>();
+  const subResources = new Set<string>();
+  const nodePaths = new Set<string>();
+  const usedExtIds = new Set<string>();
+  let seenNode = false;
+
+  const checkReferences = (section: TscnSection, values: TscnProperty[]) => {
+    values.forEach(({ key, value }) => {
+      for (const [reference, kind, id] of value.matchAll(RESOURCE_REF_REGEX)) {
+        if (kind === 'ExtResource') usedExtIds.add(id);
+        if (!reference.includes('"')) {
+          diagnostics.push(sceneProblem(section.line, `${key}: ${kind}(${id}) uses a Godot 3 numeric id; Godot 4 ids are strings, e.g. ${kind}("${id}").`));
+        } else if (kind === 'ExtResource') {
+          if (!extResources.has(id)) diagnostics.push(sceneProblem(section.line, `${key}: ExtResource("${id}") is not declared by any [ext_resource].`));
+        } else if (!subResources.has(id)) {
+          diagnostics.push(sceneProblem(section.line, `${key}: SubResource("${id}") is not declared before it is used.`));
+        }
+      }
+    });
+  };
+
+  sections.forEach(section => {
+    switch (section.tag) {
+      case 'ext_resource': {
+        const id = unquote(getAttribute(section, 'id'));
+        const type = unquote(getAttribute(section, 'type'));
+        const path = unquote(getAttribute(section, 'path'));
+        if (!id || !type || !path) {
+          diagnostics.push(sceneProblem(section.line, '[ext_resource] needs type, path and id attributes.'));
+          break;
+        }
+        if (extResources.has(id)) diagnostics.push(sceneProblem(section.line, `Duplicate ext_resource id "${id}".`));
+        extResources.set(id, section);
+        if (!path.startsWith('res://')) diagnostics.push(sceneProblem(section.line, `ext_resource path '${path}' must be a res:// path.`));
+        if (path.endsWith('.gd') && type !== 'Script') diagnostics.push(sceneProblem(section.line, `${path} is a script; its ext_resource type must be "Script".`));
+        if (workspacePaths && WORKSPACE_EXTENSIONS.some(ext => path.endsWith(ext)) && !workspacePaths.includes(path)) {
+          diagnostics.push(sceneProblem(section.line, `${path} does not exist in the project.`));
+        }
+        break;
+      }
+      case 'sub_resource': {
+        const id = unquote(getAttribute(section, 'id'));
+        if (!id || !getAttribute(section, 'type')) {
+          diagnostics.push(sceneProblem(section.line, '[sub_resource] needs type and id attributes.'));
+          break;
+        }
+        if (subResources.has(id)) diagnostics.push(sceneProblem(section.line, `Duplicate sub_resource id "${id}".`));
+        checkReferences(section, section.properties);
+        subResources.add(id);
+        break;
+      }
+      case 'node': {
+        const name = unquote(getAttribute(section, 'name'));
+        const parent = unquote(getAttribute(section, 'parent'));
+        if (!name) {
+          diagnostics.push(sceneProblem(section.line, '[node] needs a name attribute.'));
+          break;
+        }
+        if (/[./:@%"]/.test(name)) diagnostics.push(sceneProblem(section.line, `Node name '${name}' contains a character Godot doesn't allow in names (. / : @ % ").`));
+        if (!getAttribute(section, 'type') && !getAttribute(section, 'instance') && parent !== undefined) {
+          diagnostics.push(sceneProblem(section.line, `Node '${name}' needs a type or an instance.`));
+        }
+        if (!seenNode) {
+          if (parent !== undefined) diagnostics.push(sceneProblem(section.line, `The first node is the scene root and must not have a parent (found parent="${parent}").`));
+          else if (!getAttribute(section, 'type') && !getAttribute(section, 'instance')) diagnostics.push(sceneProblem(section.line, `Root node '${name}' needs a type or an instance.`));
+        } else if (parent === undefined) {
+          diagnostics.push(sceneProblem(section.line, `Node '${name}' has no parent; only the first node can be the root.`));
+          break;
+        } else if (!nodePaths.has(parent)) {
+          diagnostics.push(sceneProblem(section.line, `Parent '${parent}' of node '${name}' is not declared above it.`));
+        }
+        // A root with a stray parent is still the root, so its children don't cascade into more errors
+        const path = seenNode ? nodePathOf(section) : '.';
+        seenNode = true;
+        if (nodePaths.has(path)) diagnostics.push(sceneProblem(section.line, `Duplicate node '${path}'; sibling names must be unique.`));
+        nodePaths.add(path);
+        checkReferences(section, [...section.attributes, ...section.properties]);
+        break;
+      }
+      case 'connection': {
+        const [signal, from, to, method] = ['signal', 'from', 'to', 'method'].map(key => unquote(getAttribute(section, key)));
+        if (!signal || from === undefined || to === undefined || !method) {
+          diagnostics.push(sceneProblem(section.line, '[connection] needs signal, from, to and method attributes.'));
+          break;
+        }
+        if (!nodePaths.has(from)) diagnostics.push(sceneProblem(section.line, `Connection of '${signal}' comes from '${from}', which is not a node of this scene.`));
+        if (!nodePaths.has(to)) diagnostics.push(sceneProblem(section.line, `Connection of '${signal}' goes to '${to}', which is not a node of this scene.`));
+        break;
+      }
+      case 'editable':
+        break;
+      default:
+        diagnostics.push(sceneProblem(section.line, `Unknown section [${section.tag}] in a scene file.`));
+    }
+  });
+
+  if (header?.tag === 'gd_scene' && !seenNode) diagnostics.push(sceneProblem(header.line, 'The scene has no [node] sections.'));
+  extResources.forEach((section, id) => {
+    if (!usedExtIds.has(id)) diagnostics.push(sceneProblem(section.line, `ext_resource "${id}" is never used.`, 'warning'));
+  });
+  return diagnostics;
+};
+
+export const validateScene = (text: string, workspacePaths?: string[]): Diagnostic[] => {
+  const { document, errors } = parseTscn(text);
+  return [...errors, ...validateSceneDocument(document, workspacePaths)].sort((a, b) => a.line - b.line);
+};
+
+/**
+ * Round-trips scene text through the parser so generated scenes get Godot's layout and a correct load_steps.
+ * Text that doesn't parse cleanly is returned unchanged.
+ */
+export const normalizeScene = (text: string) => {
+  const { document, errors } = parseTscn(text);
+  if (errors.length > 0 || document.sections.length === 0) return text;
+  const layout = (section: TscnSection) => ({ ...section, leading: undefined, properties: section.properties.map(p => ({ ...p, leading: undefined })) });
+  return serializeTscn(updateLoadSteps({ sections: document.sections.map(layout) }));
+};
+
+// Node hierarchy of a scene, as shown in the scene tree panel and sent to the model as context
+export interface SceneNode {
+  name: string;
+  path: string; // "." for the root, "Body/Sprite" below it
+  type?: string;
+  instance?: string; // res:// path of an instanced scene
+  script?: string; // res:// path of the attached script
+  groups: string[];
+  children: SceneNode[];
+  line: number;
+}
+
+export interface SceneConnection {
+  signal: string;
+  from: string;
+  to: string;
+  method: string;
+  line: number;
+}
+
+export interface SceneTree {
+  root: SceneNode | null;
+  connections: SceneConnection[];
+}
+
+const referencedId = (value: string | undefined) => value?.match(/^ExtResource\(\s*"?([^")\s]*)"?\s*\)$/)?.[1];
+
+/**
+ * Builds the node hierarchy of a parsed scene. Nodes whose parent can't be found are left out.
+ */
+export const buildSceneTree = (document: TscnDocument): SceneTree => {
+  const extPaths = new Map<string, string>();
+  const nodes = new Map<string, SceneNode>();
+  let root: SceneNode | null = null;
+  const connections: SceneConnection[] = [];
+
+  document.sections.forEach(section => {
+    if (section.tag === 'ext_resource') {
+      const id = unquote(getAttribute(section, 'id'));
+      const path = unquote(getAttribute(section, 'path'));
+      if (id && path) extPaths.set(id, path);
+    } else if (section.tag === 'node') {
+      const scriptId = referencedId(section.properties.find(p => p.key === 'script')?.value);
+      const instanceId = referencedId(getAttribute(section, 'instance'));
+      const node: SceneNode = {
+        name: unquote(getAttribute(section, 'name')) ?? '',
+        path: root ? nodePathOf(section) : '.',
+        type: unquote(getAttribute(section, 'type')),
+        instance: instanceId ? extPaths.get(instanceId) : undefined,
+        script: scriptId ? extPaths.get(scriptId) : undefined,
+        groups: Array.from((getAttribute(section, 'groups') ?? '').matchAll(/"((?:\\.|[^"\\])*)"/g), m => m[1]),
+        children: [],
+        line: section.line
+      };
+      if (!root) root = node;
+      else {
+        const parent = nodes.get(unquote(getAttribute(section, 'parent')) ?? '');
+        if (!parent) return;
+        parent.children.push(node);
+      }
+      nodes.set(node.path, node);
+    } else if (section.tag === 'connection') {
+      const [signal, from, to, method] = ['signal', 'from', 'to', 'method'].map(key => unquote(getAttribute(section, key)) ?? '');
+      connections.push({ signal, from, to, method, line: section.line });
+    }
+  });
+
+  return { root, connections };
+};
+
+/**
+ * Indented outline of a scene ("Player (CharacterBody2D) script=res://player.gd"), for prompts.
+ */
+export const formatSceneTree = (tree: SceneTree) => {
+  const lines: string[] = [];
+  const visit = (node: SceneNode, depth: number) => {
+    const details = [
+      node.type ? `(${node.type})` : node.instance ? `(instance of ${node.instance})` : '',
+      node.script ? `script=${node.script}` : '',
+      node.groups.length > 0 ? `groups=[${node.groups.join(', ')}]` : ''
+    ].filter(Boolean).join(' ');
+    lines.push(`${'  '.repeat(depth)}${node.name} ${details}`.trimEnd());
+    node.children.forEach(child => visit(child, depth + 1));
+  };
+  if (tree.root) visit(tree.root, 0);
+  if (tree.connections.length > 0) {
+    lines.push('Connections:');
+    tree.connections.forEach(c => lines.push(`  ${c.from}.${c.signal} -> ${c.to}.${c.method}()`));
+  }
+  return lines.join('\n');
+};
+
+export const nodesWithScript = (tree: SceneTree, script: string) => {
+  const found: SceneNode[] = [];
+  const visit = (node: SceneNode) => {
+    if (node.script === script) found.push(node);
+    node.children.forEach(visit);
+  };
+  if (tree.root) visit(tree.root);
+  return found;
+};
+
+export type SceneEdit =
+  | { kind: 'add_child'; parent: string; name: string; type: string }
+  | { kind: 'rename'; path: string; name: string }
+  | { kind: 'reparent'; path: string; parent: string }
+  | { kind: 'attach_script'; path: string; script: string | null };
+
+// Rewrites node paths under a renamed or moved node: "Body" -> "Player/Body" also turns "Body/Sprite" into "Player/Body/Sprite"
+const rebasePath = (path: string, from: string, to: string) =>
+  path === from ? to : path.startsWith(`${from}/`) ? to + path.slice(from.length) : path;
+
+const isWithin = (path: string, ancestor: string) => ancestor === '.' || path === ancestor || path.startsWith(`${ancestor}/`);
+
+const childPath = (parent: string, name: string) => parent === '.' ? name : `${parent}/${name}`;
+
+// Scene path of a NodePath relative to the node at base; null when it leaves the scene
+const resolveNodePath = (base: string, relative: string) => {
+  const parts = base === '.' ? [] : base.split('/');
+  for (const part of relative.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part !== '..') parts.push(part);
+    else if (parts.pop() === undefined) return null;
+  }
+  return parts.length > 0 ? parts.join('/') : '.';
+};
+
+const relativeNodePath = (from: string, to: string) => {
+  const fromParts = from === '.' ? [] : from.split('/');
+  const toParts = to === '.' ? [] : to.split('/');
+  let common = 0;
+  while (common < fromParts.length && common < toParts.length && fromParts[common] === toParts[common]) common++;
+  const parts = [...fromParts.slice(common).map(() => '..'), ...toParts.slice(common)];
+  return parts.length > 0 ? parts.join('/') : '.';
+};
+
+const NODE_PATH_REGEX = /\bNodePath\(\s*"([^"]*)"\s*\)/g;
+
+const setAttribute = (section: TscnSection, key: string, value: string) => {
+  const existing = section.attributes.find(a => a.key === key);
+  if (existing) existing.value = value;
+  else section.attributes.push({ key, value });
+};
+
+/**
+ * Applies a structural edit from the scene tree panel to .tscn text and returns the new text.
+ * Throws when the scene doesn't parse or the edit would produce an invalid tree.
+ */
+export const applySceneEdit = (text: string, edit: SceneEdit): string => {
+  const { document, errors } = parseTscn(text);
+  if (errors.length > 0) throw new Error(`Fix the syntax errors in the scene first (line ${errors[0].line}: ${errors[0].message})`);
+
+  const nodeSections = document.sections.filter(s => s.tag === 'node');
+  const pathOf = (section: TscnSection) => section === nodeSections[0] ? '.' : nodePathOf(section);
+  const findNode = (path: string) => {
+    const section = nodeSections.find(s => pathOf(s) === path);
+    if (!section) throw new Error(`Node '${path}' is not in the scene.`);
+    return section;
+  };
+  const subtree = (path: string) => nodeSections.filter(s => isWithin(pathOf(s), path));
+  const checkName = (parent: string, name: string) => {
+    if (!name) throw new Error('Node names cannot be empty.');
+    if (/[./:@%"]/.test(name)) throw new Error(`'${name}' contains a character Godot doesn't allow in node names (. / : @ % ").`);
+    if (nodeSections.some(s => s !== nodeSections[0] && pathOf(s) === childPath(parent, name))) {
+      throw new Error(`'${parent === '.' ? unquote(getAttribute(nodeSections[0], 'name')) : parent}' already has a child named '${name}'.`);
+    }
+  };
+  // Moved and added nodes go after the last node of their new parent's subtree, so parents stay declared first
+  const insertAfterSubtree = (parent: string, sections: TscnSection[]) => {
+    const last = subtree(parent).filter(s => !sections.includes(s)).pop();
+    document.sections = document.sections.filter(s => !sections.includes(s));
+    document.sections.splice(document.sections.indexOf(last!) + 1, 0, ...sections);
+  };
+  const rebaseReferences = (from: string, to: string) => {
+    // NodePath properties are relative to their node, so both ends move; absolute and %Unique paths don't depend on the tree
+    const owners = new Map(nodeSections.map(s => [s, pathOf(s)]));
+    owners.forEach((owner, section) => {
+      const newOwner = rebasePath(owner, from, to);
+      section.properties.forEach(property => {
+        property.value = property.value.replace(NODE_PATH_REGEX, (match, nodePath: string) => {
+          const [relative, ...subnames] = nodePath.split(':');
+          if (!relative || relative.startsWith('/') || relative.startsWith('%')) return match;
+          const target = resolveNodePath(owner, relative);
+          if (target === null) return match;
+          const moved = relativeNodePath(newOwner, rebasePath(target, from, to));
+          if (moved === relativeNodePath(owner, target)) return match;
+          return `NodePath(${quote([moved, ...subnames].join(':'))})`;
+        });
+      });
+    });
+    document.sections.forEach(section => {
+      const keys = section.tag === 'node' ? ['parent'] : section.tag === 'connection' ? ['from', 'to'] : section.tag === 'editable' ? ['path'] : [];
+      keys.forEach(key => {
+        const value = unquote(getAttribute(section, key));
+        if (value !== undefined && value !== '.') setAttribute(section, key, quote(rebasePath(value, from, to)));
+      });
+    });
+  };
+
+  switch (edit.kind) {
+    case 'add_child': {
+      findNode(edit.parent);
+      checkName(edit.parent, edit.name);
+      if (!/^[A-Z]\w*$/.test(edit.type)) throw new Error(`'${edit.type}' is not a node class name.`);
+      const section: TscnSection = {
+        tag: 'node',
+        attributes: [{ key: 'name', value: quote(edit.name) }, { key: 'type', value: quote(edit.type) }, { key: 'parent', value: quote(edit.parent) }],
+        properties: [],
+        line: 0
+      };
+      document.sections.push(section);
+      insertAfterSubtree(edit.parent, [section]);
+      break;
+    }
+    case 'rename': {
+      const section = findNode(edit.path);
+      if (edit.path === '.') {
+        if (!edit.name || /[./:@%"]/.test(edit.name)) throw new Error(`'${edit.name}' is not a valid node name.`);
+      } else {
+        checkName(unquote(getAttribute(section, 'parent'))!, edit.name);
+        rebaseReferences(edit.path, childPath(unquote(getAttribute(section, 'parent'))!, edit.name));
+      }
+      setAttribute(section, 'name', quote(edit.name));
+      break;
+    }
+    case 'reparent': {
+      if (edit.path === '.') throw new Error('The root node cannot be reparented.');
+      const section = findNode(edit.path);
+      findNode(edit.parent);
+      if (isWithin(edit.parent, edit.path)) throw new Error('A node cannot be moved under itself.');
+      if (unquote(getAttribute(section, 'parent')) === edit.parent) return text;
+      const name = unquote(getAttribute(section, 'name'))!;
+      checkName(edit.parent, name);
+      const moved = subtree(edit.path);
+      rebaseReferences(edit.path, childPath(edit.parent, name));
+      setAttribute(section, 'parent', quote(edit.parent));
+      insertAfterSubtree(edit.parent, moved);
+      break;
+    }
+    case 'attach_script': {
+      const section = findNode(edit.path);
+      const previousId = referencedId(section.properties.find(p => p.key === 'script')?.value);
+      section.properties = section.properties.filter(p => p.key !== 'script');
+      if (edit.script) {
+        const extSections = document.sections.filter(s => s.tag === 'ext_resource');
+        let resource = extSections.find(s => unquote(getAttribute(s, 'path')) === edit.script && unquote(getAttribute(s, 'type')) === 'Script');
+        if (!resource) {
+          const ids = new Set(extSections.map(s => unquote(getAttribute(s, 'id'))));
+          const stem = edit.script.slice(edit.script.lastIndexOf('/') + 1).replace(/\.\w+$/, '');
+          let n = extSections.length + 1;
+          while (ids.has(`${n}_${stem}`)) n++;
+          resource = {
+            tag: 'ext_resource',
+            attributes: [{ key: 'type', value: '"Script"' }, { key: 'path', value: quote(edit.script) }, { key: 'id', value: quote(`${n}_${stem}`) }],
+            properties: [],
+            line: 0
+          };
+          const anchor = extSections[extSections.length - 1] ?? document.sections[0];
+          document.sections.splice(document.sections.indexOf(anchor) + 1, 0, resource);
+        }
+        section.properties.unshift({ key: 'script', value: `ExtResource(${getAttribute(resource, 'id')})` });
+      }
+      // Drop the previous script's ext_resource once nothing references it
+      const stillUsed = document.sections.some(s => [...s.attributes, ...s.properties].some(p =>
+        Array.from(p.value.matchAll(RESOURCE_REF_REGEX)).some(([, kind, id]) => kind === 'ExtResource' && id === previousId)));
+      if (previousId && !stillUsed) {
+        document.sections = document.sections.filter(s => !(s.tag === 'ext_resource' && unquote(getAttribute(s, 'id')) === previousId));
+      }
+      break;
+    }
+  }
+
+  return serializeTscn(updateLoadSteps(document));
+};
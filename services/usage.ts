@@ -0,0 +1,76 @@
+import { ModelSelection, TokenUsage, ToolMode, UsageEntry } from "../types";
+
+// List prices in USD per million tokens (thinking is billed as output). Prices change: treat costs as estimates.
+const MODEL_PRICES: { prefix: string; input: number; output: number }[] = [
+  { prefix: 'gemini-3-pro-image', input: 2, output: 120 },
+  { prefix: 'gemini-3-pro', input: 2, output: 12 },
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10 },
+  { prefix: 'gemini-2.5-flash-lite', input: 0.1, output: 0.4 },
+  { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5 },
+];
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, outputTokens: 0, thinkingTokens: 0 };
+
+// Local calendar day, so "today" matches the user's clock
+export const dayKey = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Adds one request's token counts to the matching day/mode/model entry.
+ */
+export const recordUsage = (entries: UsageEntry[], mode: ToolMode, selection: ModelSelection, usage: TokenUsage, time = Date.now()): UsageEntry[] => {
+  const day = dayKey(time);
+  const matches = (e: UsageEntry) => e.day === day && e.mode === mode && e.provider === selection.provider && e.model === selection.model;
+  const existing = entries.find(matches) ?? { ...EMPTY_USAGE, day, mode, provider: selection.provider, model: selection.model, requests: 0 };
+  const updated: UsageEntry = {
+    ...existing,
+    requests: existing.requests + 1,
+    promptTokens: existing.promptTokens + usage.promptTokens,
+    outputTokens: existing.outputTokens + usage.outputTokens,
+    thinkingTokens: existing.thinkingTokens + usage.thinkingTokens,
+  };
+  return [...entries.filter(e => !matches(e)), updated];
+};
+
+/**
+ * Estimated cost in USD, or null when the model has no known price (local models are free).
+ */
+export const estimateCost = (entry: UsageEntry): number | null => {
+  if (entry.provider === 'openai-compatible') return 0;
+  const price = MODEL_PRICES.find(p => entry.model.startsWith(p.prefix));
+  if (!price) return null;
+  return (entry.promptTokens * price.input + (entry.outputTokens + entry.thinkingTokens) * price.output) / 1_000_000;
+};
+
+export interface UsageTotal extends TokenUsage {
+  key: string;
+  requests: number;
+  cost: number;
+  unpriced: boolean; // Some requests used a model without a known price
+}
+
+/**
+ * Sums entries by a key (mode, day, model...), in first-seen order.
+ */
+export const totalUsageBy = (entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): UsageTotal[] => {
+  const totals = new Map<string, UsageTotal>();
+  entries.forEach(entry => {
+    const key = keyOf(entry);
+    const total = totals.get(key) ?? { ...EMPTY_USAGE, key, requests: 0, cost: 0, unpriced: false };
+    const cost = estimateCost(entry);
+    totals.set(key, {
+      ...total,
+      requests: total.requests + entry.requests,
+      promptTokens: total.promptTokens + entry.promptTokens,
+      outputTokens: total.outputTokens + entry.outputTokens,
+      thinkingTokens: total.thinkingTokens + entry.thinkingTokens,
+      cost: total.cost + (cost ?? 0),
+      unpriced: total.unpriced || cost === null,
+    });
+  });
+  return Array.from(totals.values());
+};
+
+export const totalTokens = (usage: TokenUsage) => usage.promptTokens + usage.outputTokens + usage.thinkingTokens;
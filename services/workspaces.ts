@@ -0,0 +1,221 @@
+import { ChatMessage, GenerationConfig, GenerationRequest, ProjectFile, ToolMode, Workspace, WorkspaceSummary } from "../types";
+import { DEFAULT_PROVIDER_CONFIG } from "./llm";
+import { toResPath, withPath } from "./paths";
+import { DEFAULT_VISUAL_ASSET } from "./sprites";
+import { DEFAULT_LIBRARY } from "./library";
+
+const DB_NAME = 'godot-architect';
+const DB_VERSION = 2;
+const STORE = 'workspaces';
+const SUMMARY_STORE = 'summaries'; // Names for the switcher, so listing doesn't read every project
+
+// Undo steps kept in a saved workspace: every edit is a full snapshot of the files, images included
+export const MAX_SAVED_HISTORY = 50;
+
+const INITIAL_CODE = `extends CharacterBody2D
+
+const SPEED = 300.0
+const JUMP_VELOCITY = -400.0
+
+var gravity = ProjectSettings.get_setting("physics/2d/default_gravity")
+
+func _physics_process(delta):
+\tif not is_on_floor():
+\t\tvelocity.y += gravity * delta
+
+\tif Input.is_action_just_pressed("ui_accept") and is_on_floor():
+\t\tvelocity.y = JUMP_VELOCITY
+
+\tvar direction = Input.get_axis("ui_left", "ui_right")
+\tif direction:
+\t\tvelocity.x = direction * SPEED
+\telse:
+\t\tvelocity.x = move_toward(velocity.x, 0, SPEED)
+
+\tmove_and_slide()
+`;
+
+export const INITIAL_FILES: ProjectFile[] = [
+    { id: '1', name: 'player.gd', path: 'res://player.gd', language: 'gdscript', content: INITIAL_CODE },
+    { id: '2', name: 'game_manager.gd', path: 'res://game_manager.gd', language: 'gdscript', content: 'extends Node\n\nvar score: int = 0\n' }
+];
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  creativity: 0.5,
+  verbosity: 'standard',
+  typing: 'strict',
+  architecture: 'default',
+  shaderType: 'canvas_item',
+  maxRepairAttempts: 2,
+  thinkingBudgets: {
+    [ToolMode.CODE_GEN]: 4096,
+    [ToolMode.ASSET_GEN]: 4096,
+    [ToolMode.PHYSICS]: 4096,
+    [ToolMode.LOGIC]: 4096,
+    [ToolMode.DATA]: 4096,
+    [ToolMode.DEBUGGER]: 2048,
+    [ToolMode.CHAT]: -1,
+  },
+  promptTokenWarning: 30000
+};
+
+const simpleId = () => Math.random().toString(36).substr(2, 9);
+
+export const createGreeting = (): ChatMessage => ({
+  id: simpleId(),
+  role: 'model',
+  content: "Hello. I am your Godot Architect. I can see all your project files. How can I assist you?",
+  timestamp: Date.now()
+});
+
+export const createWorkspace = (name: string, files: ProjectFile[] = INITIAL_FILES): Workspace => ({
+  id: simpleId(),
+  name,
+  updatedAt: Date.now(),
+  files,
+  activeFileId: (files.find(f => f.language === 'gdscript') || files[0]).id,
+  folders: [],
+  history: [files],
+  historyIndex: 0,
+  chatHistory: [createGreeting()],
+  chatSummary: null,
+  generationConfig: DEFAULT_GENERATION_CONFIG,
+  providerConfig: DEFAULT_PROVIDER_CONFIG,
+  contextPreferences: { pinned: [], excluded: [] },
+  usage: [],
+  generations: [],
+  library: DEFAULT_LIBRARY
+});
+
+// Requests recorded before the sprite pipeline were single images, before image editing had no mask,
+// and before multiple references had a single optional image
+const migrateRequest = ({ image, ...request }: GenerationRequest & { image?: string | null }): GenerationRequest => ({
+  ...request,
+  images: request.images ?? (image ? [image] : []),
+  mask: request.mask ?? null,
+  visualAsset: { ...DEFAULT_VISUAL_ASSET, ...request.visualAsset }
+});
+
+const migrateFile = (file: ProjectFile): ProjectFile => {
+  const migrated = file.path ? file : withPath(file, toResPath(file.name));
+  return migrated.source ? { ...migrated, source: { ...migrated.source, request: migrateRequest(migrated.source.request) } } : migrated;
+};
+
+/**
+ * Fills settings added after a workspace was saved with their current defaults.
+ */
+const migrateWorkspace = (workspace: Workspace): Workspace => ({
+  ...workspace,
+  // Workspaces saved before folders existed only had flat names
+  files: workspace.files.map(migrateFile),
+  history: workspace.history.map(snapshot => snapshot.map(migrateFile)),
+  folders: workspace.folders || [],
+  generationConfig: {
+    ...DEFAULT_GENERATION_CONFIG,
+    ...workspace.generationConfig,
+    thinkingBudgets: { ...DEFAULT_GENERATION_CONFIG.thinkingBudgets, ...workspace.generationConfig?.thinkingBudgets }
+  },
+  providerConfig: {
+    ...DEFAULT_PROVIDER_CONFIG,
+    ...workspace.providerConfig,
+    // Modes added later get the default model
+    modes: { ...DEFAULT_PROVIDER_CONFIG.modes, ...workspace.providerConfig?.modes }
+  },
+  contextPreferences: workspace.contextPreferences || { pinned: [], excluded: [] },
+  usage: workspace.usage || [],
+  generations: (workspace.generations || []).map(record => ({ ...record, request: migrateRequest(record.request) })),
+  library: workspace.library || DEFAULT_LIBRARY
+});
+
+/**
+ * The undo steps around the current one, at most MAX_SAVED_HISTORY, with the index moved to match.
+ * Steps to undo are kept first; redo steps fill what's left.
+ */
+export const trimHistory = (history: ProjectFile[][], historyIndex: number) => {
+  const start = Math.max(0, historyIndex - MAX_SAVED_HISTORY + 1);
+  return { history: history.slice(start, start + MAX_SAVED_HISTORY), historyIndex: historyIndex - start };
+};
+
+const summaryOf = ({ id, name, updatedAt }: Workspace): WorkspaceSummary => ({ id, name, updatedAt });
+
+// --- IndexedDB plumbing ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+          // Workspaces saved before summaries existed
+          const cursorReq = req.transaction!.objectStore(STORE).openCursor();
+          cursorReq.onsuccess = () => {
+            const cursor = cursorReq.result;
+            if (!cursor) return;
+            summaries.put(summaryOf(cursor.value));
+            cursor.continue();
+          };
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const req = action(db.transaction(storeName, mode).objectStore(storeName));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+// Workspaces and their summaries change together, in one transaction
+const writeBoth = async (action: (workspaces: IDBObjectStore, summaries: IDBObjectStore) => void) => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([STORE, SUMMARY_STORE], 'readwrite');
+    action(transaction.objectStore(STORE), transaction.objectStore(SUMMARY_STORE));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    // A full quota aborts the transaction without an error event on it
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const all = await run<WorkspaceSummary[]>('readonly', store => store.getAll(), SUMMARY_STORE);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadWorkspace = async (id: string): Promise<Workspace | null> => {
+  const workspace = await run<Workspace | undefined>('readonly', store => store.get(id));
+  return workspace ? migrateWorkspace(workspace) : null;
+};
+
+export const saveWorkspace = async (workspace: Workspace) => {
+  const saved = { ...workspace, ...trimHistory(workspace.history, workspace.historyIndex) };
+  await writeBoth((workspaces, summaries) => {
+    workspaces.put(saved);
+    summaries.put(summaryOf(saved));
+  });
+};
+
+export const deleteWorkspace = async (id: string) => {
+  await writeBoth((workspaces, summaries) => {
+    workspaces.delete(id);
+    summaries.delete(id);
+  });
+};
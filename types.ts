@@ -3,6 +3,7 @@ export enum ToolMode {
   ASSET_GEN = 'ASSET_GEN',
   PHYSICS = 'PHYSICS',
   LOGIC = 'LOGIC',
+  DATA = 'DATA',
   DEBUGGER = 'DEBUGGER',
   CHAT = 'CHAT'
 }
@@ -11,18 +12,58 @@ export type GodotContextType = '2D' | '3D' | 'UI' | 'Logic' | 'Shader';
 
 export type AssetOutputMode = 'script' | 'image';
 
+export type CodeOutputMode = 'script' | 'scene'; // scene = a .tscn built around the active script
+
+export type VisualAssetKind = 'image' | 'spritesheet' | 'tileset';
+
+export type ImageSize = '1K' | '2K' | '4K'; // Resolution requested from the image model
+
+// How a generated image is laid out and processed before it is saved into the project
+export interface VisualAssetOptions {
+  kind: VisualAssetKind;
+  name: string; // File name without extension; empty = derived from the prompt
+  columns: number; // Grid of frames / tiles (a single image is 1x1)
+  rows: number;
+  frameWidth: number; // Pixels per frame / tile (the whole image for a single image)
+  frameHeight: number;
+  pixelArt: boolean; // Downscale to the frame size and quantize to a limited palette
+  paletteSize: number;
+  transparentBackground: boolean; // The model paints a flat key color, removed locally
+  animationName: string; // Sprite sheets: the SpriteFrames animation
+  fps: number;
+  aspectRatio: string; // "width:height" requested from the model; 'auto' = closest to the sheet size
+  imageSize: ImageSize;
+  variations: number; // Candidates generated at once, picked from during review
+  styleReferences: string[]; // Paths of accepted assets sent along so the new one matches their style
+}
+
+export type ShaderType = 'canvas_item' | 'spatial' | 'particles';
+
 export interface GenerationConfig {
   creativity: number; // 0.0 (Strict) to 1.0 (Creative)
   verbosity: 'minimal' | 'standard' | 'educational';
   typing: 'strict' | 'dynamic';
   architecture: 'default' | 'composition' | 'inheritance';
+  shaderType: ShaderType; // Used when the target context is 'Shader'
+  maxRepairAttempts: number; // Retries when generated code fails local validation (0 = off)
+  thinkingBudgets: Record<ToolMode, number>; // Reasoning tokens per request in each mode (-1 = model default)
+  promptTokenWarning: number; // Ask before sending a request estimated above this many tokens
 }
 
 export interface ProjectFile {
   id: string;
-  name: string;
-  language: 'gdscript' | 'shader' | 'json';
-  content: string;
+  name: string; // File name only, e.g. player.gd
+  path: string; // Full res:// path, e.g. res://scenes/player/player.gd
+  language: 'gdscript' | 'shader' | 'json' | 'scene' | 'resource' | 'config' | 'image' | 'text'; // scene = .tscn, resource = .tres, config = project.godot, image = .png/.jpg/..., text = any other file
+  content: string; // Text, or a data URL for images
+  source?: AssetSource; // Generated images: what produced them
+}
+
+// The request behind a generated asset, kept with the file so it can be regenerated after the history is gone
+export interface AssetSource {
+  prompt: string;
+  request: GenerationRequest;
+  createdAt: number;
 }
 
 export interface ChatMessage {
@@ -32,12 +73,164 @@ export interface ChatMessage {
   codeSnippet?: string;
   timestamp: number;
   isThinking?: boolean;
+  isError?: boolean; // Failed replies are shown but never replayed to the model
+  contextFiles?: string[]; // Project files that were sent along with this reply's request
+  images?: string[]; // Attached by the user, as data URLs
+}
+
+export interface ChatSummary {
+  text: string;
+  throughId: string; // Id of the last message folded into the summary
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+export type DiagnosticRule = 'syntax' | 'indentation' | 'godot3' | 'typing' | 'scene' | 'resource';
+
+// A problem found by the offline validator. line/column are 1-based.
+export interface Diagnostic {
+  line: number;
+  column?: number;
+  severity: DiagnosticSeverity;
+  rule: DiagnosticRule;
+  message: string;
+}
+
+export interface FileDiagnostics {
+  path: string;
+  diagnostics: Diagnostic[];
+}
+
+// One self-repair retry: the validation failures sent back to the model, and which of them the retry fixed
+export interface RepairAttempt {
+  attempt: number;
+  problems: string[];
+  fixed: string[];
+}
+
+// Shown in the Insight panel after a generation
+export interface GenerationReport {
+  validation: FileDiagnostics[];
+  repairs: RepairAttempt[];
+}
+
+// A whole-file write proposed by the model: an edit when the path exists, a new file otherwise
+export interface FileChange {
+  path: string;
+  language: ProjectFile['language'];
+  content: string;
+  source?: AssetSource;
+  variants?: string[]; // Generated images to pick from in the review; content is the first one
 }
 
 export interface GeneratedCodeResponse {
   code: string;
   explanation: string;
+  fileName?: string; // Suggested name when the output becomes a new file (e.g. a .gdshader)
+  files?: FileChange[]; // Other files the request creates or rewrites alongside the active file
+  repairs?: RepairAttempt[]; // Self-repair retries it took to pass validation
 }
 
+export type ProviderId = 'gemini' | 'openai-compatible';
+
+export interface ModelSelection {
+  provider: ProviderId;
+  model: string;
+}
+
+export interface ProviderConfig {
+  modes: Record<ToolMode, ModelSelection>; // Text model used by each tool mode
+  image: ModelSelection; // Model used for visual asset generation
+  openaiCompatible: {
+    baseUrl: string; // e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+    apiKey: string;
+  };
+}
+
+// Inputs of a Tools request, enough to run it again
+export interface GenerationRequest {
+  mode: ToolMode;
+  prompt: string;
+  referenceInput: string;
+  errorInput: string;
+  images: string[]; // Reference images as data URLs
+  mask: string | null; // Painted over the first reference image: white = the area to change, black = kept as is
+  godotContext: GodotContextType;
+  assetOutputMode: AssetOutputMode;
+  codeOutputMode: CodeOutputMode;
+  visualAsset: VisualAssetOptions;
+  config: GenerationConfig;
+  model: ModelSelection;
+  activePath: string; // File that was active; re-runs target it again when it still exists
+}
+
+// One finished Tools request and what it produced
+export interface GenerationRecord {
+  id: string;
+  timestamp: number;
+  request: GenerationRequest;
+  status: 'done' | 'error';
+  explanation: string; // The model's explanation, or the error message
+  changes: FileChange[]; // Files it proposed, as generated (before review)
+  imageUrl?: string; // Visual assets
+  report?: GenerationReport;
+}
+
+// Token counts reported by the provider for one request
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+// Requests and tokens of one model in one tool mode on one (local) day
+export interface UsageEntry extends TokenUsage {
+  day: string; // YYYY-MM-DD
+  mode: ToolMode;
+  provider: ProviderId;
+  model: string;
+  requests: number;
+}
+
+// Files the user always sends (pinned) or never sends (excluded) as project context, by res:// path
+export interface ContextPreferences {
+  pinned: string[];
+  excluded: string[];
+}
+
+// A prompt of the Tools library (built in, or defined by the team and shared as JSON). {{name}} in the prompt
+// is a variable filled in through a form before it runs; see services/library.ts for the ones filled automatically
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  description: string; // Subtitle of cards; chips only show the title
+  icon: string; // Name from the library icon set
+  display: 'card' | 'chip';
+  output: 'code' | 'image'; // Offered for scripts, scenes and shaders, or for visual assets
+  modes: ToolMode[];
+  contexts: GodotContextType[]; // Code entries: the contexts they apply to (empty = any)
+  prompt: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  updatedAt: number;
+  files: ProjectFile[];
+  activeFileId: string;
+  folders: string[]; // Explicitly created folders (res:// paths), kept even while empty
+  history: ProjectFile[][]; // Undo/redo snapshots
+  historyIndex: number;
+  chatHistory: ChatMessage[];
+  chatSummary: ChatSummary | null;
+  generationConfig: GenerationConfig;
+  providerConfig: ProviderConfig;
+  contextPreferences: ContextPreferences;
+  usage: UsageEntry[];
+  generations: GenerationRecord[]; // Newest first
+  library: LibraryEntry[];
+}
+
+export type WorkspaceSummary = Pick<Workspace, 'id' | 'name' | 'updatedAt'>;
+
 export const GODOT_BLUE = '#478cbf';
 export const GODOT_DARK = '#202531';
\ No newline at end of file